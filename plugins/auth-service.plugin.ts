@@ -2,32 +2,279 @@ import { registerPlugin } from './registry.js'
 import { request } from 'undici'
 import { ValidationError } from '../errors/validation.error.js'
 import { SC } from '../constants/status-codes.js'
-import { getConfig } from '../config.js'
+import { PSC } from './status-codes.js'
+import { getConfig } from './runtime.js'
+import { getPluginSettings, type CredentialSettings } from './settings.js'
+import { callerOf, lockedFor, recordLoginFailure, recordLoginSuccess } from './login-guard.js'
 import type { PluginContext, PluginResponse } from '../types/index.js'
 
 const JSON_HEADERS = { 'content-type': 'application/json' }
 
+// Auth Service 返回的这些状态码原样透传，其余（含 5xx 与不可达）视为上游故障
+const PASSTHROUGH_STATUS = new Set<number>([SC.BAD_REQUEST, PSC.UNAUTHORIZED, PSC.FORBIDDEN, PSC.NOT_FOUND, PSC.CONFLICT])
+
+// 透传状态码对应的默认错误码，各插件可按接口语义覆盖
+const DEFAULT_ERROR_CODES: Record<number, string> = {
+  [SC.BAD_REQUEST]: 'invalid_request',
+  [PSC.UNAUTHORIZED]: 'unauthorized',
+  [PSC.FORBIDDEN]: 'forbidden',
+  [PSC.NOT_FOUND]: 'not_found',
+  [PSC.CONFLICT]: 'conflict'
+}
+
+const DEFAULT_TIMEOUT_MS = 5000
+const DEFAULT_MAX_RETRIES = 2
+const DEFAULT_RETRY_DELAY_MS = 200
+
+// 请求未送达 Auth Service 的连接错误，任何接口都可以安全重试
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'UND_ERR_CONNECT_TIMEOUT'])
+// 连接中途断开，请求可能已被处理，只对 GET 重试
+const RESET_ERROR_CODES = new Set(['ECONNRESET', 'EPIPE', 'UND_ERR_SOCKET'])
+
 interface Credentials { username: string; password: string }
 
-registerPlugin('auth_password', createAuthHandler('/auth/login', 'auth failed'))
-registerPlugin('auth_register', createAuthHandler('/auth/register', 'register failed'))
+interface AuthRequest {
+  method: 'GET' | 'POST'
+  body?: unknown
+  // 以 Bearer 形式转发给 Auth Service 的访问令牌
+  token?: string
+}
+
+type RequestBuilder = (ctx: PluginContext) => AuthRequest
+
+interface AuthHandlerOptions {
+  path: string
+  failureMessage: string
+  buildRequest?: RequestBuilder
+  // 上游状态码 → 返回给调用方的错误码
+  errorCodes?: Record<number, string>
+}
+
+// statusCode 为插件返回的状态码；upstream 仅用于日志，不返回给调用方
+class AuthServiceError extends Error {
+  constructor(public statusCode: number, public code: string, public upstream?: string){
+    super(code)
+    this.name = 'AuthServiceError'
+  }
+}
+
+const DEFAULT_USERNAME_RULES: NonNullable<CredentialSettings['username']> = {
+  minLength: 3,
+  maxLength: 64,
+  pattern: '^[A-Za-z0-9_.@-]+$'
+}
+
+const DEFAULT_PASSWORD_RULES: NonNullable<CredentialSettings['password']> = {
+  minLength: 8,
+  maxLength: 128,
+  requireLetter: true,
+  requireDigit: true,
+  forbidUsername: true
+}
+
+const credentialsSchema = {
+  type: 'object',
+  properties: {
+    username: { type: 'string', minLength: 1 },
+    password: { type: 'string', minLength: 1 }
+  },
+  required: ['username', 'password']
+}
+
+const refreshTokenSchema = {
+  type: 'object',
+  properties: {
+    refresh_token: { type: 'string', minLength: 1 }
+  },
+  required: ['refresh_token']
+}
+
+const accessTokenSchema = {
+  type: 'object',
+  properties: {
+    access_token: { type: 'string', minLength: 1, description: '缺省时读取 Authorization 请求头' }
+  }
+}
+
+const changePasswordSchema = {
+  type: 'object',
+  properties: {
+    access_token: { type: 'string', minLength: 1, description: '缺省时读取 Authorization 请求头' },
+    current_password: { type: 'string', minLength: 1 },
+    new_password: { type: 'string', minLength: 1 }
+  },
+  required: ['current_password', 'new_password']
+}
+
+registerPlugin('auth_password', createLoginHandler(), {
+  version: '1.0.0',
+  description: '用户密码登录',
+  operations: {
+    login: { description: '使用用户名和密码登录，返回访问令牌', inputs: credentialsSchema }
+  }
+})
+registerPlugin('auth_register', createAuthHandler({
+  path: '/auth/register',
+  failureMessage: 'register failed',
+  buildRequest: registrationRequest,
+  errorCodes: { [PSC.CONFLICT]: 'user_exists' }
+}), {
+  version: '1.0.0',
+  description: '新用户注册',
+  operations: {
+    register: { description: '使用用户名和密码注册新用户', inputs: credentialsSchema }
+  }
+})
+registerPlugin('auth_refresh', createAuthHandler({
+  path: '/auth/refresh',
+  failureMessage: 'refresh failed',
+  buildRequest: refreshRequest,
+  errorCodes: { [PSC.UNAUTHORIZED]: 'invalid_refresh_token' }
+}), {
+  version: '1.0.0',
+  description: '刷新访问令牌',
+  operations: {
+    refresh: { description: '使用 refresh token 换取新的访问令牌', inputs: refreshTokenSchema }
+  }
+})
+registerPlugin('auth_logout', createAuthHandler({
+  path: '/auth/logout',
+  failureMessage: 'logout failed',
+  buildRequest: refreshRequest,
+  errorCodes: { [PSC.UNAUTHORIZED]: 'invalid_refresh_token' }
+}), {
+  version: '1.0.0',
+  description: '注销登录',
+  operations: {
+    logout: { description: '吊销 refresh token，结束当前会话', inputs: refreshTokenSchema, mutating: true }
+  }
+})
+registerPlugin('auth_me', createAuthHandler({
+  path: '/auth/me',
+  failureMessage: 'token validation failed',
+  buildRequest: meRequest,
+  errorCodes: { [PSC.UNAUTHORIZED]: 'invalid_token' }
+}), {
+  version: '1.0.0',
+  description: '当前用户信息',
+  operations: {
+    me: { description: '校验访问令牌并返回用户资料', inputs: accessTokenSchema }
+  }
+})
+registerPlugin('auth_change_password', createAuthHandler({
+  path: '/auth/change-password',
+  failureMessage: 'change password failed',
+  buildRequest: changePasswordRequest,
+  errorCodes: { [PSC.UNAUTHORIZED]: 'invalid_token', [PSC.FORBIDDEN]: 'wrong_password' }
+}), {
+  version: '1.0.0',
+  description: '修改密码',
+  operations: {
+    change_password: { description: '校验当前密码后设置新密码', inputs: changePasswordSchema, mutating: true }
+  }
+})
 
-function createAuthHandler(path: string, failureMessage: string){
-  return async ({ intent }: PluginContext): Promise<PluginResponse> => {
+// 错误响应统一为 { status_code, message: failureMessage, data: { code } }，上游响应体只写日志
+function createAuthHandler({ path, failureMessage, buildRequest = credentialsRequest, errorCodes = {} }: AuthHandlerOptions){
+  const codes = { ...DEFAULT_ERROR_CODES, ...errorCodes }
+  return async (ctx: PluginContext): Promise<PluginResponse> => {
     try {
-      const credentials = ensureCredentials(intent?.inputs)
-      const response = await requestJson(path, credentials)
+      const authRequest = buildRequest(ctx)
+      const response = await requestJson(path, authRequest, codes, ctx)
       return { status_code: SC.OK, message: 'ok', data: response }
     } catch (error) {
       if(error instanceof ValidationError){
-        return { status_code: SC.BAD_REQUEST, message: error.message, data: {} }
+        return { status_code: SC.BAD_REQUEST, message: error.message, data: { code: 'invalid_input' } }
       }
-      const message = error instanceof Error ? error.message : String(error)
-      return { status_code: SC.INTERNAL, message: `${failureMessage}: ${message}`, data: {} }
+      if(ctx.signal?.aborted) throw error
+      if(error instanceof AuthServiceError){
+        console.warn('[auth-service] request failed', {
+          path,
+          requestId: ctx.requestId,
+          status: error.statusCode,
+          code: error.code,
+          upstream: error.upstream
+        })
+        return { status_code: error.statusCode, message: failureMessage, data: { code: error.code } }
+      }
+      console.error('[auth-service] unexpected error', {
+        path,
+        requestId: ctx.requestId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return { status_code: PSC.BAD_GATEWAY, message: failureMessage, data: { code: 'auth_service_error' } }
     }
   }
 }
 
+// 按用户名与调用方统计失败次数，锁定期间直接返回 423，不再请求 Auth Service
+function createLoginHandler(){
+  const login = createAuthHandler({
+    path: '/auth/login',
+    failureMessage: 'auth failed',
+    errorCodes: { [PSC.UNAUTHORIZED]: 'invalid_credentials' }
+  })
+  return async (ctx: PluginContext): Promise<PluginResponse> => {
+    const username = (ctx.intent?.inputs as any)?.username
+    if(typeof username !== 'string' || !username.trim()) return login(ctx)
+    const keys = { username: username.trim(), caller: callerOf(ctx) }
+    const lockedMs = lockedFor(keys)
+    if(lockedMs !== undefined) return lockedResponse(ctx, lockedMs)
+
+    const response = await login(ctx)
+    if(response.status_code === PSC.UNAUTHORIZED){
+      recordLoginFailure(keys)
+      const nowLockedMs = lockedFor(keys)
+      if(nowLockedMs !== undefined) return lockedResponse(ctx, nowLockedMs)
+    } else if(response.status_code === SC.OK){
+      recordLoginSuccess(keys)
+    }
+    return response
+  }
+}
+
+function lockedResponse(ctx: PluginContext, lockedMs: number): PluginResponse {
+  const retryAfter = Math.max(1, Math.ceil(lockedMs / 1000))
+  console.warn('[auth-service] login locked', { requestId: ctx.requestId, retryAfter })
+  return {
+    status_code: PSC.LOCKED,
+    message: 'too many failed login attempts',
+    data: { code: 'login_locked', retry_after: retryAfter },
+    retry_after: retryAfter
+  }
+}
+
+function credentialsRequest({ intent }: PluginContext): AuthRequest {
+  return { method: 'POST', body: ensureCredentials(intent?.inputs) }
+}
+
+function refreshRequest({ intent }: PluginContext): AuthRequest {
+  const refreshToken = ensureString((intent?.inputs as any)?.refresh_token, 'refresh_token')
+  return { method: 'POST', body: { refreshToken } }
+}
+
+function registrationRequest({ intent }: PluginContext): AuthRequest {
+  const credentials = ensureCredentials(intent?.inputs)
+  ensureUsernamePolicy(credentials.username)
+  ensurePasswordPolicy(credentials.password, credentials.username)
+  return { method: 'POST', body: credentials }
+}
+
+function meRequest(ctx: PluginContext): AuthRequest {
+  return { method: 'GET', token: ensureAccessToken(ctx) }
+}
+
+function changePasswordRequest(ctx: PluginContext): AuthRequest {
+  const inputs = ctx.intent?.inputs as any
+  const currentPassword = ensurePassword(inputs?.current_password, 'current_password')
+  const newPassword = ensurePassword(inputs?.new_password, 'new_password')
+  if(currentPassword === newPassword){
+    throw new ValidationError('new_password must differ from current_password')
+  }
+  ensurePasswordPolicy(newPassword)
+  return { method: 'POST', token: ensureAccessToken(ctx), body: { currentPassword, newPassword } }
+}
+
 function ensureCredentials(inputs: any): Credentials {
   const username = typeof inputs?.username === 'string' ? inputs.username.trim() : ''
   const password = typeof inputs?.password === 'string' ? inputs.password : ''
@@ -37,22 +284,146 @@ function ensureCredentials(inputs: any): Credentials {
   return { username, password }
 }
 
-async function requestJson(path: string, body: Credentials){
+function ensureUsernamePolicy(username: string){
+  const rules = { ...DEFAULT_USERNAME_RULES, ...getPluginSettings().credentials?.username }
+  if(rules.minLength !== undefined && username.length < rules.minLength){
+    throw new ValidationError(`username must be at least ${rules.minLength} characters`)
+  }
+  if(rules.maxLength !== undefined && username.length > rules.maxLength){
+    throw new ValidationError(`username must be at most ${rules.maxLength} characters`)
+  }
+  if(rules.pattern && !new RegExp(rules.pattern).test(username)){
+    throw new ValidationError('username contains invalid characters')
+  }
+}
+
+// username 未知（如修改密码）时跳过 forbidUsername
+function ensurePasswordPolicy(password: string, username?: string){
+  const rules = { ...DEFAULT_PASSWORD_RULES, ...getPluginSettings().credentials?.password }
+  if(rules.minLength !== undefined && password.length < rules.minLength){
+    throw new ValidationError(`password must be at least ${rules.minLength} characters`)
+  }
+  if(rules.maxLength !== undefined && password.length > rules.maxLength){
+    throw new ValidationError(`password must be at most ${rules.maxLength} characters`)
+  }
+  if(rules.requireLetter && !/\p{L}/u.test(password)){
+    throw new ValidationError('password must contain a letter')
+  }
+  if(rules.requireDigit && !/\d/.test(password)){
+    throw new ValidationError('password must contain a digit')
+  }
+  if(rules.requireMixedCase && !(/\p{Lu}/u.test(password) && /\p{Ll}/u.test(password))){
+    throw new ValidationError('password must contain both upper and lower case letters')
+  }
+  if(rules.requireSymbol && !/[^\p{L}\d]/u.test(password)){
+    throw new ValidationError('password must contain a symbol')
+  }
+  if(rules.forbidUsername && username && password.toLowerCase().includes(username.toLowerCase())){
+    throw new ValidationError('password must not contain the username')
+  }
+}
+
+function ensureString(value: unknown, field: string): string {
+  if(typeof value !== 'string' || !value.trim()){
+    throw new ValidationError(`${field} is required`)
+  }
+  return value.trim()
+}
+
+// 密码不做 trim，前后空白也是密码的一部分
+function ensurePassword(value: unknown, field: string): string {
+  if(typeof value !== 'string' || !value){
+    throw new ValidationError(`${field} is required`)
+  }
+  return value
+}
+
+// 优先使用 inputs.access_token，其次是 Authorization: Bearer 请求头
+function ensureAccessToken({ intent, headers }: PluginContext): string {
+  const fromInputs = (intent?.inputs as any)?.access_token
+  if(typeof fromInputs === 'string' && fromInputs.trim()) return fromInputs.trim()
+  const header = headers?.authorization ?? headers?.Authorization
+  const match = typeof header === 'string' ? /^Bearer\s+(.+)$/i.exec(header.trim()) : null
+  if(match) return match[1]
+  throw new ValidationError('access_token is required')
+}
+
+async function requestJson(path: string, authRequest: AuthRequest, errorCodes: Record<number, string>, ctx: PluginContext){
   const config = getConfig()
+  const settings = getPluginSettings().authService
+  const timeoutMs = settings?.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const maxRetries = settings?.maxRetries ?? DEFAULT_MAX_RETRIES
+  const retryDelayMs = settings?.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
   const url = new URL(path, config.authService.url)
+  const headers: Record<string, string> = { ...JSON_HEADERS }
+  if(authRequest.token) headers.authorization = `Bearer ${authRequest.token}`
+
   let response
-  try {
-    response = await request(url, {
-      method: 'POST',
-      headers: JSON_HEADERS,
-      body: JSON.stringify(body)
-    })
-  } catch (error) {
-    throw new Error('auth service unreachable')
+  for(let attempt = 0; ; attempt++){
+    const timeout = AbortSignal.timeout(timeoutMs)
+    try {
+      response = await request(url, {
+        method: authRequest.method,
+        headers,
+        body: authRequest.body === undefined ? undefined : JSON.stringify(authRequest.body),
+        signal: ctx.signal ? AbortSignal.any([ctx.signal, timeout]) : timeout
+      })
+      break
+    } catch (error) {
+      if(ctx.signal?.aborted) throw error
+      if(timeout.aborted){
+        throw new AuthServiceError(PSC.DEADLINE_EXCEEDED, 'auth_service_timeout')
+      }
+      if(attempt >= maxRetries || !isTransient(error, authRequest.method)){
+        throw new AuthServiceError(PSC.BAD_GATEWAY, 'auth_service_unavailable', errorCodeOf(error))
+      }
+      // full jitter：在 [0, retryDelayMs * 2^attempt) 内随机等待
+      const delayMs = Math.random() * retryDelayMs * 2 ** attempt
+      console.warn('[auth-service] transient error, retrying', { path, requestId: ctx.requestId, attempt: attempt + 1, error: errorCodeOf(error), delayMs: Math.round(delayMs) })
+      await sleep(delayMs, ctx.signal)
+    }
   }
+
   const text = await response.body.text()
   if(response.statusCode >= 400){
-    throw new Error(text || `HTTP ${response.statusCode}`)
+    const passthrough = PASSTHROUGH_STATUS.has(response.statusCode)
+    throw new AuthServiceError(
+      passthrough ? response.statusCode : PSC.BAD_GATEWAY,
+      passthrough ? errorCodes[response.statusCode] : 'auth_service_error',
+      `HTTP ${response.statusCode} ${text.slice(0, 200)}`
+    )
+  }
+  try {
+    return text ? JSON.parse(text) : {}
+  } catch {
+    throw new AuthServiceError(PSC.BAD_GATEWAY, 'auth_service_error', 'invalid JSON response')
   }
-  return text ? JSON.parse(text) : {}
+}
+
+function isTransient(error: unknown, method: AuthRequest['method']){
+  const code = errorCodeOf(error)
+  return CONNECT_ERROR_CODES.has(code) || (method === 'GET' && RESET_ERROR_CODES.has(code))
+}
+
+// undici 把底层 socket 错误包在 cause 中
+function errorCodeOf(error: unknown): string {
+  const candidate = error as { code?: unknown; cause?: { code?: unknown } } | undefined
+  if(typeof candidate?.code === 'string') return candidate.code
+  if(typeof candidate?.cause?.code === 'string') return candidate.cause.code
+  return 'UNKNOWN'
+}
+
+function sleep(ms: number, signal?: AbortSignal){
+  return new Promise<void>((resolve, reject) => {
+    if(signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
 }
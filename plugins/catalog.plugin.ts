@@ -0,0 +1,39 @@
+import { registerPlugin, listPlugins, describePlugin, type PluginManifest } from './registry.js'
+import { SC } from '../constants/status-codes.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+import { z } from 'zod'
+
+const describeSchema = z.object({
+  name: z.string().min(1, 'name is required')
+})
+
+const MANIFEST: PluginManifest = {
+  version: '1.0.0',
+  description: '插件能力发现：列出已注册插件及其操作与输入 schema',
+  operations: {
+    list: { description: '列出所有已注册插件的 manifest', inputs: z.object({}) },
+    describe: { description: '获取单个插件的 manifest', inputs: describeSchema }
+  }
+}
+
+registerPlugin('plugins.catalog', async ({ intent }: PluginContext): Promise<PluginResponse> => {
+  if(intent?.operation === 'list'){
+    return { status_code: SC.OK, message: 'ok', data: { plugins: listPlugins() } }
+  }
+  if(intent?.operation === 'describe'){
+    const parsed = describeSchema.safeParse(intent.inputs ?? {})
+    if(!parsed.success){
+      return { status_code: SC.BAD_REQUEST, message: formatZodError(parsed.error), data: {} }
+    }
+    const description = describePlugin(parsed.data.name)
+    if(!description){
+      return { status_code: 404, message: `unknown plugin: ${parsed.data.name}`, data: {} }
+    }
+    return { status_code: SC.OK, message: 'ok', data: description }
+  }
+  return { status_code: SC.BAD_REQUEST, message: 'unsupported operation', data: {} }
+}, MANIFEST)
+
+function formatZodError(error: z.ZodError){
+  return error.issues.map((issue) => issue.message ?? issue.code).join('; ') || 'invalid inputs'
+}
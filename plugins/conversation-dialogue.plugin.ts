@@ -1,7 +1,10 @@
-import { registerPlugin } from './registry.js'
+import { registerPlugin, type PluginManifest, type PluginStreamEvent } from './registry.js'
 import { ValidationError } from '../errors/validation.error.js'
 import { SC } from '../constants/status-codes.js'
-import { getConfig } from '../config.js'
+import { getConfig, isUpstreamError } from './runtime.js'
+import { recordModelUsage, type UsageMeta } from './usage-ledger.js'
+import { fetchTranscriptText } from './lecture-transcript.js'
+import { authorizeLecture, ownerContext } from './lecture-access.js'
 import type { PluginContext, PluginResponse } from '../types/index.js'
 import { z } from 'zod'
 import OpenAI from 'openai'
@@ -11,12 +14,26 @@ const inputSchema = z.object({
   language: z.string().min(2, 'language is required'),
   summaries: z.string().min(1).optional(),
   question: z.string().min(1, 'question is required').max(4000, 'question too long'),
-  conversation_id: z.string().min(1).optional()
+  conversation_id: z.string().min(1).optional(),
+  stream: z.boolean().optional(),
+  // 用量按讲座归集；提供 from_ms / to_ms 时还会读取该时间段的转录原文作为上下文
+  lecture_id: z.string().min(1).optional(),
+  from_ms: z.number().nonnegative().optional(),
+  to_ms: z.number().nonnegative().optional()
 })
 
 type MessageRole = 'system' | 'user' | 'assistant' | 'developer'
 
-registerPlugin('audio.dialogue', async ({ intent, userId }: PluginContext): Promise<PluginResponse> => {
+const MANIFEST: PluginManifest = {
+  version: '1.0.0',
+  description: '基于阶段摘要的课程问答对话',
+  operations: {
+    chat: { description: '发起新对话或在 conversation_id 指定的对话中继续提问', inputs: inputSchema }
+  }
+}
+
+registerPlugin('audio.dialogue', async (ctx: PluginContext): Promise<PluginResponse> => {
+  const { intent, userId, requestId, signal } = ctx
   try {
     ensureUser(userId)
     if(intent?.operation !== 'chat'){
@@ -26,53 +43,47 @@ registerPlugin('audio.dialogue', async ({ intent, userId }: PluginContext): Prom
     if(!parsed.success){
       return { status_code: SC.BAD_REQUEST, message: formatZodError(parsed.error), data: {} }
     }
-    const { language, summaries, question, conversation_id } = parsed.data
+    const { language, question, conversation_id, stream, lecture_id, from_ms, to_ms } = parsed.data
+    const summaries = await withTranscriptContext(parsed.data.summaries, lecture_id, { from_ms, to_ms }, ctx)
     const { client, apiKey, baseURL } = createClient()
+    const usage = { plugin: 'audio.dialogue', userId, requestId, lectureId: lecture_id }
 
     if(conversation_id){
-      const meta = await fetchConversation(apiKey, baseURL, conversation_id)
+      const meta = await fetchConversation(apiKey, baseURL, conversation_id, signal)
       const effectiveLanguage = language || meta.metadata.language || 'zh-CN'
       const now = new Date().toISOString()
-      const answer = await continueConversation(client, conversation_id, { language: effectiveLanguage, summaries, question })
       const nextTurn = (Number(meta.metadata.turn ?? '0') || 0) + 1
-      await updateConversation(apiKey, baseURL, conversation_id, meta.metadata, { language: effectiveLanguage, turn: String(nextTurn) })
-      return {
-        status_code: SC.OK,
-        message: 'ok',
-        data: {
-          answer,
-          conversation_id,
-          turn: nextTurn,
-          created_at: now
+      const turn = runTurn(
+        continueConversation(client, conversation_id, { language: effectiveLanguage, summaries, question }, usage, signal),
+        async () => {
+          await updateConversation(apiKey, baseURL, conversation_id, meta.metadata, { language: effectiveLanguage, turn: String(nextTurn) }, signal)
+          return { conversation_id, turn: nextTurn, created_at: now }
         }
-      }
+      )
+      return await respond(turn, conversation_id, stream)
     }
 
     if(!summaries){
       return { status_code: SC.BAD_REQUEST, message: 'summaries is required for a new conversation', data: {} }
     }
-    const { id: convId, metadata } = await createConversation(apiKey, baseURL, { language, turn: '0' })
-    try {
-      const answer = await startConversation(client, convId, { language, summaries, question })
-      await updateConversation(apiKey, baseURL, convId, metadata, { language, turn: '1' })
-      return {
-        status_code: SC.OK,
-        message: 'ok',
-        data: {
-          answer,
-          conversation_id: convId,
-          turn: 1,
-          created_at: new Date().toISOString()
-        }
-      }
-    } catch (error) {
-      await deleteConversation(apiKey, baseURL, convId)
-      throw error
-    }
+    const { id: convId, metadata } = await createConversation(apiKey, baseURL, { language, turn: '0' }, signal)
+    const turn = runTurn(
+      startConversation(client, convId, { language, summaries, question }, usage, signal),
+      async () => {
+        await updateConversation(apiKey, baseURL, convId, metadata, { language, turn: '1' }, signal)
+        return { conversation_id: convId, turn: 1, created_at: new Date().toISOString() }
+      },
+      () => deleteConversation(apiKey, baseURL, convId)
+    )
+    return await respond(turn, convId, stream)
   } catch (error) {
     if(error instanceof ValidationError){
       return { status_code: SC.BAD_REQUEST, message: error.message, data: {} }
     }
+    // 读取转录时 Data Service 返回的 4xx（如讲座不存在）原样透传
+    if(isUpstreamError(error) && error.statusCode < 500){
+      return { status_code: error.statusCode, message: error.message ?? 'upstream error', data: error.details ?? {} }
+    }
     return {
       status_code: SC.INTERNAL,
       message: 'dialogue failed',
@@ -81,7 +92,75 @@ registerPlugin('audio.dialogue', async ({ intent, userId }: PluginContext): Prom
       }
     }
   }
-})
+}, MANIFEST)
+
+async function withTranscriptContext(
+  summaries: string | undefined,
+  lectureId: string | undefined,
+  range: { from_ms?: number; to_ms?: number },
+  // 完整的 ctx：分享链接的令牌在 ctx.headers 中
+  ctx: PluginContext
+){
+  if(range.from_ms === undefined && range.to_ms === undefined) return summaries
+  if(!lectureId) throw new ValidationError('lecture_id is required when from_ms or to_ms is set')
+  const transcript = await fetchTranscriptText(lectureId, range, ownerContext(ctx, authorizeLecture(lectureId, 'viewer', ctx)))
+  if(!transcript) return summaries
+  return [summaries, `【课堂转录原文】\n${transcript}`].filter(Boolean).join('\n\n')
+}
+
+interface DialogueTurn {
+  answer: string
+  conversation_id: string
+  turn: number
+  created_at: string
+}
+
+// 先消费回答增量，流结束后再完成 conversation 元数据的记录；失败时执行清理
+async function* runTurn(
+  answer: AsyncGenerator<string, string>,
+  finalize: () => Promise<Omit<DialogueTurn, 'answer'>>,
+  onFailure?: () => Promise<void>
+): AsyncGenerator<string, DialogueTurn> {
+  try {
+    const text = yield* answer
+    const meta = await finalize()
+    return { answer: text, ...meta }
+  } catch (error) {
+    await onFailure?.()
+    throw error
+  }
+}
+
+async function respond(turn: AsyncGenerator<string, DialogueTurn>, conversationId: string, stream?: boolean): Promise<PluginResponse> {
+  if(stream){
+    return {
+      status_code: SC.OK,
+      message: 'ok',
+      data: { conversation_id: conversationId },
+      stream: toStreamEvents(turn)
+    }
+  }
+  let step = await turn.next()
+  while(!step.done) step = await turn.next()
+  return { status_code: SC.OK, message: 'ok', data: step.value }
+}
+
+async function* toStreamEvents(turn: AsyncGenerator<string, DialogueTurn>): AsyncGenerator<PluginStreamEvent> {
+  try {
+    let step = await turn.next()
+    while(!step.done){
+      yield { type: 'delta', delta: step.value }
+      step = await turn.next()
+    }
+    yield { type: 'done', data: step.value }
+  } catch (error) {
+    yield {
+      type: 'error',
+      message: 'dialogue failed',
+      data: { error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+}
 
 function ensureUser(userId: string | undefined){
   if(!userId) throw new ValidationError('missing user id')
@@ -99,7 +178,7 @@ function createClient(){
   return { client: new OpenAI({ apiKey, baseURL }), apiKey, baseURL }
 }
 
-async function createConversation(apiKey: string, baseURL: string, metadata: Record<string, string>){
+async function createConversation(apiKey: string, baseURL: string, metadata: Record<string, string>, signal?: AbortSignal){
   const url = new URL(baseURL.endsWith('/') ? `${baseURL}conversations` : `${baseURL}/conversations`)
   const payload: Record<string, string> = {}
   for(const [key, value] of Object.entries(metadata)){
@@ -112,7 +191,8 @@ async function createConversation(apiKey: string, baseURL: string, metadata: Rec
       'authorization': `Bearer ${apiKey}`,
       'content-type': 'application/json'
     },
-    body: JSON.stringify({ metadata: payload })
+    body: JSON.stringify({ metadata: payload }),
+    signal
   })
   if(!res.ok){
     const text = await res.text().catch(() => '')
@@ -124,14 +204,15 @@ async function createConversation(apiKey: string, baseURL: string, metadata: Rec
   return { id, metadata: meta }
 }
 
-async function fetchConversation(apiKey: string, baseURL: string, id: string){
+async function fetchConversation(apiKey: string, baseURL: string, id: string, signal?: AbortSignal){
   const url = new URL(baseURL.endsWith('/') ? `${baseURL}conversations/${id}` : `${baseURL}/conversations/${id}`)
   const res = await fetch(url, {
     method: 'GET',
     headers: {
       'authorization': `Bearer ${apiKey}`,
       'content-type': 'application/json'
-    }
+    },
+    signal
   })
   if(res.status === 404){
     throw new ValidationError(`unknown conversation: ${id}`)
@@ -150,7 +231,7 @@ async function fetchConversation(apiKey: string, baseURL: string, id: string){
   return { metadata }
 }
 
-async function updateConversation(apiKey: string, baseURL: string, id: string, current: Record<string, string>, updates: Record<string, string>){
+async function updateConversation(apiKey: string, baseURL: string, id: string, current: Record<string, string>, updates: Record<string, string>, signal?: AbortSignal){
   const url = new URL(baseURL.endsWith('/') ? `${baseURL}conversations/${id}` : `${baseURL}/conversations/${id}`)
   const metadata: Record<string, string> = {}
   for(const [key, value] of Object.entries({ ...current, ...updates })){
@@ -163,7 +244,8 @@ async function updateConversation(apiKey: string, baseURL: string, id: string, c
       'authorization': `Bearer ${apiKey}`,
       'content-type': 'application/json'
     },
-    body: JSON.stringify({ metadata })
+    body: JSON.stringify({ metadata }),
+    signal
   })
   if(!res.ok){
     const text = await res.text().catch(() => '')
@@ -188,7 +270,7 @@ interface StartPayload {
   question: string
 }
 
-async function startConversation(client: OpenAI, conversationId: string, payload: StartPayload){
+async function* startConversation(client: OpenAI, conversationId: string, payload: StartPayload, usage: Omit<UsageMeta, 'model'>, signal?: AbortSignal): AsyncGenerator<string, string> {
   const config = getConfig()
   const request: any = {
     model: config.openai.models.dialogue,
@@ -198,8 +280,7 @@ async function startConversation(client: OpenAI, conversationId: string, payload
       { role: 'user', content: [{ type: 'input_text', text: payload.question }] }
     ]
   }
-  const response = await (client.responses.create as any)(request)
-  return extractAnswer(response)
+  return yield* streamAnswer(client, request, usage, signal)
 }
 
 interface ContinuePayload {
@@ -208,7 +289,7 @@ interface ContinuePayload {
   question: string
 }
 
-async function continueConversation(client: OpenAI, conversationId: string, payload: ContinuePayload){
+async function* continueConversation(client: OpenAI, conversationId: string, payload: ContinuePayload, usage: Omit<UsageMeta, 'model'>, signal?: AbortSignal): AsyncGenerator<string, string> {
   const config = getConfig()
   const messages: Array<{ role: MessageRole; content: { type: string; text: string }[] }> = []
   if(payload.summaries){
@@ -220,8 +301,27 @@ async function continueConversation(client: OpenAI, conversationId: string, payl
     conversation: conversationId,
     input: messages
   }
-  const response = await (client.responses.create as any)(request)
-  return extractAnswer(response)
+  return yield* streamAnswer(client, request, usage, signal)
+}
+
+// 逐个产出 output_text 增量，返回完整回答；优先使用 response.completed 中的最终文本
+async function* streamAnswer(client: OpenAI, request: any, usage: Omit<UsageMeta, 'model'>, signal?: AbortSignal): AsyncGenerator<string, string> {
+  const events = await (client.responses.create as any)({ ...request, stream: true }, { signal })
+  let answer = ''
+  let completed: any
+  for await (const event of events){
+    if(event?.type === 'response.output_text.delta' && typeof event.delta === 'string'){
+      answer += event.delta
+      yield event.delta
+    } else if(event?.type === 'response.completed'){
+      completed = event.response
+      recordModelUsage({ ...usage, model: request.model }, completed?.usage)
+    } else if(event?.type === 'response.failed' || event?.type === 'error'){
+      const message = event?.response?.error?.message ?? event?.message ?? 'response stream failed'
+      throw new Error(message)
+    }
+  }
+  return (completed ? extractAnswer(completed) : '') || answer.trim()
 }
 
 function buildInitialPrompt(language: string, summaries: string){
@@ -1,7 +1,9 @@
-import { registerPlugin } from './registry.js'
+import { registerPlugin, type PluginManifest } from './registry.js'
 import { ValidationError } from '../errors/validation.error.js'
 import { SC } from '../constants/status-codes.js'
-import { getConfig } from '../config.js'
+import { getConfig } from './runtime.js'
+import { recordModelUsage, type UsageMeta } from './usage-ledger.js'
+import { cacheKey, withCache } from './result-cache.js'
 import type { PluginContext, PluginResponse } from '../types/index.js'
 import { z } from 'zod'
 import OpenAI from 'openai'
@@ -26,9 +28,15 @@ const analyzeSchema = z.object({
     mime_type: z.string().min(1, 'file.mime_type is required'),
     data: z.string().min(1, 'file.data (base64) is required'),
     size: z.number().int().positive().optional()
-  })
+  }),
+  // 跳过结果缓存 / 丢弃已缓存结果并重新分析
+  cache_bypass: z.boolean().optional(),
+  cache_invalidate: z.boolean().optional()
 })
 
+// 修改提示词或输出格式时递增，使旧的缓存结果失效
+const PROMPT_VERSION = '1'
+
 const COURSE_PROFILE_FORMAT = {
   type: 'json_schema',
   name: 'CourseProfile',
@@ -52,7 +60,15 @@ const COURSE_PROFILE_FORMAT = {
   }
 } as const
 
-registerPlugin('material.analyze', async ({ intent, userId }: PluginContext): Promise<PluginResponse> => {
+const MANIFEST: PluginManifest = {
+  version: '1.0.0',
+  description: '课程资料智能分析：上传课程资料并生成课程画像',
+  operations: {
+    analyze: { description: '分析 base64 编码的课程资料文件，返回课程画像与 OpenAI fileID', inputs: analyzeSchema }
+  }
+}
+
+registerPlugin('material.analyze', async ({ intent, userId, requestId, signal }: PluginContext): Promise<PluginResponse> => {
   console.log('[course-material] 开始材料分析请求', { userId, operation: intent?.operation })
   
   try {
@@ -69,7 +85,7 @@ registerPlugin('material.analyze', async ({ intent, userId }: PluginContext): Pr
       return { status_code: SC.BAD_REQUEST, message: formatZodError(parsed.error), data: {} }
     }
     
-    const { file } = parsed.data
+    const { file, cache_bypass, cache_invalidate } = parsed.data
     console.log('[course-material] 文件信息:', { 
       name: file.name, 
       mime_type: file.mime_type, 
@@ -84,25 +100,40 @@ registerPlugin('material.analyze', async ({ intent, userId }: PluginContext): Pr
     console.log('[course-material] 检查文件限制...')
     enforceLimits(file, buffer)
     
-    console.log('[course-material] 创建 OpenAI 客户端...')
-    const client = createOpenAIClient()
-    
-    console.log('[course-material] 上传文件到 OpenAI...')
-    const uploaded = await uploadFile(client, buffer, file.name, file.mime_type)
-    console.log('[course-material] 文件上传成功, file_id:', uploaded.id)
-    
-    console.log('[course-material] 开始分析文件内容...')
-    // 默认中文；后续若有外部语言参数，可替换第四个参数
-    const profile = await requestAnalysis(client, uploaded.id, file.name, '中文')
-    console.log('[course-material] 分析完成:', profile)
+    // 默认中文；后续若有外部语言参数，可替换 language
+    const language = '中文'
+    const key = cacheKey({
+      plugin: 'material.analyze',
+      model: getConfig().openai.models.material,
+      promptVersion: PROMPT_VERSION,
+      inputs: { name: file.name, mime_type: file.mime_type, language },
+      bytes: buffer,
+      // 结果中的 fileID 属于上传者，不与其他用户共享
+      userId
+    })
+    const { value, cache } = await withCache(
+      { plugin: 'material.analyze', key, bypass: cache_bypass, invalidate: cache_invalidate },
+      async () => {
+        console.log('[course-material] 创建 OpenAI 客户端...')
+        const client = createOpenAIClient()
+        
+        console.log('[course-material] 上传文件到 OpenAI...')
+        const uploaded = await uploadFile(client, buffer, file.name, file.mime_type, signal)
+        console.log('[course-material] 文件上传成功, file_id:', uploaded.id)
+        
+        console.log('[course-material] 开始分析文件内容...')
+        const profile = await requestAnalysis(client, uploaded.id, { plugin: 'material.analyze', userId, requestId }, file.name, language, signal)
+        console.log('[course-material] 分析完成:', profile)
+        return { ...profile, fileID: uploaded.id }
+      }
+    )
+    console.log('[course-material] 结果缓存:', cache.status)
     
     return {
       status_code: SC.OK,
       message: 'ok',
-      data: {
-        ...profile,
-        fileID: uploaded.id
-      }
+      data: value,
+      meta: { cache }
     }
   } catch (error) {
     console.error('[course-material] 材料分析失败:', error)
@@ -118,7 +149,7 @@ registerPlugin('material.analyze', async ({ intent, userId }: PluginContext): Pr
       }
     }
   }
-})
+}, MANIFEST)
 
 function ensureUser(userId: string | undefined): string {
   if(!userId) throw new ValidationError('missing user id')
@@ -180,11 +211,11 @@ function createOpenAIClient(): OpenAI {
   return new OpenAI({ apiKey: config.openai.apiKey, baseURL: config.openai.baseURL })
 }
 
-async function uploadFile(client: OpenAI, buffer: Buffer, name: string, mimeType: string){
+async function uploadFile(client: OpenAI, buffer: Buffer, name: string, mimeType: string, signal?: AbortSignal){
   console.log('[course-material] 准备上传文件:', { name, mimeType, size: buffer.length })
   try {
     const file = await toFile(buffer, name || 'material-upload', { type: mimeType })
-    const result = await client.files.create({ file, purpose: 'assistants' })
+    const result = await client.files.create({ file, purpose: 'assistants' }, { signal })
     console.log('[course-material] 文件上传成功:', result.id)
     return result
   } catch (error) {
@@ -199,8 +230,10 @@ async function uploadFile(client: OpenAI, buffer: Buffer, name: string, mimeType
 async function requestAnalysis(
   client: OpenAI,
   fileId: string,
+  usage: Omit<UsageMeta, 'model'>,
   fileName: string = 'material',
-  language: string = '中文'
+  language: string = '中文',
+  signal?: AbortSignal
 ){
   const config = getConfig()
   console.log('[course-material] 请求 OpenAI 分析, file_id:', fileId, 'model:', config.openai.models.material, 'language:', language)
@@ -229,7 +262,8 @@ async function requestAnalysis(
         json_schema: COURSE_PROFILE_FORMAT
       },
       store: false
-    } as any)
+    } as any, { signal })
+    recordModelUsage({ ...usage, model: config.openai.models.material }, response.usage)
     
     console.log('[course-material] OpenAI 响应状态:', response?.status || 'unknown')
     console.log('[course-material] 提取 JSON 结果...')
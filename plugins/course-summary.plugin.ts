@@ -1,14 +1,26 @@
-import { registerPlugin } from './registry.js'
+import { registerPlugin, type PluginManifest } from './registry.js'
 import { ValidationError } from '../errors/validation.error.js'
 import { SC } from '../constants/status-codes.js'
-import { getConfig } from '../config.js'
+import { getConfig } from './runtime.js'
+import { recordModelUsage } from './usage-ledger.js'
+import { fetchTranscriptIntegrity } from './lecture-integrity.js'
+import { saveReport } from './lecture-reports.js'
+import { authorizeLecture } from './lecture-access.js'
+import { LectureAccessError, LectureStateError } from './lecture-errors.js'
+import { INITIAL_STATUSES, advanceLectureStatus, assertLectureStatus, type LectureStatus } from './lecture-status.js'
+import { PSC } from './status-codes.js'
 import type { PluginContext, PluginResponse } from '../types/index.js'
 import { z } from 'zod'
 import OpenAI from 'openai'
 
 // 支持两种输入方式：
 // 1. 直接传递内容：{ language, stage_summaries, conversation_text?, file_ids? }
-// 2. 传递 lectureId：{ lectureId }，插件自动获取数据
+// 2. 传递 lectureId：{ lectureId, require_complete_transcript? }，插件自动获取数据
+//    讲座须处于 SUMMARY_STATUSES 之一；draft / materials_ready（含 status 为 0 的旧讲座）与 recording 先推进到 processing，
+//    保存总结后推进到 summarized（见 lecture-status.ts）
+
+const SUMMARY_STATUSES: LectureStatus[] = [...INITIAL_STATUSES, 'recording', 'processing', 'summarized']
+
 function createInputSchema() {
   const config = getConfig()
   return z.union([
@@ -19,7 +31,9 @@ function createInputSchema() {
       file_ids: z.array(z.string().min(1)).max(config.openai.limits.maxFileIds).optional()
     }),
     z.object({
-      lectureId: z.string().min(1, 'lectureId is required')
+      lectureId: z.string().min(1, 'lectureId is required'),
+      // 为 true 时先检查转录完整性，存在缺号、重号、乱序或重叠时返回 409
+      require_complete_transcript: z.boolean().optional()
     })
   ])
 }
@@ -82,7 +96,15 @@ const OUTPUT_SCHEMA = {
   }
 } as const
 
-registerPlugin('audio.summary', async ({ intent, userId, requestId }: PluginContext): Promise<PluginResponse> => {
+const MANIFEST: PluginManifest = {
+  version: '1.0.0',
+  description: '完整课程总结报告',
+  operations: {
+    summarize: { description: '根据阶段总结（或 lectureId 对应的讲座数据）生成结构化课程总结', inputs: createInputSchema }
+  }
+}
+
+registerPlugin('audio.summary', async ({ intent, userId, requestId, signal }: PluginContext): Promise<PluginResponse> => {
   const logPrefix = `[course-summary-plugin] [${requestId}]`
   try {
     console.log(`${logPrefix} 插件被调用`, { operation: intent?.operation, userId })
@@ -108,40 +130,88 @@ registerPlugin('audio.summary', async ({ intent, userId, requestId }: PluginCont
     let stage_summaries: string
     let conversation_text: string | undefined
     let file_ids: string[] | undefined
+    // lectureId 模式下以讲座所有者的身份读写 Data Service
+    let dataUserId = userId
     
     if ('lectureId' in parsed.data) {
       // 模式 2：通过 lectureId 获取数据
-      const { lectureId } = parsed.data
+      const { lectureId, require_complete_transcript } = parsed.data
       console.log(`${logPrefix} 使用 lectureId 模式，开始获取课程数据: ${lectureId}`)
+
+      // 生成的总结会覆盖讲座报告，需要 editor 及以上的共享角色
+      try {
+        dataUserId = authorizeLecture(lectureId, 'editor', { userId }).owner_id
+      } catch (error) {
+        if(!(error instanceof LectureAccessError || error instanceof LectureStateError)) throw error
+        return { status_code: error.statusCode, message: error.message, data: error.details }
+      }
       
       // 导入 dataServiceRequest 来获取课程数据
-      const { dataServiceRequest } = await import('../services/data-service.client.js')
+      const { dataServiceRequest } = await import('./runtime.js')
+
+      if(require_complete_transcript){
+        let integrity
+        try {
+          integrity = await fetchTranscriptIntegrity(lectureId, { userId: dataUserId, requestId, signal })
+        } catch (error) {
+          if(signal?.aborted) throw error
+          console.error(`${logPrefix} 获取转录失败:`, error)
+          return { status_code: SC.BAD_REQUEST, message: 'failed to fetch transcription', data: {} }
+        }
+        if(!integrity.ok){
+          console.warn(`${logPrefix} 转录不完整，拒绝生成课程总结`, {
+            missing: integrity.missing_seq.length,
+            duplicates: integrity.duplicate_seq.length,
+            outOfOrder: integrity.out_of_order.length,
+            overlaps: integrity.overlaps.length
+          })
+          return { status_code: PSC.CONFLICT, message: 'transcript is incomplete', data: { code: 'transcript_incomplete', integrity } }
+        }
+      }
       
       // 获取课程详情
+      let lecture: any
       try {
-        const lecture = await dataServiceRequest<any>(
+        lecture = await dataServiceRequest<any>(
           `/lectures/${lectureId}`,
-          { method: 'GET' },
-          { userId, requestId }
+          { method: 'GET', signal },
+          { userId: dataUserId, requestId }
         )
         language = lecture.lecture?.language || 'zh'
         file_ids = lecture.lecture?.file_ids
         console.log(`${logPrefix} 课程数据获取成功`, { language, fileIdsCount: file_ids?.length || 0 })
       } catch (error) {
+        if(signal?.aborted) throw error
         console.error(`${logPrefix} 获取课程数据失败:`, error)
         return { status_code: SC.BAD_REQUEST, message: 'failed to fetch lecture data', data: {} }
       }
+
+      // 已归档的讲座不生成总结；草稿经 recording、录制中的讲座直接进入处理状态
+      try {
+        const status = assertLectureStatus(lectureId, lecture.lecture, SUMMARY_STATUSES, 'lecture status does not allow summarizing')
+        if(status && INITIAL_STATUSES.includes(status)){
+          await advanceLectureStatus(lectureId, 'recording', { userId: dataUserId, requestId, signal }, lecture)
+          await advanceLectureStatus(lectureId, 'processing', { userId: dataUserId, requestId, signal })
+        } else if(status === 'recording'){
+          await advanceLectureStatus(lectureId, 'processing', { userId: dataUserId, requestId, signal }, lecture)
+        }
+      } catch (error) {
+        if(!(error instanceof LectureStateError)) throw error
+        console.warn(`${logPrefix} 讲座状态不允许生成课程总结`, error.details)
+        return { status_code: error.statusCode, message: error.message, data: error.details }
+      }
       
       // 获取阶段总结数据
       try {
         const summaryResult = await dataServiceRequest<{ stage_summaries_text: string; total_length: number }>(
           `/lectures/${lectureId}/stage-summaries-text`,
-          { method: 'GET' },
-          { userId, requestId }
+          { method: 'GET', signal },
+          { userId: dataUserId, requestId }
         )
         stage_summaries = summaryResult.stage_summaries_text
         console.log(`${logPrefix} 阶段总结获取成功`, { summaryLength: stage_summaries.length, totalLength: summaryResult.total_length })
       } catch (error) {
+        if(signal?.aborted) throw error
         console.error(`${logPrefix} 获取阶段总结失败:`, error)
         return { status_code: SC.BAD_REQUEST, message: 'failed to fetch stage summaries', data: {} }
       }
@@ -191,7 +261,11 @@ registerPlugin('audio.summary', async ({ intent, userId, requestId }: PluginCont
         json_schema: OUTPUT_SCHEMA
       },
       store: false
-    } as any)
+    } as any, { signal })
+    recordModelUsage(
+      { plugin: 'audio.summary', model, userId, requestId, lectureId: 'lectureId' in parsed.data ? parsed.data.lectureId : undefined },
+      response.usage
+    )
     console.log(`${logPrefix} OpenAI API 调用完成`)
     
     const report = response.output_parsed ?? extractFromResponse(response)
@@ -211,19 +285,17 @@ registerPlugin('audio.summary', async ({ intent, userId, requestId }: PluginCont
     if ('lectureId' in parsed.data) {
       const { lectureId } = parsed.data
       try {
-        const { dataServiceRequest } = await import('../services/data-service.client.js')
-        await dataServiceRequest(
-          `/lectures/${lectureId}/report`,
-          {
-            method: 'POST',
-            body: {
-              seq_no: 1, // 课程总结固定为 seq_no = 1
-              md: JSON.stringify(structuredReport)
-            }
-          },
-          { userId, requestId }
+        // 课程总结固定为 seq_no = 1，每次生成都记为一个新版本，此前的版本可通过 lecture.report.versions 查看与恢复
+        const { version } = await saveReport(
+          lectureId,
+          JSON.stringify(structuredReport),
+          { author: 'model', user_id: userId!, model },
+          { userId: dataUserId, requestId, signal }
         )
-        console.log(`${logPrefix} 课程总结已保存到数据库`, { lectureId })
+        console.log(`${logPrefix} 课程总结已保存到数据库`, { lectureId, version: version?.version ?? null })
+        // 状态推进失败只记录，课程总结已经保存
+        await advanceLectureStatus(lectureId, 'summarized', { userId: dataUserId, requestId, signal })
+          .catch((statusError) => console.error(`${logPrefix} 更新讲座状态失败:`, statusError))
       } catch (saveError) {
         console.error(`${logPrefix} 保存课程总结到数据库失败:`, saveError)
         // 保存失败不影响返回结果，但记录错误
@@ -252,7 +324,7 @@ registerPlugin('audio.summary', async ({ intent, userId, requestId }: PluginCont
       }
     }
   }
-})
+}, MANIFEST)
 
 function ensureUser(userId: string | undefined){
   if(!userId) throw new ValidationError('missing user id')
@@ -0,0 +1,126 @@
+import { createHash } from 'node:crypto'
+import { getManifest, type PluginMiddleware } from './registry.js'
+import { getPluginSettings } from './settings.js'
+import { SC } from '../constants/status-codes.js'
+import { PSC } from './status-codes.js'
+import { stableStringify } from './stable-json.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000
+const KEY_HEADERS = ['idempotency-key', 'x-idempotency-key']
+// 与当时状态有关、稍后重试可能成功的 4xx（冲突、锁定、限流、取消），与 5xx 一样不保存
+const TRANSIENT_STATUSES = new Set<number>([408, PSC.CONFLICT, PSC.LOCKED, 425, PSC.TOO_MANY_REQUESTS, PSC.CANCELLED])
+
+interface StoredResult {
+  fingerprint: string
+  expiresAt: number
+  response?: PluginResponse
+  pending?: Promise<PluginResponse>
+}
+
+interface Inflight {
+  key: string
+  resolve: (response: PluginResponse) => void
+}
+
+const results = new Map<string, StoredResult>()
+const inflight = new WeakMap<PluginContext, Inflight>()
+
+// 对 manifest 标记为 mutating 的操作，按 userId + 插件 + 操作 + idempotency_key 去重：
+// TTL 内的重放直接返回首次结果，并发重试等待首次执行完成，同一 key 携带不同输入返回 409；
+// 限流中间件位于内层，被限流的 429 不会保存，客户端可在 retry_after 后用同一个 key 重试
+export function idempotency(): PluginMiddleware {
+  return {
+    name: 'idempotency',
+    before: async (ctx, invocation) => {
+      const operation = invocation.operation
+      if(!operation || !getManifest(invocation.plugin)?.operations[operation]?.mutating) return
+      const idempotencyKey = takeIdempotencyKey(ctx)
+      if(!idempotencyKey || !ctx.userId) return
+
+      const now = Date.now()
+      purgeExpired(now)
+      const key = [ctx.userId, invocation.plugin, operation, idempotencyKey].join(':')
+      const fingerprint = fingerprintOf(ctx.intent?.inputs)
+      const existing = results.get(key)
+      if(existing){
+        if(existing.fingerprint !== fingerprint){
+          return { status_code: PSC.CONFLICT, message: 'idempotency key reused with different inputs', data: {} }
+        }
+        console.info('[idempotency] replaying result', { plugin: invocation.plugin, operation, requestId: ctx.requestId })
+        if(existing.response) return existing.response
+        if(existing.pending) return await existing.pending
+      }
+
+      let resolve!: (response: PluginResponse) => void
+      const pending = new Promise<PluginResponse>((done) => { resolve = done })
+      results.set(key, { fingerprint, expiresAt: now + ttlMs(), pending })
+      inflight.set(ctx, { key, resolve })
+    },
+    after: (ctx, response) => {
+      const entry = inflight.get(ctx)
+      if(!entry) return
+      inflight.delete(ctx)
+      // 5xx 与暂时性的 4xx 视为未完成，允许客户端用同一个 key 重试
+      const stored = results.get(entry.key)
+      if(stored && !isRetryable(response)){
+        stored.response = response
+        stored.pending = undefined
+      } else {
+        results.delete(entry.key)
+      }
+      entry.resolve(response)
+    },
+    onError: (ctx, error) => {
+      const entry = inflight.get(ctx)
+      if(!entry) return
+      inflight.delete(ctx)
+      results.delete(entry.key)
+      entry.resolve({
+        status_code: SC.INTERNAL,
+        message: 'original request failed',
+        data: { error: error instanceof Error ? error.message : String(error) }
+      })
+    }
+  }
+}
+
+// 从 inputs 或请求头中取出 idempotency key，并从 inputs 中移除，避免插件的 schema 校验拒绝该字段
+function takeIdempotencyKey(ctx: PluginContext): string | undefined {
+  const inputs = (ctx.intent?.inputs ?? {}) as Record<string, unknown>
+  const { idempotency_key, ...rest } = inputs
+  if(idempotency_key !== undefined){
+    ctx.intent = { ...ctx.intent, inputs: rest }
+    if(ctx.envelope) ctx.envelope = { ...ctx.envelope, intent: ctx.intent }
+  }
+  if(typeof idempotency_key === 'string' && idempotency_key.trim()) return idempotency_key.trim()
+  const headers = ctx.headers ?? {}
+  for(const name of KEY_HEADERS){
+    const value = headers[name]
+    if(typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return undefined
+}
+
+function isRetryable(response: PluginResponse){
+  return response.status_code >= 500 || TRANSIENT_STATUSES.has(response.status_code)
+}
+
+function ttlMs(){
+  return getPluginSettings().idempotency?.ttlMs ?? DEFAULT_TTL_MS
+}
+
+function purgeExpired(now: number){
+  for(const [key, stored] of results){
+    if(stored.expiresAt <= now && !stored.pending) results.delete(key)
+  }
+}
+
+function fingerprintOf(inputs: unknown){
+  return createHash('sha256').update(stableStringify(inputs ?? {})).digest('hex')
+}
+
+// 丢弃已保存的结果，供测试隔离用例；进行中的请求仍会正常完成
+export function resetIdempotency(){
+  results.clear()
+}
@@ -1,3 +1,8 @@
+import { useMiddleware } from './registry.js'
+import { requestLogger, normalizeErrors, requireUser, enforceDeadline } from './middleware.js'
+import { rateLimit } from './rate-limit.js'
+import { idempotency } from './idempotency.js'
+import { authenticate, authorizeRoles } from './token-auth.js'
 import './auth-service.plugin.js'
 import './data-proxy.plugin.js'
 import './lecture-data.plugin.js'
@@ -6,3 +11,19 @@ import './lecture-transcribe.plugin.js'
 import './stage-summary.plugin.js'
 import './conversation-dialogue.plugin.js'
 import './course-summary.plugin.js'
+import './catalog.plugin.js'
+import './workflow.plugin.js'
+import './usage.plugin.js'
+
+// 无需登录即可调用的插件
+// auth_refresh / auth_logout / auth_me 自带令牌，访问令牌过期时仍需可用
+const PUBLIC_PLUGINS = ['auth_password', 'auth_register', 'auth_refresh', 'auth_logout', 'auth_me', 'plugins.catalog']
+
+useMiddleware(requestLogger())
+useMiddleware(normalizeErrors())
+useMiddleware(enforceDeadline())
+useMiddleware(authenticate({ anonymous: PUBLIC_PLUGINS }))
+useMiddleware(requireUser(), { exclude: PUBLIC_PLUGINS })
+useMiddleware(authorizeRoles())
+useMiddleware(idempotency())
+useMiddleware(rateLimit())
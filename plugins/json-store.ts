@@ -0,0 +1,147 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { createKeyedQueue } from './keyed-queue.js'
+
+// 插件本地保存的 JSON 记录。路径来自插件配置，未配置时 require() 抛出 missing 中的错误信息，不调用 require() 的记录可省略 missing：
+// - createJsonStore：单个快照文件（共享记录、回收站），启动后首次访问时同步载入，每次变更串行写入完整快照
+// - createJsonLinesStore：目录下每个 key 一个追加写入的 JSONL 文件（课程报告版本），按需读取
+// 两者都先写临时文件再替换，写入失败抛给调用方
+
+interface StoreOptions {
+  // 日志前缀，如 lecture-access
+  name: string
+  // 日志中的记录名称，如 share store
+  label: string
+  // 配置的路径，未配置时返回 undefined
+  configured: () => string | undefined
+  missing?: string
+}
+
+// ==================== 快照文件 ====================
+
+export function createJsonStore<T>(options: StoreOptions){
+  let loadedFrom: string | undefined
+  let writing: Promise<void> = Promise.resolve()
+
+  const file = () => {
+    const configured = options.configured()
+    return configured ? path.resolve(configured) : undefined
+  }
+
+  return {
+    path: file,
+
+    require(){
+      const resolved = file()
+      if(!resolved) throw new Error(options.missing ?? `${options.label} path is not configured`)
+      return resolved
+    },
+
+    // 首次访问或配置的路径变化时读取快照并交给 apply，返回是否为新载入；文件不存在或无法解析时不调用 apply
+    load(apply: (snapshot: T) => void){
+      const resolved = file()
+      if(!resolved || loadedFrom === resolved) return false
+      loadedFrom = resolved
+      if(!existsSync(resolved)) return true
+      try {
+        apply(JSON.parse(readFileSync(resolved, 'utf8')) as T)
+      } catch {
+        console.warn(`[${options.name}] ignoring malformed ${options.label}`, { file: resolved })
+      }
+      return true
+    },
+
+    // 写入串行执行，较早的快照不会覆盖较新的快照；未配置路径时不写入。
+    // 返回本次写入的结果，失败时 reject，不影响之后的写入；内存中的记录不回退，下一次写入成功时一并保存
+    save(snapshot: T): Promise<void> {
+      const resolved = file()
+      if(!resolved) return Promise.resolve()
+      const content = JSON.stringify(snapshot)
+      const write = writing.then(async () => {
+        await mkdir(path.dirname(resolved), { recursive: true })
+        await writeFile(`${resolved}.tmp`, content, 'utf8')
+        await rename(`${resolved}.tmp`, resolved)
+      })
+      writing = write.catch(() => undefined)
+      return write
+    },
+
+    // 等待进行中的写入完成，下次 load 重新读取；供测试隔离用例
+    async reset(){
+      await writing
+      loadedFrom = undefined
+      writing = Promise.resolve()
+    }
+  }
+}
+
+// ==================== 按 key 追加的 JSONL 文件 ====================
+
+// read / append / rewrite / remove 不自行排队，同一 key 的读写应放在 serialize 中执行
+export function createJsonLinesStore<T>(options: StoreOptions){
+  const queue = createKeyedQueue()
+
+  const dir = () => {
+    const configured = options.configured()
+    return configured ? path.resolve(configured) : undefined
+  }
+
+  const require = () => {
+    const resolved = dir()
+    if(!resolved) throw new Error(options.missing ?? `${options.label} path is not configured`)
+    return resolved
+  }
+
+  // key 编码后作为文件名，不会越出目录
+  const fileOf = (key: string) => path.join(require(), `${encodeURIComponent(key)}.jsonl`)
+
+  return {
+    path: dir,
+    require,
+
+    // 文件不存在时返回空数组，无法解析的行跳过
+    async read(key: string): Promise<T[]> {
+      const file = fileOf(key)
+      let content: string
+      try {
+        content = await readFile(file, 'utf8')
+      } catch (error: any) {
+        if(error?.code === 'ENOENT') return []
+        throw error
+      }
+      const records: T[] = []
+      for(const line of content.split('\n')){
+        if(!line.trim()) continue
+        try {
+          records.push(JSON.parse(line))
+        } catch {
+          console.warn(`[${options.name}] skipping malformed ${options.label} line`, { file })
+        }
+      }
+      return records
+    },
+
+    async append(key: string, record: T){
+      await mkdir(require(), { recursive: true })
+      await appendFile(fileOf(key), `${JSON.stringify(record)}\n`, 'utf8')
+    },
+
+    // 先写临时文件再替换，中途失败不会留下截断的文件
+    async rewrite(key: string, records: T[]){
+      const file = fileOf(key)
+      await mkdir(require(), { recursive: true })
+      await writeFile(`${file}.tmp`, records.map((record) => `${JSON.stringify(record)}\n`).join(''), 'utf8')
+      await rename(`${file}.tmp`, file)
+    },
+
+    async remove(key: string){
+      await rm(fileOf(key), { force: true })
+    },
+
+    serialize: queue.run,
+
+    // 等待排队中的读写完成；供测试隔离用例
+    reset: queue.idle
+  }
+}
@@ -0,0 +1,29 @@
+// 按 key 串行执行异步任务：同一 key 的任务依次执行，不同 key 之间互不等待。
+// 前一个任务失败不影响后一个；某个 key 的任务全部完成后移除其队列
+export function createKeyedQueue(){
+  const tails = new Map<string, Promise<unknown>>()
+
+  return {
+    run<T>(key: string, task: () => Promise<T>): Promise<T> {
+      const run = (tails.get(key) ?? Promise.resolve()).then(task)
+      const settled = run.catch(() => undefined)
+      tails.set(key, settled)
+      void settled.then(() => {
+        if(tails.get(key) === settled) tails.delete(key)
+      })
+      return run
+    },
+
+    // 该 key 是否有尚未完成的任务
+    has(key: string){
+      return tails.has(key)
+    },
+
+    // 等待当前排队的全部任务完成
+    async idle(){
+      await Promise.all(tails.values())
+    }
+  }
+}
+
+export type KeyedQueue = ReturnType<typeof createKeyedQueue>
@@ -0,0 +1,323 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { z } from 'zod'
+import { ValidationError } from '../errors/validation.error.js'
+import { dataServiceRequest } from './runtime.js'
+import { getPluginSettings } from './settings.js'
+import { createJsonStore } from './json-store.js'
+import { LectureAccessError, LectureValidationError } from './lecture-errors.js'
+import { assertTrashState, onLecturePurged } from './lecture-trash.js'
+import type { PluginContext } from '../types/index.js'
+
+// 讲座共享：lecture.share / lecture.unshare / lecture.members（data.proxy 的 shareLecture / unshareLecture / getLectureMembers）。
+// Data Service 只按 userId 区分讲座归属，成员与分享链接由插件保存；校验通过后以所有者的 userId 调用 Data Service。
+// 没有共享记录的讲座保持原有行为，由 Data Service 按调用方的 userId 判断归属。
+// 共享记录必须写入 plugins.sharing.storePath，未配置时共享操作直接报错，避免重启后共享静默失效
+
+export const LECTURE_ROLES = ['viewer', 'editor', 'owner'] as const
+
+export type LectureRole = typeof LECTURE_ROLES[number]
+
+const ROLE_RANK: Record<LectureRole, number> = { viewer: 1, editor: 2, owner: 3 }
+const DEFAULT_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const DEFAULT_MAX_LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000
+const SHARE_TOKEN_HEADERS = ['x-share-token', 'X-Share-Token']
+
+const lectureId = z.string().min(1, 'lecture_id is required')
+
+export const shareLectureSchema = z.object({
+  lecture_id: lectureId,
+  // 与 link 二选一：添加成员或修改已有成员的角色
+  user_id: z.string().min(1).optional(),
+  role: z.enum(LECTURE_ROLES).optional(),
+  // 为 true 时创建只读分享链接
+  link: z.boolean().default(false),
+  expires_in_ms: z.number().int().positive().optional()
+}).superRefine((inputs, ctx) => {
+  if(!inputs.user_id === !inputs.link){
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'exactly one of user_id or link is required', path: ['user_id'] })
+  }
+  if(inputs.link && inputs.role && inputs.role !== 'viewer'){
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'share links are read-only', path: ['role'] })
+  }
+  if(inputs.user_id && inputs.expires_in_ms !== undefined){
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'expires_in_ms only applies to share links', path: ['expires_in_ms'] })
+  }
+})
+
+export const unshareLectureSchema = z.object({
+  lecture_id: lectureId,
+  user_id: z.string().min(1).optional(),
+  link_id: z.string().min(1).optional()
+}).refine((inputs) => !inputs.user_id !== !inputs.link_id, {
+  message: 'exactly one of user_id or link_id is required',
+  path: ['user_id']
+})
+
+export const lectureMembersSchema = z.object({ lecture_id: lectureId })
+
+export type ShareLectureInputs = z.infer<typeof shareLectureSchema>
+export type UnshareLectureInputs = z.infer<typeof unshareLectureSchema>
+export type LectureMembersInputs = z.infer<typeof lectureMembersSchema>
+
+export interface LectureMember {
+  user_id: string
+  role: LectureRole
+  granted_by: string
+  granted_at: string
+}
+
+interface ShareLink {
+  link_id: string
+  // 只保存令牌的 SHA-256，令牌本身只在创建时返回一次
+  token_hash: string
+  created_by: string
+  created_at: string
+  expires_at: string
+}
+
+interface LectureAcl {
+  owner_id: string
+  members: LectureMember[]
+  links: ShareLink[]
+}
+
+export interface LectureGrant {
+  lecture_id: string
+  role: LectureRole
+  // 调用 Data Service 时使用的 userId
+  owner_id: string
+  // unshared：没有共享记录，调用方按所有者处理
+  via: 'owner' | 'member' | 'link' | 'unshared'
+}
+
+type CallerContext = Pick<PluginContext, 'userId'> & { headers?: Record<string, string> }
+
+const acls = new Map<string, LectureAcl>()
+const store = createJsonStore<{ lectures?: Record<string, LectureAcl> }>({
+  name: 'lecture-access',
+  label: 'share store',
+  configured: () => getPluginSettings().sharing?.storePath,
+  missing: 'plugins.sharing.storePath is required to share lectures'
+})
+
+// ==================== 访问校验 ====================
+
+// 所有者、成员角色或有效的分享链接（请求头 x-share-token，只读）满足 required 时返回授权信息，否则抛出 LectureAccessError。
+// 分享链接同样要求调用方已登录，持有链接的任意用户获得 viewer 角色。
+// 回收站中的讲座只允许 inTrash 的操作（恢复、彻底删除），见 lecture-trash.ts
+export function authorizeLecture(lectureId: string, required: LectureRole, ctx: CallerContext, options: { inTrash?: boolean } = {}): LectureGrant {
+  const userId = ctx.userId
+  if(!userId) throw new ValidationError('missing user id')
+  const grant = grantOf(lectureId, userId, ctx)
+  if(!grant) throw new LectureAccessError('no access to lecture', { lecture_id: lectureId, required_role: required })
+  if(ROLE_RANK[grant.role] < ROLE_RANK[required]){
+    throw new LectureAccessError('insufficient lecture role', { lecture_id: lectureId, role: grant.role, required_role: required })
+  }
+  assertTrashState(lectureId, options.inTrash)
+  return grant
+}
+
+function grantOf(lectureId: string, userId: string, ctx: CallerContext): LectureGrant | undefined {
+  const acl = aclOf(lectureId)
+  if(!acl) return { lecture_id: lectureId, role: 'owner', owner_id: userId, via: 'unshared' }
+
+  let grant: LectureGrant | undefined
+  const member = acl.members.find((candidate) => candidate.user_id === userId)
+  if(userId === acl.owner_id){
+    grant = { lecture_id: lectureId, role: 'owner', owner_id: acl.owner_id, via: 'owner' }
+  } else if(member){
+    grant = { lecture_id: lectureId, role: member.role, owner_id: acl.owner_id, via: 'member' }
+  } else {
+    const token = shareTokenOf(ctx)
+    if(token){
+      if(!activeLinks(lectureId, acl).some((link) => link.token_hash === hashToken(token))){
+        throw new LectureAccessError('share link is invalid or expired', { lecture_id: lectureId })
+      }
+      grant = { lecture_id: lectureId, role: 'viewer', owner_id: acl.owner_id, via: 'link' }
+    }
+  }
+  return grant
+}
+
+// 以所有者身份调用 Data Service 的上下文；requestId、signal 等保持不变。
+// 只用于 Data Service 请求：调用其他插件时仍传调用方的上下文，用量与限流按调用方计
+export function ownerContext<T extends Pick<PluginContext, 'userId'>>(ctx: T, grant: LectureGrant): T {
+  return { ...ctx, userId: grant.owner_id }
+}
+
+// 调用方作为成员可访问的讲座及其所有者，供检索列出共享给调用方的讲座；分享链接不计入
+export function memberLectures(userId: string){
+  ensureLoaded()
+  const shared: { lecture_id: string; owner_id: string }[] = []
+  for(const [lectureId, acl] of acls){
+    if(acl.members.some((member) => member.user_id === userId)) shared.push({ lecture_id: lectureId, owner_id: acl.owner_id })
+  }
+  return shared
+}
+
+// 讲座彻底删除后清除其共享记录；移入回收站时保留，恢复后共享照旧
+onLecturePurged((lectureId) => {
+  ensureLoaded()
+  if(acls.delete(lectureId)) persistInBackground()
+})
+
+// ==================== 共享操作 ====================
+
+export async function shareLecture(inputs: ShareLectureInputs, ctx: PluginContext){
+  store.require()
+  authorizeLecture(inputs.lecture_id, 'owner', ctx)
+  const acl = aclOf(inputs.lecture_id) ?? await createAcl(inputs.lecture_id, ctx)
+  const now = new Date()
+
+  if(inputs.link){
+    const settings = getPluginSettings().sharing
+    const ttl = inputs.expires_in_ms ?? settings?.linkTtlMs ?? DEFAULT_LINK_TTL_MS
+    const maxTtl = settings?.maxLinkTtlMs ?? DEFAULT_MAX_LINK_TTL_MS
+    if(ttl > maxTtl){
+      throw new LectureValidationError([{ path: 'expires_in_ms', message: `expires_in_ms must not exceed ${maxTtl}` }])
+    }
+    const token = randomBytes(24).toString('base64url')
+    const link: ShareLink = {
+      link_id: randomBytes(8).toString('hex'),
+      token_hash: hashToken(token),
+      created_by: ctx.userId!,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttl).toISOString()
+    }
+    acl.links.push(link)
+    await persist()
+    return { lecture_id: inputs.lecture_id, link: { ...publicLink(link), token } }
+  }
+
+  if(inputs.user_id === acl.owner_id){
+    throw new LectureValidationError([{ path: 'user_id', message: 'the lecture owner already has full access' }])
+  }
+  const member: LectureMember = {
+    user_id: inputs.user_id!,
+    role: inputs.role ?? 'viewer',
+    granted_by: ctx.userId!,
+    granted_at: now.toISOString()
+  }
+  acl.members = [...acl.members.filter((candidate) => candidate.user_id !== member.user_id), member]
+  await persist()
+  return { lecture_id: inputs.lecture_id, member }
+}
+
+// 移除不存在的成员或链接时返回 removed: false，便于调用方重试
+export async function unshareLecture(inputs: UnshareLectureInputs, ctx: PluginContext){
+  authorizeLecture(inputs.lecture_id, 'owner', ctx)
+  const acl = aclOf(inputs.lecture_id)
+  if(inputs.user_id && inputs.user_id === acl?.owner_id){
+    throw new LectureValidationError([{ path: 'user_id', message: 'the lecture owner cannot be removed' }])
+  }
+  let removed = false
+  if(acl && inputs.user_id){
+    removed = acl.members.some((member) => member.user_id === inputs.user_id)
+    acl.members = acl.members.filter((member) => member.user_id !== inputs.user_id)
+  } else if(acl && inputs.link_id){
+    removed = acl.links.some((link) => link.link_id === inputs.link_id)
+    acl.links = acl.links.filter((link) => link.link_id !== inputs.link_id)
+  }
+  if(removed) await persist()
+  return { lecture_id: inputs.lecture_id, removed }
+}
+
+// 分享链接只对所有者列出，且不含令牌
+export async function getLectureMembers(inputs: LectureMembersInputs, ctx: PluginContext){
+  const grant = authorizeLecture(inputs.lecture_id, 'viewer', ctx)
+  const acl = aclOf(inputs.lecture_id)
+  if(!acl) await verifyOwnership(inputs.lecture_id, ctx)
+  return {
+    lecture_id: inputs.lecture_id,
+    owner_id: grant.owner_id,
+    role: grant.role,
+    members: acl?.members ?? [],
+    ...(grant.role === 'owner' ? { links: acl ? activeLinks(inputs.lecture_id, acl).map(publicLink) : [] } : {})
+  }
+}
+
+// ==================== 共享记录 ====================
+
+function aclOf(lectureId: string){
+  ensureLoaded()
+  return acls.get(lectureId)
+}
+
+// 首次共享时确认调用方确实拥有该讲座
+async function createAcl(lectureId: string, ctx: PluginContext){
+  await verifyOwnership(lectureId, ctx)
+  const acl: LectureAcl = { owner_id: ctx.userId!, members: [], links: [] }
+  acls.set(lectureId, acl)
+  return acl
+}
+
+// 确认 ctx.userId 为讲座所有者；Data Service 不存在该讲座时其 4xx 原样透传。
+// 插件本地保存的讲座数据（共享记录、报告版本）在读写前以此确认归属
+export async function verifyOwnership(lectureId: string, ctx: PluginContext){
+  const result: any = await dataServiceRequest(
+    `/lectures/${lectureId}`,
+    { method: 'GET', signal: ctx.signal },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  const lecture = result?.lecture ?? result
+  const ownerId = lecture?.owner_id ?? lecture?.user_id
+  if(typeof ownerId === 'string' && ownerId !== ctx.userId){
+    throw new LectureAccessError('no access to lecture', { lecture_id: lectureId, required_role: 'owner' })
+  }
+}
+
+// 顺带清理已过期的链接
+function activeLinks(lectureId: string, acl: LectureAcl){
+  const now = Date.now()
+  const active = acl.links.filter((link) => Date.parse(link.expires_at) > now)
+  if(active.length !== acl.links.length){
+    acl.links = active
+    persistInBackground()
+    console.info('[lecture-access] purged expired share links', { lectureId })
+  }
+  return active
+}
+
+function publicLink({ token_hash: _tokenHash, ...link }: ShareLink){
+  return link
+}
+
+function shareTokenOf({ headers }: CallerContext){
+  for(const name of SHARE_TOKEN_HEADERS){
+    const value = headers?.[name]
+    if(typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return undefined
+}
+
+function hashToken(token: string){
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// ==================== 持久化 ====================
+
+function ensureLoaded(){
+  store.load((snapshot) => {
+    for(const [id, acl] of Object.entries(snapshot.lectures ?? {})) acls.set(id, acl)
+  })
+}
+
+// 写入失败抛给调用方
+function persist(){
+  return store.save({ lectures: Object.fromEntries(acls) })
+}
+
+// 顺带进行的清理不等待写入完成，失败只记录日志
+function persistInBackground(){
+  persist().catch((error) => {
+    console.error('[lecture-access] failed to persist share store', {
+      error: error instanceof Error ? error.message : String(error)
+    })
+  })
+}
+
+// 清空内存中的共享记录（先等待进行中的写入完成），下次访问时重新从 storePath 载入；供测试隔离用例
+export async function resetLectureAccess(){
+  await store.reset()
+  acls.clear()
+}
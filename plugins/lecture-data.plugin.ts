@@ -1,156 +1,41 @@
-import { Ajv, type ErrorObject } from 'ajv'
-import schema from '../schemas/lecture.intent.schema.json' with { type: 'json' }
-import { registerPlugin } from './registry.js'
-import { dataServiceRequest } from '../services/data-service.client.js'
+import { registerPlugin, type PluginManifest } from './registry.js'
 import { ValidationError } from '../errors/validation.error.js'
 import { SC } from '../constants/status-codes.js'
+import {
+  LECTURE_OPERATIONS,
+  callLectureOperation,
+  lectureErrorResponse,
+  lectureOperationManifest,
+  type LectureOperation
+} from './lecture-operations.js'
 import type { PluginContext, PluginResponse } from '../types/index.js'
 
-const ajv = new Ajv({ allErrors: true, strict: false })
-const validateIntent = ajv.compile(schema)
-
-type Operation =
-  | 'list'
-  | 'create'
-  | 'update'
-  | 'delete'
-  | 'get'
-  | 'transcription.append'
-  | 'summary.append'
-  | 'report.upsert'
-
-function formatErrors(errors: ErrorObject[] | null | undefined): string {
-  if(!errors || errors.length === 0) return 'invalid payload'
-  return errors
-    .map((error) => {
-      const path = error.instancePath || error.schemaPath || '#'
-      return `${path} ${error.message ?? ''}`.trim()
-    })
-    .join('; ')
+// 每个讲座操作注册为一个 lecture.<操作名> 插件，intent.operation 须与操作名一致；
+// schema 与 Data Service 路由定义在 lecture-operations.ts，与 data.proxy 共用
+for(const operation of LECTURE_OPERATIONS){
+  registerPlugin(`lecture.${operation.name}`, createLectureHandler(operation), manifestFor(operation))
 }
 
-function ensureIntent(intent: any, expected: Operation){
-  const ok = validateIntent(intent)
-  if(!ok) throw new ValidationError(formatErrors(validateIntent.errors))
-  if(intent.operation !== expected){
-    throw new ValidationError(`operation must be ${expected}`)
+function createLectureHandler(operation: LectureOperation){
+  return async (ctx: PluginContext): Promise<PluginResponse> => {
+    try {
+      if(ctx.intent?.operation !== operation.name){
+        throw new ValidationError(`operation must be ${operation.name}`)
+      }
+      const data = await callLectureOperation(operation, ctx.intent.inputs, ctx)
+      return { data, status_code: SC.OK, message: 'ok' }
+    } catch (error) {
+      return lectureErrorResponse(error)
+    }
   }
-  return intent.inputs ?? {}
-}
-
-function ensureUserId(userId: string | undefined){
-  if(!userId) throw new ValidationError('missing user id')
-  return userId
 }
 
-function handleKnownError(error: any){
-  if(error instanceof ValidationError){
-    return { status_code: SC.BAD_REQUEST, message: error.message, data: {} }
-  }
-  const status = typeof error?.statusCode === 'number' ? error.statusCode : undefined
-  if(status && status < 500){
-    return { status_code: status, message: error.message ?? 'data service error', data: error.details ?? {} }
+function manifestFor(operation: LectureOperation): PluginManifest {
+  return {
+    version: '1.0.0',
+    description: operation.description,
+    operations: {
+      [operation.name]: lectureOperationManifest(operation)
+    }
   }
-  throw error
 }
-
-registerPlugin('lecture.list', async (ctx: PluginContext): Promise<PluginResponse> => {
-  try {
-    ensureIntent(ctx.intent, 'list')
-    const userId = ensureUserId(ctx.userId)
-    const data = await dataServiceRequest('/lectures', { method: 'GET' }, { userId, requestId: ctx.requestId })
-    return { data, status_code: SC.OK, message: 'ok' }
-  } catch (error) {
-    return handleKnownError(error)
-  }
-})
-
-registerPlugin('lecture.create', async (ctx: PluginContext): Promise<PluginResponse> => {
-  try {
-    const inputs = ensureIntent(ctx.intent, 'create') as Record<string, unknown>
-    const userId = ensureUserId(ctx.userId)
-    const body = { ...inputs }
-    const data = await dataServiceRequest('/lectures', { method: 'POST', body }, { userId, requestId: ctx.requestId })
-    return { data, status_code: SC.OK, message: 'ok' }
-  } catch (error) {
-    return handleKnownError(error)
-  }
-})
-
-registerPlugin('lecture.update', async (ctx: PluginContext): Promise<PluginResponse> => {
-  try {
-    const inputs = ensureIntent(ctx.intent, 'update') as Record<string, any>
-    const userId = ensureUserId(ctx.userId)
-    const lectureId = inputs.lecture_id
-    const patch = { ...inputs }
-    delete patch.lecture_id
-    const data = await dataServiceRequest(`/lectures/${lectureId}`, { method: 'PATCH', body: patch }, { userId, requestId: ctx.requestId })
-    return { data, status_code: SC.OK, message: 'ok' }
-  } catch (error) {
-    return handleKnownError(error)
-  }
-})
-
-registerPlugin('lecture.delete', async (ctx: PluginContext): Promise<PluginResponse> => {
-  try {
-    const inputs = ensureIntent(ctx.intent, 'delete') as { lecture_id: string }
-    const userId = ensureUserId(ctx.userId)
-    const data = await dataServiceRequest(`/lectures/${inputs.lecture_id}`, { method: 'DELETE' }, { userId, requestId: ctx.requestId })
-    return { data, status_code: SC.OK, message: 'ok' }
-  } catch (error) {
-    return handleKnownError(error)
-  }
-})
-
-registerPlugin('lecture.get', async (ctx: PluginContext): Promise<PluginResponse> => {
-  try {
-    const inputs = ensureIntent(ctx.intent, 'get') as { lecture_id: string }
-    const userId = ensureUserId(ctx.userId)
-    const data = await dataServiceRequest(`/lectures/${inputs.lecture_id}`, { method: 'GET' }, { userId, requestId: ctx.requestId })
-    return { data, status_code: SC.OK, message: 'ok' }
-  } catch (error) {
-    return handleKnownError(error)
-  }
-})
-
-registerPlugin('lecture.transcription.append', async (ctx: PluginContext): Promise<PluginResponse> => {
-  try {
-    const inputs = ensureIntent(ctx.intent, 'transcription.append') as { lecture_id: string }
-    const userId = ensureUserId(ctx.userId)
-    const lectureId = inputs.lecture_id
-    const body = { ...inputs }
-    delete (body as any).lecture_id
-    const data = await dataServiceRequest(`/lectures/${lectureId}/transcription`, { method: 'POST', body }, { userId, requestId: ctx.requestId })
-    return { data, status_code: SC.OK, message: 'ok' }
-  } catch (error) {
-    return handleKnownError(error)
-  }
-})
-
-registerPlugin('lecture.summary.append', async (ctx: PluginContext): Promise<PluginResponse> => {
-  try {
-    const inputs = ensureIntent(ctx.intent, 'summary.append') as { lecture_id: string }
-    const userId = ensureUserId(ctx.userId)
-    const lectureId = inputs.lecture_id
-    const body = { ...inputs }
-    delete (body as any).lecture_id
-    const data = await dataServiceRequest(`/lectures/${lectureId}/transcription-summary`, { method: 'POST', body }, { userId, requestId: ctx.requestId })
-    return { data, status_code: SC.OK, message: 'ok' }
-  } catch (error) {
-    return handleKnownError(error)
-  }
-})
-
-registerPlugin('lecture.report.upsert', async (ctx: PluginContext): Promise<PluginResponse> => {
-  try {
-    const inputs = ensureIntent(ctx.intent, 'report.upsert') as { lecture_id: string }
-    const userId = ensureUserId(ctx.userId)
-    const lectureId = inputs.lecture_id
-    const body = { ...inputs }
-    delete (body as any).lecture_id
-    const data = await dataServiceRequest(`/lectures/${lectureId}/report`, { method: 'POST', body }, { userId, requestId: ctx.requestId })
-    return { data, status_code: SC.OK, message: 'ok' }
-  } catch (error) {
-    return handleKnownError(error)
-  }
-})
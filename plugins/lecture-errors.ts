@@ -0,0 +1,42 @@
+import { ValidationError } from '../errors/validation.error.js'
+import { PSC } from './status-codes.js'
+
+// 讲座操作的输入校验错误，data.proxy 与 lecture.* 以相同的 message 与 data.errors 返回 400
+
+export interface LectureInputIssue {
+  path: string
+  message: string
+}
+
+export class LectureValidationError extends ValidationError {
+  constructor(public issues: LectureInputIssue[]){
+    super(issues.map((issue) => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ') || 'invalid inputs')
+  }
+}
+
+// 调用方对讲座没有所需的共享角色；与 Data Service 的 4xx 一样带 statusCode / details，由各插件原样透传
+export class LectureAccessError extends Error {
+  statusCode = PSC.FORBIDDEN
+
+  constructor(message: string, public details: Record<string, unknown> = {}){
+    super(message)
+    this.name = 'LectureAccessError'
+  }
+}
+
+// 讲座当前的状态不允许该操作（如已移入回收站），statusCode 由抛出方指定
+export class LectureStateError extends Error {
+  constructor(public statusCode: number, message: string, public details: Record<string, unknown> = {}){
+    super(message)
+    this.name = 'LectureStateError'
+  }
+}
+
+// 批量写入中途失败且未能全部回滚：details.written 为仍留在 Data Service 中的 seq_no，调用方据此跳过已写入的片段后重试。
+// 上游 4xx 沿用其状态码，其余按 502 返回；即使是 5xx 也带 details 返回，不交给中间件归一化
+export class LecturePartialWriteError extends LectureStateError {
+  constructor(statusCode: number, message: string, details: Record<string, unknown> = {}){
+    super(statusCode, message, details)
+    this.name = 'LecturePartialWriteError'
+  }
+}
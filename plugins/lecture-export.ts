@@ -0,0 +1,287 @@
+import { z } from 'zod'
+import { dataServiceRequest } from './runtime.js'
+import { mergeSegments, segmentsOf, selectSegments, transcriptPath, type TranscriptSegment } from './lecture-transcript.js'
+import type { PluginContext } from '../types/index.js'
+
+// lecture.export / exportLecture：将讲座转录导出为 SRT、WebVTT 或纯文本。
+// 行宽按显示宽度计算（中日韩及全角字符计 2），中文可在任意字符间断行，但遵守行首 / 行尾禁则；
+// chapters 为 true 时以阶段总结作为章节标记
+
+export const EXPORT_FORMATS = ['srt', 'vtt', 'text'] as const
+
+export const exportLectureSchema = z.object({
+  lecture_id: z.string().min(1, 'lecture_id is required'),
+  format: z.enum(EXPORT_FORMATS).default('srt'),
+  from_ms: z.number().nonnegative().optional(),
+  to_ms: z.number().nonnegative().optional(),
+  max_line_width: z.number().int().min(10).max(200).default(42),
+  max_lines: z.number().int().min(1).max(4).default(2),
+  chapters: z.boolean().default(false)
+}).refine((inputs) => inputs.from_ms === undefined || inputs.to_ms === undefined || inputs.from_ms <= inputs.to_ms, {
+  message: 'from_ms must not be greater than to_ms',
+  path: ['from_ms']
+})
+
+export type ExportLectureInputs = z.infer<typeof exportLectureSchema>
+
+export interface Cue {
+  t_start_ms: number
+  t_end_ms: number
+  lines: string[]
+}
+
+export interface Chapter {
+  t_start_ms: number
+  t_end_ms: number
+  title: string
+}
+
+export interface LectureExport {
+  lecture_id: string
+  format: ExportLectureInputs['format']
+  filename: string
+  content_type: string
+  content: string
+  cue_count: number
+  chapters?: Chapter[]
+  // chapters 为 true 且格式为 srt / vtt 时附带 WebVTT 章节轨道，播放器以 kind="chapters" 加载
+  chapters_vtt?: string
+}
+
+const CONTENT_TYPES: Record<ExportLectureInputs['format'], string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  text: 'text/plain; charset=utf-8'
+}
+
+const EXTENSIONS: Record<ExportLectureInputs['format'], string> = { srt: 'srt', vtt: 'vtt', text: 'txt' }
+
+const CHAPTER_TITLE_WIDTH = 80
+
+// 中日韩统一表意文字、标点、谚文与全角字符
+const CJK_RANGES = '\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef'
+const CJK_CHAR = new RegExp(`[${CJK_RANGES}]`)
+
+export async function loadLectureExport(inputs: ExportLectureInputs, ctx: PluginContext): Promise<LectureExport> {
+  const requestCtx = { userId: ctx.userId, requestId: ctx.requestId }
+  const range = { from_ms: inputs.from_ms, to_ms: inputs.to_ms }
+  const transcript = await dataServiceRequest(
+    transcriptPath({ ...range, lecture_id: inputs.lecture_id }),
+    { method: 'GET', signal: ctx.signal },
+    requestCtx
+  )
+  const segments = selectSegments(segmentsOf(transcript), range)
+  let chapters: Chapter[] | undefined
+  if(inputs.chapters){
+    const background: any = await dataServiceRequest(
+      `/lectures/${inputs.lecture_id}/post-class-background`,
+      { method: 'GET', signal: ctx.signal },
+      requestCtx
+    )
+    const lastEnd = segments.reduce((max, segment) => Math.max(max, segment.t_end_ms), 0)
+    chapters = toChapters(selectSegments(segmentsOf(background?.stage_summaries), range), lastEnd)
+  }
+  return renderLectureExport(inputs, segments, chapters)
+}
+
+export function renderLectureExport(inputs: ExportLectureInputs, segments: TranscriptSegment[], chapters?: Chapter[]): LectureExport {
+  const cues = segments.flatMap((segment) => toCues(segment, inputs.max_line_width, inputs.max_lines))
+  const content = inputs.format === 'srt' ? renderSrt(cues)
+    : inputs.format === 'vtt' ? renderVtt(cues, chapters)
+    : renderText(segments, chapters)
+  return {
+    lecture_id: inputs.lecture_id,
+    format: inputs.format,
+    filename: `${inputs.lecture_id}.${EXTENSIONS[inputs.format]}`,
+    content_type: CONTENT_TYPES[inputs.format],
+    content,
+    cue_count: inputs.format === 'text' ? 0 : cues.length,
+    ...(chapters ? { chapters } : {}),
+    ...(chapters && inputs.format !== 'text' ? { chapters_vtt: renderChaptersVtt(chapters) } : {})
+  }
+}
+
+// ==================== 字幕切分 ====================
+
+// 一个片段换行后超过 max_lines 行时拆为多条字幕，时间按字数比例分配
+export function toCues(segment: TranscriptSegment, maxWidth: number, maxLines: number): Cue[] {
+  const lines = wrapText(segment.content, maxWidth)
+  if(!lines.length) return []
+  const groups: string[][] = []
+  for(let i = 0; i < lines.length; i += maxLines) groups.push(lines.slice(i, i + maxLines))
+  const duration = Math.max(0, segment.t_end_ms - segment.t_start_ms)
+  const totalWidth = groups.reduce((sum, group) => sum + textWidth(group.join('')), 0) || 1
+  const cues: Cue[] = []
+  let start = segment.t_start_ms
+  groups.forEach((group, index) => {
+    const end = index === groups.length - 1
+      ? segment.t_end_ms
+      : start + Math.round(duration * textWidth(group.join('')) / totalWidth)
+    cues.push({ t_start_ms: start, t_end_ms: end, lines: group })
+    start = end
+  })
+  return cues
+}
+
+// 行首不能出现的标点，与前一个字符一起断行
+const NO_LINE_START = new Set([...'，。、！？；：）》」』】〉”’…,.!?;:)]}%'])
+// 行尾不能出现的标点，与后一个字符一起断行
+const NO_LINE_END = new Set([...'（《「『【〈“‘([{'])
+
+export function wrapText(text: string, maxWidth: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for(const { token, spaced } of tokenize(text)){
+    const candidate = line ? `${line}${spaced ? ' ' : ''}${token}` : token
+    if(!line || textWidth(candidate) <= maxWidth){
+      line = candidate
+      continue
+    }
+    lines.push(line)
+    line = token
+  }
+  if(line) lines.push(line)
+  // 单个超长的英文单词按宽度硬切
+  return lines.flatMap((item) => textWidth(item) > maxWidth ? hardSplit(item, maxWidth) : [item])
+}
+
+interface WrapToken {
+  token: string
+  // 与前一个 token 之间原本有空白
+  spaced: boolean
+}
+
+// 中日韩字符逐字成为断行单位，其余字符按空白分词；禁则标点并入相邻单位
+function tokenize(text: string): WrapToken[] {
+  const tokens: WrapToken[] = []
+  const pattern = new RegExp(`\\s+|[${CJK_RANGES}]|[^\\s${CJK_RANGES}]+`, 'g')
+  let spaced = false
+  let glueNext = false
+  for(const [match] of text.matchAll(pattern)){
+    if(/^\s+$/.test(match)){
+      spaced = true
+      continue
+    }
+    const previous = tokens[tokens.length - 1]
+    if(previous && (glueNext || (NO_LINE_START.has(match[0]) && !spaced))){
+      previous.token += `${spaced ? ' ' : ''}${match}`
+    } else {
+      tokens.push({ token: match, spaced })
+    }
+    glueNext = NO_LINE_END.has(match[match.length - 1])
+    spaced = false
+  }
+  return tokens
+}
+
+function hardSplit(text: string, maxWidth: number){
+  const parts: string[] = []
+  let part = ''
+  for(const char of text){
+    if(part && textWidth(part + char) > maxWidth){
+      parts.push(part)
+      part = ''
+    }
+    part += char
+  }
+  if(part) parts.push(part)
+  return parts
+}
+
+export function textWidth(text: string){
+  let width = 0
+  for(const char of text) width += CJK_CHAR.test(char) ? 2 : 1
+  return width
+}
+
+// ==================== 章节 ====================
+
+// 阶段总结的 content 可能是 JSON（含 summary 字段）或纯文本，取 summary 或首行作为标题
+export function toChapters(summaries: TranscriptSegment[], lastEnd: number): Chapter[] {
+  return summaries.map((summary, index) => {
+    const next = summaries[index + 1]
+    return {
+      t_start_ms: summary.t_start_ms,
+      t_end_ms: next ? next.t_start_ms : Math.max(summary.t_end_ms, lastEnd),
+      title: chapterTitle(summary.content) || `Chapter ${index + 1}`
+    }
+  })
+}
+
+function chapterTitle(content: string){
+  let title = content
+  try {
+    const parsed = JSON.parse(content)
+    if(typeof parsed?.summary === 'string') title = parsed.summary
+  } catch {
+    // 纯文本
+  }
+  const firstLine = title.split(/\r?\n/).map((line) => line.trim()).find(Boolean) ?? ''
+  return textWidth(firstLine) > CHAPTER_TITLE_WIDTH ? `${hardSplit(firstLine, CHAPTER_TITLE_WIDTH - 1)[0]}…` : firstLine
+}
+
+// ==================== 渲染 ====================
+
+function renderSrt(cues: Cue[]){
+  return cues.map((cue, index) =>
+    `${index + 1}\n${formatTimestamp(cue.t_start_ms, ',')} --> ${formatTimestamp(cue.t_end_ms, ',')}\n${cue.lines.join('\n')}\n`
+  ).join('\n')
+}
+
+// 章节以 NOTE 块标在该章节第一条字幕之前
+function renderVtt(cues: Cue[], chapters?: Chapter[]){
+  const blocks = ['WEBVTT\n']
+  const pending = [...(chapters ?? [])]
+  for(const cue of cues){
+    while(pending.length && pending[0].t_start_ms <= cue.t_start_ms){
+      blocks.push(`NOTE Chapter: ${escapeVtt(pending.shift()!.title)}\n`)
+    }
+    blocks.push(`${formatTimestamp(cue.t_start_ms, '.')} --> ${formatTimestamp(cue.t_end_ms, '.')}\n${cue.lines.map(escapeVtt).join('\n')}\n`)
+  }
+  for(const chapter of pending) blocks.push(`NOTE Chapter: ${escapeVtt(chapter.title)}\n`)
+  return blocks.join('\n')
+}
+
+function renderChaptersVtt(chapters: Chapter[]){
+  const blocks = ['WEBVTT\n']
+  chapters.forEach((chapter, index) => {
+    blocks.push(`chapter-${index + 1}\n${formatTimestamp(chapter.t_start_ms, '.')} --> ${formatTimestamp(chapter.t_end_ms, '.')}\n${escapeVtt(chapter.title)}\n`)
+  })
+  return blocks.join('\n')
+}
+
+// 纯文本按合并后的段落输出，每段前标开始时间；章节作为标题行插入，段落不跨章节合并
+function renderText(segments: TranscriptSegment[], chapters?: Chapter[]){
+  const blocks: string[] = []
+  const pending = [...(chapters ?? [])]
+  let rest = segments
+  while(rest.length){
+    while(pending.length && pending[0].t_start_ms <= rest[0].t_start_ms){
+      const chapter = pending.shift()!
+      blocks.push(`## [${clockTime(chapter.t_start_ms)}] ${chapter.title}`)
+    }
+    const boundary = pending.length ? rest.findIndex((segment) => segment.t_start_ms >= pending[0].t_start_ms) : -1
+    const group = boundary === -1 ? rest : rest.slice(0, boundary)
+    rest = boundary === -1 ? [] : rest.slice(boundary)
+    for(const paragraph of mergeSegments(group)) blocks.push(`[${clockTime(paragraph.t_start_ms)}] ${paragraph.content}`)
+  }
+  return blocks.length ? `${blocks.join('\n\n')}\n` : ''
+}
+
+function clockTime(ms: number){
+  return formatTimestamp(ms, '.').slice(0, 8)
+}
+
+function formatTimestamp(ms: number, separator: ',' | '.'){
+  const total = Math.max(0, Math.round(ms))
+  const hours = Math.floor(total / 3_600_000)
+  const minutes = Math.floor(total / 60_000) % 60
+  const seconds = Math.floor(total / 1000) % 60
+  const pad = (value: number, size = 2) => String(value).padStart(size, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`
+}
+
+// WebVTT 中 "-->" 与 & < > 需要转义
+function escapeVtt(text: string){
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/-->/g, '--&gt;')
+}
@@ -0,0 +1,306 @@
+import { z } from 'zod'
+import path from 'node:path'
+import { Buffer } from 'node:buffer'
+import { ValidationError } from '../errors/validation.error.js'
+import { getPlugin } from './registry.js'
+import { dataServiceRequest } from './runtime.js'
+import { appendSegments, joinText, mergeSegments, segmentsOf, serializeSegmentWrites, type TranscriptSegment } from './lecture-transcript.js'
+import { indexSegments } from './lecture-search.js'
+import { markRecording } from './lecture-status.js'
+import type { PluginContext } from '../types/index.js'
+
+// lecture.import / importLecture：将 SRT、WebVTT 或带时间戳的纯文本解析为转录片段并追加到讲座；
+// summarize 为 true 时按时间窗口调用 audio.stage-summary 生成阶段总结并写入
+
+export const IMPORT_FORMATS = ['srt', 'vtt', 'text'] as const
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+// base64 编码后的长度上限，另留出 data: 前缀与换行的余量；超过时在解码前即拒绝
+const MAX_IMPORT_DATA_CHARS = Math.ceil(MAX_IMPORT_BYTES / 3) * 4 + 64 * 1024
+// 纯文本最后一行没有下一行的开始时间可作结束时间，按该时长估计
+const LAST_LINE_DURATION_MS = 5000
+// 每条字幕对应一次 Data Service 写入，约合两小时的常见字幕密度；更长的文件应拆分后分次导入
+const MAX_IMPORT_CUES = 2000
+// 与 audio.stage-summary 对 current 的最小长度要求一致
+const MIN_STAGE_TEXT_LENGTH = 20
+
+export const importLectureSchema = z.object({
+  lecture_id: z.string().min(1, 'lecture_id is required'),
+  file: z.object({
+    name: z.string().min(1, 'file.name is required'),
+    mime_type: z.string().min(1, 'file.mime_type is required'),
+    data: z.string()
+      .min(1, 'file.data (base64) is required')
+      .max(MAX_IMPORT_DATA_CHARS, `subtitle file too large (max ${MAX_IMPORT_BYTES / 1024 / 1024} MB)`),
+    // 仅作参考，大小限制以解码后的字节数为准
+    size: z.number().int().positive().optional()
+  }),
+  // 缺省时按扩展名与内容识别
+  format: z.enum(IMPORT_FORMATS).optional(),
+  // 所有时间整体平移，字幕与讲座录音起点不一致时使用
+  offset_ms: z.number().int().default(0),
+  summarize: z.boolean().default(false),
+  language: z.string().min(2).optional(),
+  keywords: z.array(z.string().min(1)).max(50).optional(),
+  stage_window_ms: z.number().int().min(30_000).default(300_000)
+}).refine((inputs) => !inputs.summarize || !!inputs.language, {
+  message: 'language is required when summarize is true',
+  path: ['language']
+})
+
+export type ImportLectureInputs = z.infer<typeof importLectureSchema>
+export type ImportFormat = typeof IMPORT_FORMATS[number]
+
+export interface ParsedCue {
+  t_start_ms: number
+  t_end_ms: number
+  content: string
+}
+
+interface StageSummaryFailure {
+  t_start_ms: number
+  t_end_ms: number
+  status_code: number
+  message: string
+}
+
+// ctx 为讲座所有者，只用于 Data Service 请求；caller 为原始调用方，生成阶段总结时以其身份调用插件
+export async function importLecture(inputs: ImportLectureInputs, ctx: PluginContext, caller: PluginContext = ctx){
+  const text = decodeSubtitleFile(inputs.file)
+  const format = inputs.format ?? detectFormat(inputs.file.name, inputs.file.mime_type, text)
+  const cues = parseSubtitles(text, format)
+    .map((cue) => ({ ...cue, t_start_ms: cue.t_start_ms + inputs.offset_ms, t_end_ms: cue.t_end_ms + inputs.offset_ms }))
+  if(!cues.length) throw new ValidationError(`no cues found in ${format} file`)
+  if(cues.length > MAX_IMPORT_CUES) throw new ValidationError(`too many cues (max ${MAX_IMPORT_CUES} per import)`)
+  if(cues[0].t_start_ms < 0) throw new ValidationError('offset_ms moves cues before 0')
+
+  // 与批量追加共用按讲座串行的写入队列，编号到写入完成之间不会插入其他追加
+  const segments = await serializeSegmentWrites(inputs.lecture_id, 'transcription', async () => {
+    const existing = await dataServiceRequest(
+      `/lectures/${inputs.lecture_id}/transcription`,
+      { method: 'GET', signal: ctx.signal },
+      { userId: ctx.userId, requestId: ctx.requestId }
+    )
+    const firstSeq = nextSeqNo(segmentsOf(existing))
+    const numbered: TranscriptSegment[] = cues.map((cue, index) => ({ ...cue, seq_no: firstSeq + index }))
+    await appendSegments(inputs.lecture_id, numbered, ctx)
+    return numbered
+  })
+  indexSegments(inputs.lecture_id, 'transcript', segments)
+  await markRecording(inputs.lecture_id, ctx)
+  const firstSeq = segments[0].seq_no!
+
+  return {
+    lecture_id: inputs.lecture_id,
+    format,
+    segment_count: segments.length,
+    seq_from: firstSeq,
+    seq_to: firstSeq + segments.length - 1,
+    t_start_ms: segments[0].t_start_ms,
+    t_end_ms: segments[segments.length - 1].t_end_ms,
+    ...(inputs.summarize ? { stage_summaries: await summarizeStages(inputs, segments, ctx, caller) } : {})
+  }
+}
+
+function nextSeqNo(segments: TranscriptSegment[]){
+  return segments.reduce((max, segment) => Math.max(max, segment.seq_no ?? 0), 0) + 1
+}
+
+// ==================== 阶段总结 ====================
+
+// 转录已写入，单个阶段总结失败只记录在结果中，不影响导入本身
+async function summarizeStages(inputs: ImportLectureInputs, segments: TranscriptSegment[], ctx: PluginContext, caller: PluginContext){
+  const handler = getPlugin('audio.stage-summary')
+  const stages = groupStages(segments, inputs.stage_window_ms)
+  const failed: StageSummaryFailure[] = []
+  if(!handler){
+    return { generated: 0, failed: stages.map((stage) => ({ ...stageRange(stage), status_code: 500, message: 'audio.stage-summary is not registered' })) }
+  }
+  const background: any = await dataServiceRequest(
+    `/lectures/${inputs.lecture_id}/post-class-background`,
+    { method: 'GET', signal: ctx.signal },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  let seqNo = nextSeqNo(segmentsOf(background?.stage_summaries))
+  let generated = 0
+  const history: string[] = []
+  for(const stage of stages){
+    const current = stageText(stage)
+    const intent = {
+      operation: 'stage',
+      inputs: {
+        previous2: history[history.length - 2],
+        previous: history[history.length - 1],
+        current,
+        language: inputs.language,
+        keywords: inputs.keywords,
+        lecture_id: inputs.lecture_id
+      }
+    }
+    history.push(current)
+    try {
+      const response = await handler({ ...caller, intent, envelope: { ...caller.envelope, pluginName: 'audio.stage-summary', intent } })
+      if(response.status_code < 200 || response.status_code >= 300){
+        failed.push({ ...stageRange(stage), status_code: response.status_code, message: response.message })
+        continue
+      }
+      const summary = { ...stageRange(stage), content: JSON.stringify(response.data), seq_no: seqNo }
+      await dataServiceRequest(
+        `/lectures/${inputs.lecture_id}/transcription-summary`,
+        { method: 'POST', body: summary, signal: ctx.signal },
+        { userId: ctx.userId, requestId: ctx.requestId }
+      )
+      indexSegments(inputs.lecture_id, 'summary', [summary])
+      seqNo += 1
+      generated += 1
+    } catch (error: any) {
+      failed.push({
+        ...stageRange(stage),
+        status_code: typeof error?.statusCode === 'number' ? error.statusCode : 500,
+        message: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+  return { generated, failed }
+}
+
+// 按开始时间切分为固定时长的窗口；文本不足最小长度的窗口并入下一个窗口，末尾过短的窗口并入上一个窗口
+function groupStages(segments: TranscriptSegment[], windowMs: number){
+  const stages: TranscriptSegment[][] = []
+  let current: TranscriptSegment[] = []
+  let windowEnd = segments[0].t_start_ms + windowMs
+  for(const segment of segments){
+    if(segment.t_start_ms >= windowEnd){
+      if(stageText(current).length >= MIN_STAGE_TEXT_LENGTH){
+        stages.push(current)
+        current = []
+      }
+      windowEnd = segment.t_start_ms + windowMs
+    }
+    current.push(segment)
+  }
+  if(stageText(current).length >= MIN_STAGE_TEXT_LENGTH) stages.push(current)
+  else if(stages.length) stages[stages.length - 1].push(...current)
+  return stages
+}
+
+function stageText(stage: TranscriptSegment[]){
+  return mergeSegments(stage, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY).map((paragraph) => paragraph.content).join('\n')
+}
+
+function stageRange(stage: TranscriptSegment[]){
+  return { t_start_ms: stage[0].t_start_ms, t_end_ms: stage[stage.length - 1].t_end_ms }
+}
+
+// ==================== 解析 ====================
+
+function decodeSubtitleFile(file: ImportLectureInputs['file']){
+  const trimmed = file.data.trim()
+  const payload = trimmed.startsWith('data:') ? trimmed.slice(trimmed.indexOf(',') + 1) : trimmed
+  if(!/^[A-Za-z0-9+/_-]*={0,2}$/.test(payload.replace(/\s+/g, ''))){
+    throw new ValidationError('file.data is not valid base64')
+  }
+  const buffer = Buffer.from(payload, 'base64')
+  if(buffer.length > MAX_IMPORT_BYTES){
+    throw new ValidationError(`subtitle file too large (max ${MAX_IMPORT_BYTES / 1024 / 1024} MB)`)
+  }
+  return buffer.toString('utf8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+}
+
+export function detectFormat(name: string, mimeType: string, text: string): ImportFormat {
+  const ext = path.extname(name).toLowerCase()
+  if(ext === '.srt' || mimeType === 'application/x-subrip') return 'srt'
+  if(ext === '.vtt' || mimeType === 'text/vtt') return 'vtt'
+  if(/^WEBVTT\b/.test(text)) return 'vtt'
+  if(/-->/.test(text)) return 'srt'
+  return 'text'
+}
+
+export function parseSubtitles(text: string, format: ImportFormat): ParsedCue[] {
+  const cues = format === 'text' ? parsePlainText(text) : parseCueBlocks(text, format)
+  return cues.sort((a, b) => a.t_start_ms - b.t_start_ms)
+}
+
+const TIMING_LINE = /^\s*(\S+)\s+-->\s+(\S+)/
+
+// SRT 与 WebVTT 都由空行分隔的块组成；WebVTT 的文件头与 NOTE / STYLE / REGION 块跳过
+function parseCueBlocks(text: string, format: 'srt' | 'vtt'): ParsedCue[] {
+  const cues: ParsedCue[] = []
+  for(const { startLine, lines } of splitBlocks(text)){
+    if(format === 'vtt' && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line))
+    // 序号或 WebVTT 的 cue 标识只能出现在时间行之前的一行
+    if(timingIndex === -1 || timingIndex > 1) throw new ValidationError(`invalid ${format} cue near line ${startLine}`)
+    const [, start, end] = TIMING_LINE.exec(lines[timingIndex])!
+    const cue = {
+      t_start_ms: parseTimestamp(start, startLine),
+      t_end_ms: parseTimestamp(end, startLine),
+      content: cleanCueText(lines.slice(timingIndex + 1), format)
+    }
+    if(cue.t_end_ms < cue.t_start_ms) throw new ValidationError(`cue ends before it starts near line ${startLine}`)
+    if(cue.content) cues.push(cue)
+  }
+  return cues
+}
+
+function splitBlocks(text: string){
+  const blocks: { startLine: number; lines: string[] }[] = []
+  let current: { startLine: number; lines: string[] } | undefined
+  text.split('\n').forEach((line, index) => {
+    if(!line.trim()){
+      current = undefined
+      return
+    }
+    if(!current){
+      current = { startLine: index + 1, lines: [] }
+      blocks.push(current)
+    }
+    current.lines.push(line)
+  })
+  return blocks
+}
+
+// 每行以 [HH:MM:SS(.mmm)] 或 HH:MM:SS 开头；不带时间戳的行并入上一行，# 开头的标题行（如导出的章节）跳过。
+// 结束时间取下一行的开始时间
+function parsePlainText(text: string): ParsedCue[] {
+  const cues: ParsedCue[] = []
+  const pattern = /^\s*\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\]?\s+(.*)$/
+  text.split('\n').forEach((line, index) => {
+    if(!line.trim() || line.trimStart().startsWith('#')) return
+    const match = pattern.exec(line)
+    if(match){
+      cues.push({ t_start_ms: parseTimestamp(match[1], index + 1), t_end_ms: 0, content: match[2].trim() })
+    } else if(cues.length){
+      cues[cues.length - 1].content = joinText(cues[cues.length - 1].content, line.trim())
+    } else {
+      throw new ValidationError(`line ${index + 1} has no timestamp`)
+    }
+  })
+  cues.sort((a, b) => a.t_start_ms - b.t_start_ms)
+  cues.forEach((cue, index) => {
+    const next = cues[index + 1]
+    cue.t_end_ms = next ? next.t_start_ms : cue.t_start_ms + LAST_LINE_DURATION_MS
+  })
+  return cues.filter((cue) => cue.content)
+}
+
+// 接受 HH:MM:SS,mmm、HH:MM:SS.mmm 与 MM:SS.mmm
+export function parseTimestamp(value: string, lineNo: number){
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/.exec(value)
+  if(!match || Number(match[2]) > 59 || Number(match[3]) > 59){
+    throw new ValidationError(`invalid timestamp "${value}" near line ${lineNo}`)
+  }
+  const [, hours = '0', minutes, seconds, millis = '0'] = match
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis.padEnd(3, '0'))
+}
+
+// 去掉 SRT 的 <i> / {\an8} 与 WebVTT 的 <v 说话人> / <c> / 内联时间戳等标记；只有时间行没有文本的 cue 返回空字符串
+function cleanCueText(lines: string[], format: 'srt' | 'vtt'){
+  const text = lines.map((line) => line.trim()).reduce(joinText, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/<[^>]*>/g, '')
+  const unescaped = format === 'vtt'
+    ? text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&')
+    : text
+  return unescaped.replace(/\s+/g, ' ').trim()
+}
@@ -0,0 +1,249 @@
+import { z } from 'zod'
+import { dataServiceRequest } from './runtime.js'
+import { appendSegments, segmentsOf, serializeSegmentWrites, type TranscriptSegment } from './lecture-transcript.js'
+import { LectureValidationError, type LectureInputIssue } from './lecture-errors.js'
+import { indexSegments } from './lecture-search.js'
+import { markRecording } from './lecture-status.js'
+import type { PluginContext } from '../types/index.js'
+
+// 转录的批量追加与完整性检查：
+// - lecture.transcription.append-batch / appendTranscriptionBatch：一次追加多条片段，要求 seq_no 严格递增、时间不重叠，返回缺号与时间空档
+// - lecture.transcription.check / checkTranscription：检查讲座全部转录的缺号、重号、乱序、重叠与时间空档
+
+const MAX_BATCH_SEGMENTS = 500
+const DEFAULT_GAP_THRESHOLD_MS = 5000
+
+const analysisOptions = {
+  // 相邻片段之间超过该时长的静默才报告为时间空档
+  gap_threshold_ms: z.number().int().nonnegative().default(DEFAULT_GAP_THRESHOLD_MS),
+  // 不超过该时长的重叠视为正常（分段转录常见的边界重叠）
+  overlap_tolerance_ms: z.number().int().nonnegative().default(0)
+}
+
+const batchSegmentSchema = z.object({
+  t_start_ms: z.number().nonnegative(),
+  t_end_ms: z.number().nonnegative(),
+  content: z.string().min(1),
+  seq_no: z.number().int().positive().optional(),
+  start_at: z.string().optional(),
+  end_at: z.string().optional()
+}).refine((segment) => segment.t_end_ms >= segment.t_start_ms, {
+  message: 't_end_ms must not be less than t_start_ms',
+  path: ['t_end_ms']
+})
+
+export const appendBatchSchema = z.object({
+  lecture_id: z.string().min(1, 'lecture_id is required'),
+  segments: z.array(batchSegmentSchema).min(1).max(MAX_BATCH_SEGMENTS),
+  // 为 true 时时间重叠只在响应中报告，不拒绝写入
+  allow_overlaps: z.boolean().default(false),
+  ...analysisOptions
+})
+
+export const checkTranscriptionSchema = z.object({
+  lecture_id: z.string().min(1, 'lecture_id is required'),
+  ...analysisOptions
+})
+
+export type AppendBatchInputs = z.infer<typeof appendBatchSchema>
+export type CheckTranscriptionInputs = z.infer<typeof checkTranscriptionSchema>
+
+export interface SeqRange {
+  from: number
+  to: number
+}
+
+export interface TranscriptOverlap {
+  seq_no?: number
+  previous_seq_no?: number
+  t_start_ms: number
+  overlap_ms: number
+}
+
+export interface TranscriptTimeGap {
+  after_seq_no?: number
+  t_start_ms: number
+  t_end_ms: number
+  duration_ms: number
+}
+
+export interface TranscriptIntegrity {
+  ok: boolean
+  segment_count: number
+  seq_from: number | null
+  seq_to: number | null
+  missing_seq: SeqRange[]
+  duplicate_seq: number[]
+  // 没有 seq_no 的片段数
+  unnumbered: number
+  // 按时间排序后 seq_no 反而变小的片段
+  out_of_order: { seq_no: number; previous_seq_no: number }[]
+  overlaps: TranscriptOverlap[]
+  time_gaps: TranscriptTimeGap[]
+}
+
+interface AnalysisOptions {
+  gapThresholdMs?: number
+  overlapToleranceMs?: number
+  // 期望的第一个 seq_no，其前缺失的编号也计入 missing_seq
+  firstSeqNo?: number
+}
+
+// 时间空档不影响 ok；缺号、重号、乱序与超出容差的重叠都会使 ok 为 false
+export function analyzeTranscript(segments: TranscriptSegment[], options: AnalysisOptions = {}): TranscriptIntegrity {
+  const gapThreshold = options.gapThresholdMs ?? DEFAULT_GAP_THRESHOLD_MS
+  const tolerance = options.overlapToleranceMs ?? 0
+  const seqs = segments.flatMap((segment) => segment.seq_no === undefined ? [] : [segment.seq_no]).sort((a, b) => a - b)
+
+  const duplicates = new Set<number>()
+  const missing: SeqRange[] = []
+  let expected = options.firstSeqNo ?? 1
+  seqs.forEach((seq, index) => {
+    if(index > 0 && seq === seqs[index - 1]){
+      duplicates.add(seq)
+      return
+    }
+    if(seq > expected) missing.push({ from: expected, to: seq - 1 })
+    expected = Math.max(expected, seq + 1)
+  })
+
+  const byTime = [...segments].sort((a, b) => a.t_start_ms - b.t_start_ms || (a.seq_no ?? 0) - (b.seq_no ?? 0))
+  const outOfOrder: TranscriptIntegrity['out_of_order'] = []
+  const overlaps: TranscriptOverlap[] = []
+  const gaps: TranscriptTimeGap[] = []
+  let maxSeq: number | undefined
+  let previous: TranscriptSegment | undefined
+  for(const segment of byTime){
+    if(segment.seq_no !== undefined){
+      if(maxSeq !== undefined && segment.seq_no < maxSeq) outOfOrder.push({ seq_no: segment.seq_no, previous_seq_no: maxSeq })
+      maxSeq = Math.max(maxSeq ?? segment.seq_no, segment.seq_no)
+    }
+    if(previous){
+      const overlap = Math.min(previous.t_end_ms, segment.t_end_ms) - segment.t_start_ms
+      if(overlap > tolerance){
+        overlaps.push({ seq_no: segment.seq_no, previous_seq_no: previous.seq_no, t_start_ms: segment.t_start_ms, overlap_ms: overlap })
+      } else if(segment.t_start_ms - previous.t_end_ms > gapThreshold){
+        gaps.push({
+          after_seq_no: previous.seq_no,
+          t_start_ms: previous.t_end_ms,
+          t_end_ms: segment.t_start_ms,
+          duration_ms: segment.t_start_ms - previous.t_end_ms
+        })
+      }
+    }
+    // 与结束最晚的片段比较，被完全包含的短片段不会掩盖后续重叠
+    if(!previous || segment.t_end_ms >= previous.t_end_ms) previous = segment
+  }
+
+  return {
+    ok: !missing.length && !duplicates.size && !outOfOrder.length && !overlaps.length,
+    segment_count: segments.length,
+    seq_from: seqs.length ? seqs[0] : null,
+    seq_to: seqs.length ? seqs[seqs.length - 1] : null,
+    missing_seq: missing,
+    duplicate_seq: [...duplicates],
+    unnumbered: segments.length - seqs.length,
+    out_of_order: outOfOrder,
+    overlaps,
+    time_gaps: gaps
+  }
+}
+
+export function toIntegrityReport(result: any, inputs: CheckTranscriptionInputs){
+  return {
+    lecture_id: inputs.lecture_id,
+    ...analyzeTranscript(segmentsOf(result), {
+      gapThresholdMs: inputs.gap_threshold_ms,
+      overlapToleranceMs: inputs.overlap_tolerance_ms
+    })
+  }
+}
+
+export async function fetchTranscriptIntegrity(lectureId: string, ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>){
+  const result = await dataServiceRequest(
+    `/lectures/${lectureId}/transcription`,
+    { method: 'GET', signal: ctx.signal },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  return analyzeTranscript(segmentsOf(result))
+}
+
+// ==================== 批量追加 ====================
+
+// 批内校验失败或与已存储的片段冲突时整批拒绝，不写入任何片段。
+// 校验通过后逐条写入 Data Service，中途失败时回滚本次已写入的片段（见 appendSegments）；回滚失败时返回仍留下的 seq_no。
+// 读取已存储片段到写入完成之间按讲座串行，同一讲座的并发批次不会分到相同的 seq_no；写入后把草稿讲座推进到 recording
+export async function appendTranscriptionBatch(inputs: AppendBatchInputs, ctx: PluginContext){
+  const appended = await serializeSegmentWrites(inputs.lecture_id, 'transcription', async () => {
+    const existing = segmentsOf(await dataServiceRequest(
+      `/lectures/${inputs.lecture_id}/transcription`,
+      { method: 'GET', signal: ctx.signal },
+      { userId: ctx.userId, requestId: ctx.requestId }
+    ))
+    const lastSeq = existing.reduce((max, segment) => Math.max(max, segment.seq_no ?? 0), 0)
+    const segments = numberSegments(inputs.segments, lastSeq)
+
+    // 只与最后一条已存储片段比较，历史中已有的问题由完整性检查报告
+    const anchor = [...existing].sort((a, b) => (a.seq_no ?? 0) - (b.seq_no ?? 0) || a.t_end_ms - b.t_end_ms).pop()
+    const report = analyzeTranscript(anchor ? [anchor, ...segments] : segments, {
+      gapThresholdMs: inputs.gap_threshold_ms,
+      overlapToleranceMs: inputs.overlap_tolerance_ms,
+      firstSeqNo: lastSeq || 1
+    })
+    const issues: LectureInputIssue[] = []
+    segments.forEach((segment, index) => {
+      const previous = index === 0 ? anchor : segments[index - 1]
+      if(previous && segment.t_start_ms < previous.t_start_ms){
+        issues.push({ path: `segments.${index}.t_start_ms`, message: 'segments must be ordered by t_start_ms in seq_no order' })
+      }
+    })
+    if(!inputs.allow_overlaps){
+      for(const overlap of report.overlaps){
+        issues.push({
+          path: `segments.${indexOfSeq(segments, overlap.seq_no)}.t_start_ms`,
+          message: `overlaps seq_no ${overlap.previous_seq_no} by ${overlap.overlap_ms} ms`
+        })
+      }
+    }
+    if(issues.length) throw new LectureValidationError(issues)
+
+    await appendSegments(inputs.lecture_id, segments, ctx)
+    indexSegments(inputs.lecture_id, 'transcript', segments)
+    return {
+      lecture_id: inputs.lecture_id,
+      appended: segments.length,
+      seq_from: segments[0].seq_no,
+      seq_to: segments[segments.length - 1].seq_no,
+      missing_seq: report.missing_seq,
+      time_gaps: report.time_gaps,
+      overlaps: report.overlaps
+    }
+  })
+  await markRecording(inputs.lecture_id, ctx)
+  return appended
+}
+
+// seq_no 要么全部提供且严格递增、大于已存储的最大值，要么全部省略并接在已存储的最大值之后编号
+function numberSegments(segments: AppendBatchInputs['segments'], lastSeq: number): TranscriptSegment[] {
+  const numbered = segments.filter((segment) => segment.seq_no !== undefined).length
+  if(numbered === 0) return segments.map((segment, index) => ({ ...segment, seq_no: lastSeq + index + 1 }))
+  if(numbered !== segments.length){
+    throw new LectureValidationError([{ path: 'segments', message: 'seq_no must be given for all segments or none' }])
+  }
+  const issues: LectureInputIssue[] = []
+  segments.forEach((segment, index) => {
+    const floor = index === 0 ? lastSeq : segments[index - 1].seq_no!
+    if(segment.seq_no! <= floor){
+      issues.push({
+        path: `segments.${index}.seq_no`,
+        message: index === 0 ? `seq_no must be greater than the last stored seq_no (${lastSeq})` : 'seq_no must be strictly increasing'
+      })
+    }
+  })
+  if(issues.length) throw new LectureValidationError(issues)
+  return segments
+}
+
+function indexOfSeq(segments: TranscriptSegment[], seqNo: number | undefined){
+  return Math.max(0, segments.findIndex((segment) => segment.seq_no === seqNo))
+}
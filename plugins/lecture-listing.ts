@@ -0,0 +1,165 @@
+import { z } from 'zod'
+import { ValidationError } from '../errors/validation.error.js'
+import { dataServiceRequest } from './runtime.js'
+import { trashEntriesOf, trashEntryOf } from './lecture-trash.js'
+import { lectureStatusSchema } from './lecture-status.js'
+import type { PluginContext } from '../types/index.js'
+
+// lecture.list / listLectures 的分页、过滤与排序。
+// 参数以查询字符串传给 Data Service；若 Data Service 仍返回未分页的完整列表，则在插件内按同样的规则过滤、排序与分页。
+// 回收站中的讲座默认不列出（见 lecture-trash.ts）；Data Service 已分页时继续读取后续页补足 limit，并从 total 中扣除调用方回收站中符合过滤条件的讲座
+
+export const SORT_FIELDS = ['created_at', 'updated_at', 'sessionName', 'courseCode'] as const
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+// 补足一页时最多读取的 Data Service 页数，达到上限时返回不足 limit 的一页与 next_cursor
+const MAX_UPSTREAM_PAGES = 10
+
+export const listLecturesSchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+  courseCode: z.string().min(1).optional(),
+  language: z.string().min(1).optional(),
+  // 状态名或对应的数字，以数字传给 Data Service
+  status: z.union([lectureStatusSchema, z.array(lectureStatusSchema).min(1)]).optional(),
+  // 按创建时间过滤，ISO 8601，含端点
+  created_from: z.string().datetime({ offset: true }).optional(),
+  created_to: z.string().datetime({ offset: true }).optional(),
+  sort: z.enum(SORT_FIELDS).default('created_at'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  // 为 true 时同时列出回收站中的讲座，并带上 deleted_at
+  include_trashed: z.boolean().default(false)
+}).refine(
+  (inputs) => !inputs.created_from || !inputs.created_to || Date.parse(inputs.created_from) <= Date.parse(inputs.created_to),
+  { message: 'created_from must not be later than created_to', path: ['created_from'] }
+)
+
+export type ListLecturesInputs = z.infer<typeof listLecturesSchema>
+
+export interface LecturePage {
+  items: unknown[]
+  next_cursor: string | null
+  total: number
+}
+
+// cursor 为 Data Service 的游标，由 listLectures 从插件游标中解出
+export function listLecturesPath(inputs: ListLecturesInputs, cursor?: string){
+  const query = new URLSearchParams()
+  for(const [key, value] of Object.entries({ ...inputs, cursor })){
+    // 回收站只存在于插件内，不传给 Data Service
+    if(value === undefined || key === 'include_trashed') continue
+    if(Array.isArray(value)){
+      for(const item of value) query.append(key, String(item))
+    } else {
+      query.set(key, String(value))
+    }
+  }
+  return `/lectures?${query.toString()}`
+}
+
+// 统一为 { items, next_cursor, total }。插件游标记录 Data Service 的游标与该页内已跳过的条数；
+// Data Service 未分页时记录本地偏移
+export async function listLectures(inputs: ListLecturesInputs, ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>): Promise<LecturePage> {
+  const position = inputs.cursor ? decodeCursor(inputs.cursor) : { upstream: undefined, skip: 0 }
+  const requestCtx = { userId: ctx.userId, requestId: ctx.requestId }
+  const items: unknown[] = []
+  let upstream = position.upstream
+  let skip = position.skip
+  let total: number | undefined
+  for(let page = 0; page < MAX_UPSTREAM_PAGES; page++){
+    const result: any = await dataServiceRequest(listLecturesPath(inputs, upstream), { method: 'GET', signal: ctx.signal }, requestCtx)
+    if(!Array.isArray(result?.items)){
+      const lectures = Array.isArray(result) ? result : Array.isArray(result?.lectures) ? result.lectures : []
+      return paginateLocally(withTrashState(lectures, inputs), inputs, position.skip)
+    }
+    total ??= typeof result.total === 'number' ? result.total - trashedMatching(inputs, ctx.userId) : undefined
+    const next = typeof result.next_cursor === 'string' && result.next_cursor ? result.next_cursor : null
+    for(let index = skip; index < result.items.length; index++){
+      if(items.length === inputs.limit){
+        return { items, next_cursor: encodeCursor({ upstream, skip: index }), total: total ?? items.length }
+      }
+      items.push(...withTrashState([result.items[index]], inputs))
+    }
+    if(!next) return { items, next_cursor: null, total: total ?? items.length }
+    upstream = next
+    skip = 0
+    if(items.length === inputs.limit) break
+  }
+  return { items, next_cursor: encodeCursor({ upstream, skip }), total: total ?? items.length }
+}
+
+function withTrashState(lectures: any[], inputs: ListLecturesInputs){
+  return lectures.flatMap((lecture) => {
+    const entry = typeof lecture?.lecture_id === 'string' ? trashEntryOf(lecture.lecture_id) : undefined
+    if(!entry) return [lecture]
+    return inputs.include_trashed ? [{ ...lecture, deleted_at: entry.deleted_at }] : []
+  })
+}
+
+// Data Service 的 total 包含回收站中的讲座；按移入回收站时记录的概要判断是否符合过滤条件
+function trashedMatching(inputs: ListLecturesInputs, ownerId: string | undefined){
+  if(inputs.include_trashed || !ownerId) return 0
+  return trashEntriesOf(ownerId).filter((entry) => matchesFilters(entry, inputs)).length
+}
+
+function matchesFilters(lecture: any, inputs: ListLecturesInputs){
+  const statuses = inputs.status === undefined ? undefined : [inputs.status].flat()
+  if(inputs.courseCode !== undefined && lecture?.courseCode !== inputs.courseCode) return false
+  if(inputs.language !== undefined && lecture?.language !== inputs.language) return false
+  if(statuses && !statuses.includes(lecture?.status)) return false
+  if(inputs.created_from || inputs.created_to){
+    const createdAt = Date.parse(lecture?.created_at)
+    if(Number.isNaN(createdAt)) return false
+    if(inputs.created_from && createdAt < Date.parse(inputs.created_from)) return false
+    if(inputs.created_to && createdAt > Date.parse(inputs.created_to)) return false
+  }
+  return true
+}
+
+function paginateLocally(lectures: any[], inputs: ListLecturesInputs, offset: number): LecturePage {
+  const matched = lectures.filter((lecture) => matchesFilters(lecture, inputs))
+
+  const direction = inputs.order === 'asc' ? 1 : -1
+  matched.sort((a, b) => direction * compareValues(a?.[inputs.sort], b?.[inputs.sort]))
+
+  const items = matched.slice(offset, offset + inputs.limit)
+  const nextOffset = offset + items.length
+  return {
+    items,
+    next_cursor: nextOffset < matched.length ? encodeCursor({ skip: nextOffset }) : null,
+    total: matched.length
+  }
+}
+
+// 空值排在最后；时间字段按时间比较，其余按字符串比较
+function compareValues(a: unknown, b: unknown){
+  if(a === b) return 0
+  if(a === undefined || a === null) return 1
+  if(b === undefined || b === null) return -1
+  const timeA = typeof a === 'string' ? Date.parse(a) : NaN
+  const timeB = typeof b === 'string' ? Date.parse(b) : NaN
+  if(!Number.isNaN(timeA) && !Number.isNaN(timeB)) return timeA - timeB
+  return String(a).localeCompare(String(b))
+}
+
+interface CursorPosition {
+  // Data Service 的游标，缺省为第一页
+  upstream?: string
+  // 该页内已返回或跳过的条数；Data Service 未分页时为本地偏移
+  skip: number
+}
+
+function encodeCursor(position: CursorPosition){
+  return Buffer.from(JSON.stringify(position)).toString('base64url')
+}
+
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const { upstream, skip } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if(Number.isInteger(skip) && skip >= 0 && (upstream === undefined || typeof upstream === 'string')) return { upstream, skip }
+  } catch {
+    // 落到下方统一报错
+  }
+  throw new ValidationError('invalid cursor')
+}
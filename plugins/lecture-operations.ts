@@ -0,0 +1,470 @@
+import { z } from 'zod'
+import { ValidationError } from '../errors/validation.error.js'
+import { SC } from '../constants/status-codes.js'
+import { dataServiceRequest } from './runtime.js'
+import { listLectures, listLecturesSchema } from './lecture-listing.js'
+import { appendSegment, deleteSegment, toTranscriptPage, transcriptPath, transcriptQuerySchema } from './lecture-transcript.js'
+import { exportLectureSchema, loadLectureExport } from './lecture-export.js'
+import { importLecture, importLectureSchema } from './lecture-import.js'
+import { appendBatchSchema, appendTranscriptionBatch, checkTranscriptionSchema, toIntegrityReport } from './lecture-integrity.js'
+import { forgetLectureList, indexLectureFields, indexSegments, searchLectures, searchLecturesSchema, unindexSegment } from './lecture-search.js'
+import { listTrash, moveToTrash, purgeLecture, restoreLecture, trashListSchema } from './lecture-trash.js'
+import {
+  diffReportVersions,
+  getReportVersion,
+  listReportVersions,
+  reportDiffSchema,
+  reportVersionSchema,
+  reportVersionsSchema,
+  restoreReportSchema,
+  restoreReportVersion,
+  upsertReport
+} from './lecture-reports.js'
+import { INITIAL_STATUSES, lectureStatusSchema, statusCode, statusName, updateLecture } from './lecture-status.js'
+import {
+  authorizeLecture,
+  getLectureMembers,
+  lectureMembersSchema,
+  ownerContext,
+  shareLecture,
+  shareLectureSchema,
+  unshareLecture,
+  unshareLectureSchema,
+  type LectureRole
+} from './lecture-access.js'
+import { LecturePartialWriteError, LectureValidationError } from './lecture-errors.js'
+import type { PluginOperationManifest } from './registry.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+
+// data.proxy 与 lecture.* 共用的讲座操作目录：每个操作的 schema 与 Data Service 路由只在这里定义一次。
+// 字段名以 Data Service 的字段为准，输入同时接受驼峰与下划线两种写法（lectureId / lecture_id）
+
+export interface LectureRoute {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE'
+  path: string
+  body?: unknown
+}
+
+export interface LectureOperation {
+  // lecture.* 的操作名，对应插件 `lecture.${name}`
+  name: string
+  // data.proxy 的操作名
+  proxyOperation: string
+  description: string
+  // 对象 schema，允许外层带 refine
+  schema: z.ZodObject<z.ZodRawShape> | z.ZodEffects<z.ZodObject<z.ZodRawShape>>
+  // 单次调用 Data Service 的路由；需要多次调用或组合结果的操作改用 load
+  route?: (inputs: any) => LectureRoute
+  // caller 为原始调用上下文：声明 access 的操作中 ctx.userId 已替换为讲座所有者
+  load?: (inputs: any, ctx: PluginContext, caller: PluginContext) => Promise<unknown>
+  // 调整 Data Service 的返回值，缺省时原样返回
+  respond?: (result: any, inputs: any) => unknown
+  // 调用成功后同步进程内的检索索引，见 lecture-search.ts；ctx 与 load 相同
+  sync?: (result: any, inputs: any, ctx: PluginContext) => void
+  // 按 lecture_id 校验的最低共享角色，校验通过后以讲座所有者的身份调用 Data Service，见 lecture-access.ts
+  access?: LectureRole
+  // 只作用于回收站中的讲座（恢复、彻底删除）；其余按 lecture_id 的操作不接受回收站中的讲座
+  inTrash?: boolean
+  mutating?: boolean
+  // 启用令牌校验时才生效，见 token-auth.ts
+  roles?: string[]
+}
+
+// ==================== Schema 定义 ====================
+
+const lectureId = z.string().min(1, 'lecture_id is required')
+
+const lectureFields = {
+  file_ids: z.array(z.string().min(1)).nullish(),
+  courseCode: z.string().nullish(),
+  language: z.string().nullish(),
+  sessionName: z.string().nullish(),
+  subtitle: z.string().nullish(),
+  description: z.string().nullish(),
+  outline: z.unknown().optional(),
+  audioDeviceId: z.string().nullish(),
+  audioDeviceLabel: z.string().nullish(),
+  audioReady: z.boolean().optional(),
+  // 状态名或对应的数字，见 lecture-status.ts；null 视为未提供，不修改状态
+  status: lectureStatusSchema.nullish().transform((value) => value ?? undefined)
+}
+
+const lectureRef = z.object({ lecture_id: lectureId })
+
+const segmentSchema = z.object({
+  lecture_id: lectureId,
+  t_start_ms: z.number().nonnegative(),
+  t_end_ms: z.number().nonnegative(),
+  content: z.string().min(1),
+  seq_no: z.number().positive().optional(),
+  start_at: z.string().optional(),
+  end_at: z.string().optional(),
+  // seq_no 已存在时返回 409 不写入，见 lecture-transcript.ts 的 appendSegment
+  if_absent: z.boolean().optional()
+})
+
+const segmentRef = z.object({ lecture_id: lectureId, seq_no: z.number().positive() })
+
+// ==================== 操作目录 ====================
+
+export const LECTURE_OPERATIONS: LectureOperation[] = [
+  {
+    name: 'list',
+    proxyOperation: 'listLectures',
+    description: '分页列出当前用户的讲座，支持按课程、语言、状态与创建时间过滤及排序',
+    schema: listLecturesSchema,
+    load: listLectures
+  },
+  {
+    name: 'get',
+    proxyOperation: 'getLecture',
+    description: '获取讲座详情',
+    schema: lectureRef,
+    route: ({ lecture_id }) => ({ method: 'GET', path: `/lectures/${lecture_id}` }),
+    access: 'viewer'
+  },
+  {
+    name: 'create',
+    proxyOperation: 'createLecture',
+    description: '创建讲座',
+    schema: z.object({ lecture_id: z.string().nullish(), ...lectureFields }).refine(
+      (inputs) => inputs.status === undefined || INITIAL_STATUSES.includes(statusName(inputs.status)!),
+      { message: `status must be one of ${INITIAL_STATUSES.join(', ')} when creating a lecture`, path: ['status'] }
+    ),
+    route: (inputs) => ({ method: 'POST', path: '/lectures', body: { ...inputs, status: inputs.status ?? statusCode('draft') } }),
+    sync: (result, inputs, ctx) => {
+      forgetLectureList(ctx.userId)
+      indexLectureFields({ ...inputs, ...(result?.lecture ?? result) })
+    },
+    mutating: true
+  },
+  {
+    name: 'update',
+    proxyOperation: 'updateLecture',
+    description: '更新讲座；修改 status 时按状态转换表校验',
+    schema: z.object({ lecture_id: lectureId, ...lectureFields }),
+    load: updateLecture,
+    sync: (result, inputs) => indexLectureFields({ ...inputs, ...(result?.lecture ?? result) }),
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'delete',
+    proxyOperation: 'deleteLecture',
+    description: '将讲座移入回收站，保留期内可恢复',
+    schema: lectureRef,
+    load: moveToTrash,
+    access: 'owner',
+    mutating: true,
+    roles: ['owner', 'instructor']
+  },
+  {
+    name: 'trash.list',
+    proxyOperation: 'listTrashedLectures',
+    description: '列出当前用户回收站中的讲座及其彻底删除时间',
+    schema: trashListSchema,
+    load: listTrash
+  },
+  {
+    name: 'restore',
+    proxyOperation: 'restoreLecture',
+    description: '从回收站恢复讲座',
+    schema: lectureRef,
+    load: restoreLecture,
+    access: 'owner',
+    inTrash: true,
+    mutating: true
+  },
+  {
+    name: 'purge',
+    proxyOperation: 'purgeLecture',
+    description: '彻底删除回收站中的讲座，不可恢复',
+    schema: lectureRef,
+    load: purgeLecture,
+    access: 'owner',
+    inTrash: true,
+    mutating: true,
+    roles: ['owner', 'instructor']
+  },
+  {
+    name: 'transcription.append',
+    proxyOperation: 'appendTranscription',
+    description: '追加转录片段',
+    schema: segmentSchema,
+    load: (inputs, ctx) => appendSegment(inputs, 'transcription', ctx),
+    sync: (_result, inputs) => indexSegments(inputs.lecture_id, 'transcript', [inputs]),
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'transcription.append-batch',
+    proxyOperation: 'appendTranscriptionBatch',
+    description: '批量追加转录片段，校验 seq_no 递增与时间不重叠，返回缺号与时间空档',
+    schema: appendBatchSchema,
+    load: appendTranscriptionBatch,
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'transcription.delete',
+    proxyOperation: 'deleteTranscription',
+    description: '按 seq_no 删除转录片段',
+    schema: segmentRef,
+    load: (inputs, ctx) => deleteSegment(inputs, 'transcription', ctx),
+    sync: (_result, inputs) => unindexSegment(inputs.lecture_id, 'transcript', inputs.seq_no),
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'transcription.check',
+    proxyOperation: 'checkTranscription',
+    description: '检查讲座转录的缺号、重号、乱序、重叠与时间空档',
+    schema: checkTranscriptionSchema,
+    route: ({ lecture_id }) => ({ method: 'GET', path: `/lectures/${lecture_id}/transcription` }),
+    respond: toIntegrityReport,
+    access: 'viewer'
+  },
+  {
+    name: 'transcription.list',
+    proxyOperation: 'getTranscription',
+    description: '按时间窗口或 seq 范围读取转录，支持原始片段与合并段落视图',
+    schema: transcriptQuerySchema,
+    route: (inputs) => ({ method: 'GET', path: transcriptPath(inputs) }),
+    respond: toTranscriptPage,
+    access: 'viewer'
+  },
+  {
+    name: 'export',
+    proxyOperation: 'exportLecture',
+    description: '将讲座转录导出为 SRT、WebVTT 或纯文本字幕，可附带阶段总结章节',
+    schema: exportLectureSchema,
+    load: loadLectureExport,
+    access: 'viewer'
+  },
+  {
+    name: 'import',
+    proxyOperation: 'importLecture',
+    description: '导入 SRT、WebVTT 或带时间戳的纯文本为转录片段，可按时间窗口生成阶段总结',
+    schema: importLectureSchema,
+    load: importLecture,
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'search',
+    proxyOperation: 'searchLectures',
+    description: '在当前用户的全部讲座中检索转录、阶段总结、报告、标题、描述与大纲，返回带高亮片段与时间戳的排序结果',
+    schema: searchLecturesSchema,
+    load: searchLectures
+  },
+  {
+    name: 'share',
+    proxyOperation: 'shareLecture',
+    description: '将讲座共享给其他用户（viewer / editor / owner），或创建会过期的只读分享链接',
+    // 共享操作需要调用方本人的身份，角色校验在 lecture-access.ts 内完成
+    schema: shareLectureSchema,
+    load: shareLecture,
+    mutating: true
+  },
+  {
+    name: 'unshare',
+    proxyOperation: 'unshareLecture',
+    description: '移除讲座成员或撤销分享链接',
+    schema: unshareLectureSchema,
+    load: unshareLecture,
+    mutating: true
+  },
+  {
+    name: 'members',
+    proxyOperation: 'getLectureMembers',
+    description: '列出讲座的所有者、成员与未过期的分享链接',
+    schema: lectureMembersSchema,
+    load: getLectureMembers
+  },
+  {
+    name: 'summary.append',
+    proxyOperation: 'appendSummary',
+    description: '追加阶段总结片段',
+    schema: segmentSchema,
+    load: (inputs, ctx) => appendSegment(inputs, 'transcription-summary', ctx),
+    sync: (_result, inputs) => indexSegments(inputs.lecture_id, 'summary', [inputs]),
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'summary.delete',
+    proxyOperation: 'deleteSummary',
+    description: '按 seq_no 删除阶段总结片段',
+    schema: segmentRef,
+    load: (inputs, ctx) => deleteSegment(inputs, 'transcription-summary', ctx),
+    sync: (_result, inputs) => unindexSegment(inputs.lecture_id, 'summary', inputs.seq_no),
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'report.upsert',
+    proxyOperation: 'upsertReport',
+    description: '写入或更新课程报告',
+    schema: z.object({ lecture_id: lectureId, seq_no: z.number().positive(), md: z.string().min(1) }),
+    load: upsertReport,
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'report.versions',
+    proxyOperation: 'listReportVersions',
+    description: '列出课程报告的历史版本（不含内容）',
+    schema: reportVersionsSchema,
+    load: listReportVersions,
+    access: 'viewer'
+  },
+  {
+    name: 'report.version',
+    proxyOperation: 'getReportVersion',
+    description: '获取课程报告的某个历史版本',
+    schema: reportVersionSchema,
+    load: getReportVersion,
+    access: 'viewer'
+  },
+  {
+    name: 'report.restore',
+    proxyOperation: 'restoreReportVersion',
+    description: '以某个历史版本的内容写入课程报告的新版本',
+    schema: restoreReportSchema,
+    load: restoreReportVersion,
+    access: 'editor',
+    mutating: true
+  },
+  {
+    name: 'report.diff',
+    proxyOperation: 'diffReportVersions',
+    description: '按章节比较课程报告的两个版本',
+    schema: reportDiffSchema,
+    load: diffReportVersions,
+    access: 'viewer'
+  },
+  {
+    name: 'background.get',
+    proxyOperation: 'getPostClassBackground',
+    description: '获取课后背景信息',
+    schema: lectureRef,
+    route: ({ lecture_id }) => ({ method: 'GET', path: `/lectures/${lecture_id}/post-class-background` }),
+    access: 'viewer'
+  },
+  {
+    name: 'stage-summaries.text',
+    proxyOperation: 'getStageSummariesText',
+    description: '获取阶段总结文本',
+    schema: lectureRef,
+    route: ({ lecture_id }) => ({ method: 'GET', path: `/lectures/${lecture_id}/stage-summaries-text` }),
+    access: 'viewer'
+  }
+]
+
+const byName = new Map(LECTURE_OPERATIONS.map((operation) => [operation.name, operation]))
+const byProxyOperation = new Map(LECTURE_OPERATIONS.map((operation) => [operation.proxyOperation, operation]))
+
+export function getLectureOperation(name: string){
+  return byName.get(name)
+}
+
+export function getLectureOperationByProxyName(proxyOperation: string){
+  return byProxyOperation.get(proxyOperation)
+}
+
+// manifest 中的 inputs 使用规范字段名；别名只在校验时接受
+export function lectureOperationManifest(operation: LectureOperation): PluginOperationManifest {
+  return {
+    description: operation.description,
+    inputs: operation.schema,
+    mutating: !!operation.mutating,
+    roles: operation.roles
+  }
+}
+
+// ==================== 校验与调用 ====================
+
+export function parseLectureInputs(operation: LectureOperation, inputs: unknown): Record<string, unknown> {
+  if(inputs !== undefined && (typeof inputs !== 'object' || inputs === null || Array.isArray(inputs))){
+    throw new LectureValidationError([{ path: '', message: 'inputs must be an object' }])
+  }
+  const shape = operation.schema instanceof z.ZodEffects ? operation.schema.innerType().shape : operation.schema.shape
+  const normalized = normalizeKeys((inputs ?? {}) as Record<string, unknown>, shape)
+  const parsed = operation.schema.safeParse(normalized)
+  if(!parsed.success){
+    throw new LectureValidationError(parsed.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    })))
+  }
+  return parsed.data
+}
+
+export async function callLectureOperation(operation: LectureOperation, inputs: unknown, ctx: PluginContext){
+  const parsed = parseLectureInputs(operation, inputs)
+  const requestCtx = operation.access
+    ? ownerContext(ctx, authorizeLecture(parsed.lecture_id as string, operation.access, ctx, { inTrash: operation.inTrash }))
+    : ctx
+  if(!requestCtx.userId) throw new ValidationError('missing user id')
+  const result = operation.load ? await operation.load(parsed, requestCtx, ctx) : await requestRoute(operation, parsed, requestCtx)
+  operation.sync?.(result, parsed, requestCtx)
+  return operation.respond ? operation.respond(result, parsed) : result
+}
+
+function requestRoute(operation: LectureOperation, inputs: Record<string, unknown>, ctx: PluginContext){
+  if(!operation.route) throw new Error(`lecture operation ${operation.name} has no route`)
+  const route = operation.route(inputs)
+  const init = { method: route.method, signal: ctx.signal, ...(route.body === undefined ? {} : { body: route.body }) }
+  return dataServiceRequest(route.path, init, { userId: ctx.userId, requestId: ctx.requestId })
+}
+
+// 校验错误 → 400（两类插件返回完全相同的 message 与 data.errors）；部分写入带 partial: true 返回；Data Service 的 4xx 原样透传；其余异常交给中间件
+export function lectureErrorResponse(error: any): PluginResponse {
+  if(error instanceof LectureValidationError){
+    return { status_code: SC.BAD_REQUEST, message: error.message, data: { errors: error.issues } }
+  }
+  if(error instanceof ValidationError){
+    return { status_code: SC.BAD_REQUEST, message: error.message, data: {} }
+  }
+  if(error instanceof LecturePartialWriteError){
+    return { status_code: error.statusCode, message: error.message, data: error.details, partial: true }
+  }
+  const status = typeof error?.statusCode === 'number' ? error.statusCode : undefined
+  if(status && status < 500){
+    return { status_code: status, message: error.message ?? 'data service error', data: error.details ?? {} }
+  }
+  throw error
+}
+
+// 将 lectureId / lecture_id 等别名映射到 schema 中的规范字段名；旧的单值 file_id 转为 file_ids
+function normalizeKeys(inputs: Record<string, unknown>, shape: z.ZodRawShape){
+  const result: Record<string, unknown> = {}
+  const sources: Record<string, string> = {}
+  for(const [key, raw] of Object.entries(inputs)){
+    let canonical = key
+    let value = raw
+    if(!(key in shape)){
+      const alternate = key.includes('_') ? toCamelCase(key) : toSnakeCase(key)
+      if(alternate in shape){
+        canonical = alternate
+      } else if((key === 'file_id' || key === 'fileId') && 'file_ids' in shape){
+        canonical = 'file_ids'
+        value = typeof raw === 'string' ? [raw] : raw
+      }
+    }
+    if(canonical in result && JSON.stringify(result[canonical]) !== JSON.stringify(value)){
+      throw new LectureValidationError([{ path: canonical, message: `conflicting values for ${sources[canonical]} and ${key}` }])
+    }
+    result[canonical] = value
+    sources[canonical] = key
+  }
+  return result
+}
+
+function toCamelCase(key: string){
+  return key.replace(/_([a-z0-9])/g, (_match, char: string) => char.toUpperCase())
+}
+
+function toSnakeCase(key: string){
+  return key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`)
+}
@@ -0,0 +1,342 @@
+import { z } from 'zod'
+import { dataServiceRequest } from './runtime.js'
+import { getPluginSettings } from './settings.js'
+import { createJsonLinesStore } from './json-store.js'
+import { LectureStateError, LectureValidationError } from './lecture-errors.js'
+import { verifyOwnership } from './lecture-access.js'
+import { indexReport } from './lecture-search.js'
+import { onLecturePurged } from './lecture-trash.js'
+import { PSC } from './status-codes.js'
+import type { PluginContext } from '../types/index.js'
+
+// 课程报告的版本历史：lecture.report.versions / version / restore / diff（data.proxy 的 listReportVersions 等）。
+// Data Service 每个 seq_no 只保存一份报告，课程总结固定写在 seq_no = 1；插件在每次写入 seq_no = 1 时另存一个版本，
+// 记录作者（模型生成或用户编辑）、模型名与时间。历史从本功能启用后的第一次写入开始，此前的报告不在历史中。
+// 版本按讲座追加写入 plugins.reports.storeDir 下的 JSONL 文件，每个讲座只保留最近 maxVersions 个版本。
+// 版本历史是附加记录：未配置 storeDir 或版本历史读写失败时，课程总结照常写入 Data Service，只是不记录版本
+
+export const COURSE_REPORT_SEQ_NO = 1
+
+const DEFAULT_MAX_VERSIONS = 50
+
+const lectureId = z.string().min(1, 'lecture_id is required')
+const versionNo = z.number().int().positive()
+
+export const reportVersionsSchema = z.object({ lecture_id: lectureId })
+
+export const reportVersionSchema = z.object({ lecture_id: lectureId, version: versionNo })
+
+export const restoreReportSchema = z.object({ lecture_id: lectureId, version: versionNo })
+
+export const reportDiffSchema = z.object({
+  lecture_id: lectureId,
+  from: versionNo,
+  // 缺省为最新版本
+  to: versionNo.optional()
+})
+
+export type ReportVersionsInputs = z.infer<typeof reportVersionsSchema>
+export type ReportVersionInputs = z.infer<typeof reportVersionSchema>
+export type RestoreReportInputs = z.infer<typeof restoreReportSchema>
+export type ReportDiffInputs = z.infer<typeof reportDiffSchema>
+
+export type ReportAuthor = 'model' | 'user'
+
+export interface ReportVersion {
+  version: number
+  author: ReportAuthor
+  // 触发写入的调用方；模型生成时为调用 audio.summary 的用户
+  user_id: string
+  model?: string
+  // 由 lecture.report.restore 恢复自该版本
+  restored_from?: number
+  created_at: string
+  md: string
+}
+
+// 与 audio.summary 的 OUTPUT_SCHEMA 对应
+export interface CourseSummaryReport {
+  sections: {
+    title: string
+    summary: string
+    items: {
+      heading: string
+      summary: string
+      details: { point: string; explanation: string; example: string }[]
+    }[]
+  }[]
+  next_actions: string[]
+}
+
+const store = createJsonLinesStore<ReportVersion>({
+  name: 'lecture-reports',
+  label: 'report history',
+  configured: () => getPluginSettings().reports?.storeDir
+})
+
+// ==================== 写入 ====================
+
+// 写入课程报告并记录新版本，返回 Data Service 的响应与新版本；未记录版本时 version 为 undefined。
+// 同一讲座的写入依次执行，版本顺序与 Data Service 的写入顺序一致；Data Service 写入失败时抛出且不记录，版本写入失败只记录日志
+export async function saveReport(
+  lectureId: string,
+  md: string,
+  meta: Pick<ReportVersion, 'author' | 'user_id' | 'model' | 'restored_from'>,
+  ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>
+){
+  return store.serialize(lectureId, async () => {
+    const recorded = await readRecorded(lectureId, ctx)
+    const result = await dataServiceRequest(
+      `/lectures/${lectureId}/report`,
+      { method: 'POST', signal: ctx.signal, body: { seq_no: COURSE_REPORT_SEQ_NO, md } },
+      { userId: ctx.userId, requestId: ctx.requestId }
+    )
+    indexReport(lectureId, COURSE_REPORT_SEQ_NO, md)
+    if(!recorded) return { result, version: undefined }
+    const version: ReportVersion = {
+      version: (recorded[recorded.length - 1]?.version ?? 0) + 1,
+      ...meta,
+      created_at: new Date().toISOString(),
+      md
+    }
+    try {
+      await appendVersion(lectureId, recorded, version)
+    } catch (error) {
+      logHistoryError('failed to record report version', lectureId, ctx, error)
+      return { result, version: undefined }
+    }
+    return { result, version }
+  })
+}
+
+// 文件中的全部版本（含超出 maxVersions、尚未压缩的版本）；未配置 storeDir 或读取失败时返回 undefined，本次不记录版本
+async function readRecorded(lectureId: string, ctx: Pick<PluginContext, 'requestId'>){
+  if(!store.path()) return undefined
+  try {
+    return await store.read(lectureId)
+  } catch (error) {
+    logHistoryError('failed to read report history', lectureId, ctx, error)
+    return undefined
+  }
+}
+
+function logHistoryError(message: string, lectureId: string, ctx: Pick<PluginContext, 'requestId'>, error: unknown){
+  console.error(`[lecture-reports] ${message}`, {
+    lectureId,
+    requestId: ctx.requestId,
+    error: error instanceof Error ? error.message : String(error)
+  })
+}
+
+// lecture.report.upsert：只有课程总结（seq_no = 1）记录版本，作者为调用方，响应中附带新版本号
+export async function upsertReport(inputs: { lecture_id: string; seq_no: number; md: string }, ctx: PluginContext, caller: PluginContext){
+  if(inputs.seq_no === COURSE_REPORT_SEQ_NO){
+    const { result, version } = await saveReport(inputs.lecture_id, inputs.md, { author: 'user', user_id: caller.userId! }, ctx)
+    return { ...(result as Record<string, unknown>), version: version?.version ?? null }
+  }
+  const result = await dataServiceRequest(
+    `/lectures/${inputs.lecture_id}/report`,
+    { method: 'POST', signal: ctx.signal, body: { seq_no: inputs.seq_no, md: inputs.md } },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  indexReport(inputs.lecture_id, inputs.seq_no, inputs.md)
+  return result
+}
+
+// ==================== 版本操作 ====================
+
+export async function listReportVersions(inputs: ReportVersionsInputs, ctx: PluginContext){
+  await verifyOwnership(inputs.lecture_id, ctx)
+  const history = await historyOf(inputs.lecture_id)
+  return {
+    lecture_id: inputs.lecture_id,
+    current_version: history[history.length - 1]?.version ?? null,
+    total: history.length,
+    versions: history.map(({ md: _md, ...version }) => version).reverse()
+  }
+}
+
+// report 为按 CourseSummaryReport 解析的内容，md 不是课程总结 JSON 时为 null
+export async function getReportVersion(inputs: ReportVersionInputs, ctx: PluginContext){
+  await verifyOwnership(inputs.lecture_id, ctx)
+  const version = versionOf(await historyOf(inputs.lecture_id), inputs.lecture_id, inputs.version)
+  return { lecture_id: inputs.lecture_id, ...version, report: parseReport(version.md) }
+}
+
+// 恢复即以该版本的内容写入一个新版本，历史不会被改写
+export async function restoreReportVersion(inputs: RestoreReportInputs, ctx: PluginContext, caller: PluginContext){
+  await verifyOwnership(inputs.lecture_id, ctx)
+  const source = versionOf(await historyOf(inputs.lecture_id), inputs.lecture_id, inputs.version)
+  const { version } = await saveReport(inputs.lecture_id, source.md, { author: 'user', user_id: caller.userId!, restored_from: source.version }, ctx)
+  // 版本写入失败时报告已恢复，但没有新版本
+  return version ? describeVersion(inputs.lecture_id, version) : { lecture_id: inputs.lecture_id, version: null, restored_from: source.version }
+}
+
+export async function diffReportVersions(inputs: ReportDiffInputs, ctx: PluginContext){
+  await verifyOwnership(inputs.lecture_id, ctx)
+  const history = await historyOf(inputs.lecture_id)
+  const to = inputs.to ?? history[history.length - 1]?.version ?? inputs.from
+  const before = reportOf(versionOf(history, inputs.lecture_id, inputs.from), 'from')
+  const after = reportOf(versionOf(history, inputs.lecture_id, to), 'to')
+  const sections = diffByKey(before.sections, after.sections, (section) => section.title.trim())
+    .map(({ key, from, to: next, fromIndex, toIndex }) => {
+      const entry = { title: key, change: 'unchanged' as SectionChange, from_index: fromIndex, to_index: toIndex }
+      if(!from) return { ...entry, change: 'added' as const }
+      if(!next) return { ...entry, change: 'removed' as const }
+      const fields = (['summary', 'items'] as const).filter((field) => !sameJson(from[field], next[field]))
+      if(!fields.length) return entry
+      return { ...entry, change: 'changed' as const, fields, items: diffItems(from.items, next.items) }
+    })
+  const count = (change: SectionChange) => sections.filter((section) => section.change === change).length
+  return {
+    lecture_id: inputs.lecture_id,
+    from: inputs.from,
+    to,
+    summary: { added: count('added'), removed: count('removed'), changed: count('changed'), unchanged: count('unchanged') },
+    sections,
+    next_actions: {
+      added: after.next_actions.filter((action) => !before.next_actions.includes(action)),
+      removed: before.next_actions.filter((action) => !after.next_actions.includes(action))
+    }
+  }
+}
+
+function describeVersion(lectureId: string, { md: _md, ...version }: ReportVersion){
+  return { lecture_id: lectureId, ...version }
+}
+
+function versionOf(history: ReportVersion[], lectureId: string, versionNo: number){
+  const version = history.find((entry) => entry.version === versionNo)
+  if(!version){
+    throw new LectureStateError(PSC.NOT_FOUND, 'report version not found', { lecture_id: lectureId, version: versionNo })
+  }
+  return version
+}
+
+// 讲座彻底删除后删除其版本历史文件
+onLecturePurged((lectureId) => {
+  if(!store.path()) return
+  store.serialize(lectureId, () => store.remove(lectureId)).catch((error) => {
+    console.error('[lecture-reports] failed to remove report history', {
+      lectureId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  })
+})
+
+// ==================== 差异比较 ====================
+
+type SectionChange = 'added' | 'removed' | 'changed' | 'unchanged'
+
+type ReportItem = CourseSummaryReport['sections'][number]['items'][number]
+
+interface KeyedPair<T> {
+  key: string
+  from?: T
+  to?: T
+  fromIndex: number | null
+  toIndex: number | null
+}
+
+function reportOf(version: ReportVersion, field: 'from' | 'to'){
+  const report = parseReport(version.md)
+  if(!report){
+    throw new LectureValidationError([{ path: field, message: `version ${version.version} is not a CourseSummaryReport` }])
+  }
+  return report
+}
+
+// 与 audio.summary 的 ensureReportStructure 相同，缺失的字段按空值处理
+function parseReport(md: string): CourseSummaryReport | null {
+  let value: any
+  try {
+    value = JSON.parse(md)
+  } catch {
+    return null
+  }
+  if(!value || typeof value !== 'object' || !Array.isArray(value.sections)) return null
+  return {
+    sections: value.sections.filter(isObject).map((section: any) => ({
+      title: stringOf(section.title),
+      summary: stringOf(section.summary),
+      items: (Array.isArray(section.items) ? section.items : []).filter(isObject).map((item: any) => ({
+        heading: stringOf(item.heading),
+        summary: stringOf(item.summary),
+        details: (Array.isArray(item.details) ? item.details : []).filter(isObject).map((detail: any) => ({
+          point: stringOf(detail.point),
+          explanation: stringOf(detail.explanation),
+          example: stringOf(detail.example)
+        }))
+      }))
+    })),
+    next_actions: Array.isArray(value.next_actions) ? value.next_actions.filter((action: unknown) => typeof action === 'string') : []
+  }
+}
+
+// 条目按 heading 对应，只列出标题
+function diffItems(before: ReportItem[], after: ReportItem[]){
+  const pairs = diffByKey(before, after, (item) => item.heading.trim())
+  return {
+    added: pairs.filter((pair) => !pair.from).map((pair) => pair.key),
+    removed: pairs.filter((pair) => !pair.to).map((pair) => pair.key),
+    changed: pairs.filter((pair) => pair.from && pair.to && !sameJson(pair.from, pair.to)).map((pair) => pair.key)
+  }
+}
+
+// 按 key 对应两侧的元素，重复的 key 按出现顺序依次对应；结果按新版本的顺序排列，删除的元素排在最后
+function diffByKey<T>(before: T[], after: T[], keyOf: (value: T) => string): KeyedPair<T>[] {
+  const remaining = new Map<string, number[]>()
+  before.forEach((value, index) => {
+    const key = keyOf(value)
+    remaining.set(key, [...(remaining.get(key) ?? []), index])
+  })
+  const pairs: KeyedPair<T>[] = after.map((value, toIndex) => {
+    const key = keyOf(value)
+    const fromIndex = remaining.get(key)?.shift()
+    return fromIndex === undefined
+      ? { key, to: value, fromIndex: null, toIndex }
+      : { key, from: before[fromIndex], to: value, fromIndex, toIndex }
+  })
+  const removed = [...remaining.values()].flat().sort((a, b) => a - b)
+  return [...pairs, ...removed.map((fromIndex) => ({ key: keyOf(before[fromIndex]), from: before[fromIndex], fromIndex, toIndex: null }))]
+}
+
+function sameJson(a: unknown, b: unknown){
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function isObject(value: unknown){
+  return !!value && typeof value === 'object'
+}
+
+function stringOf(value: unknown){
+  return typeof value === 'string' ? value : ''
+}
+
+// ==================== 持久化 ====================
+
+// 未配置存储目录时没有版本历史
+async function historyOf(lectureId: string){
+  if(!store.path()) return []
+  const history = await store.serialize(lectureId, () => store.read(lectureId))
+  return history.slice(-maxVersions())
+}
+
+// 平时只追加一行；文件中的版本达到 maxVersions 的两倍时改为只保留最近 maxVersions 个版本并重写文件
+async function appendVersion(lectureId: string, recorded: ReportVersion[], version: ReportVersion){
+  const max = maxVersions()
+  if(recorded.length + 1 >= max * 2){
+    await store.rewrite(lectureId, [...recorded, version].slice(-max))
+  } else {
+    await store.append(lectureId, version)
+  }
+}
+
+function maxVersions(){
+  return Math.max(1, getPluginSettings().reports?.maxVersions ?? DEFAULT_MAX_VERSIONS)
+}
+
+// 等待进行中的读写完成；版本历史不在内存中保存。供测试隔离用例
+export async function resetReportHistory(){
+  await store.reset()
+}
@@ -0,0 +1,528 @@
+import { z } from 'zod'
+import { dataServiceRequest } from './runtime.js'
+import { listLectures, listLecturesSchema } from './lecture-listing.js'
+import { segmentsOf, type TranscriptSegment } from './lecture-transcript.js'
+import { onLecturePurged, trashEntryOf } from './lecture-trash.js'
+import { memberLectures } from './lecture-access.js'
+import { getPluginSettings } from './settings.js'
+import type { PluginContext } from '../types/index.js'
+
+// lecture.search / searchLectures：在当前用户创建的讲座与作为成员共享给该用户的讲座中检索转录、阶段总结、报告、sessionName、description 与 outline。
+// 倒排索引按讲座保存在进程内：经插件追加的片段、总结与报告即时写入索引；首次检索到的讲座从 Data Service 读取转录与阶段总结补齐，
+// 每次检索只同步补齐少量讲座，其余在后台补齐。索引最多保存 search.maxLectures 个讲座，超出时淘汰最久未使用的讲座。
+// IDF 与平均文档长度只按调用方可检索的讲座计算，其他用户的讲座不影响排序。
+// 英文按单词切分并做简单的复数归一，中日韩文字按单字与相邻双字切分；排序使用 BM25，并按查询词覆盖率与字段权重加权
+
+export const SEARCH_FIELDS = ['transcript', 'summary', 'report', 'sessionName', 'description', 'outline'] as const
+
+export type SearchField = typeof SEARCH_FIELDS[number]
+
+export const searchLecturesSchema = z.object({
+  query: z.string().trim().min(1, 'query is required').max(200, 'query too long'),
+  fields: z.array(z.enum(SEARCH_FIELDS)).min(1).optional(),
+  lecture_id: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(50).default(10),
+  hits_per_lecture: z.number().int().min(1).max(10).default(3)
+})
+
+export type SearchLecturesInputs = z.infer<typeof searchLecturesSchema>
+
+export interface SearchHit {
+  field: SearchField
+  snippet: string
+  // snippet 中命中词的 [start, end) 区间
+  highlights: [number, number][]
+  score: number
+  t_start_ms?: number
+  seq_no?: number
+}
+
+export interface SearchResult {
+  lecture_id: string
+  sessionName?: string
+  score: number
+  hits: SearchHit[]
+}
+
+interface SearchDocument {
+  id: number
+  lectureId: string
+  field: SearchField
+  text: string
+  length: number
+  tf: Map<string, number>
+  t_start_ms?: number
+  seq_no?: number
+  // 报告按 seq_no 覆盖写入
+  key?: string
+}
+
+interface IndexedLecture {
+  sessionName?: string
+  docs: Map<number, SearchDocument>
+  postings: Map<string, Set<number>>
+  totalLength: number
+  // 是否已从 Data Service 补齐转录与阶段总结
+  hydrated: boolean
+}
+
+interface ListedLecture {
+  lecture: any
+  // 读取该讲座时调用 Data Service 使用的 userId，共享讲座为所有者
+  ownerId: string
+}
+
+interface CachedLectureList {
+  // 未排除回收站中的讲座与已撤销的共享，检索时按当前状态过滤
+  lectures: ListedLecture[]
+  // 列出时调用方作为成员的讲座，出现新的共享时提前刷新
+  sharedIds: Set<string>
+  expiresAt: number
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  sessionName: 3,
+  description: 1.5,
+  outline: 1.5,
+  summary: 1.5,
+  report: 1.2,
+  transcript: 1
+}
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+const SNIPPET_CHARS = 80
+const SNIPPET_LEAD_CHARS = 20
+const LIST_PAGE_SIZE = 100
+const DEFAULT_MAX_LECTURES = 500
+const DEFAULT_LIST_TTL_MS = 30_000
+const MAX_CACHED_LISTS = 1000
+// 单次检索内同步补齐的讲座数
+const INLINE_HYDRATIONS = 5
+
+const CJK_RANGES = '\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff'
+const TOKEN_PATTERN = new RegExp(`[${CJK_RANGES}]+|[\\p{L}\\p{N}]+`, 'gu')
+const CJK_RUN = new RegExp(`^[${CJK_RANGES}]`)
+
+// 按最近使用排序（Map 的插入顺序），淘汰时从头部开始
+const lectures = new Map<string, IndexedLecture>()
+const lectureLists = new Map<string, CachedLectureList>()
+const queuedHydrations = new Set<string>()
+let background: Promise<void> = Promise.resolve()
+// resetSearchIndex 后递增，丢弃重置前排队的后台补齐
+let generation = 0
+let nextDocumentId = 1
+
+// ==================== 分词 ====================
+
+interface Token {
+  term: string
+  start: number
+  end: number
+}
+
+// 中日韩连续文字产生单字与相邻双字两种词项，其余按字母数字串切分并小写
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for(const match of text.matchAll(TOKEN_PATTERN)){
+    const run = match[0]
+    const offset = match.index ?? 0
+    if(CJK_RUN.test(run)){
+      const chars = [...run]
+      let position = offset
+      chars.forEach((char, index) => {
+        tokens.push({ term: char, start: position, end: position + char.length })
+        if(index + 1 < chars.length){
+          tokens.push({ term: char + chars[index + 1], start: position, end: position + char.length + chars[index + 1].length })
+        }
+        position += char.length
+      })
+    } else {
+      tokens.push({ term: normalizeWord(run.toLowerCase()), start: offset, end: offset + run.length })
+    }
+  }
+  return tokens
+}
+
+// 查询词：中日韩文字只取双字（单字查询取单字），避免单字匹配过多无关内容
+function queryTerms(query: string){
+  const terms = new Set<string>()
+  for(const match of query.matchAll(TOKEN_PATTERN)){
+    const run = match[0]
+    if(CJK_RUN.test(run)){
+      const chars = [...run]
+      if(chars.length === 1) terms.add(chars[0])
+      for(let i = 0; i + 1 < chars.length; i++) terms.add(chars[i] + chars[i + 1])
+    } else {
+      terms.add(normalizeWord(run.toLowerCase()))
+    }
+  }
+  return [...terms]
+}
+
+function normalizeWord(word: string){
+  if(word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if(word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+// ==================== 索引维护 ====================
+
+// 取出讲座的索引并标记为最近使用；新建条目后按 maxLectures 淘汰最久未使用的讲座
+function lectureEntry(lectureId: string){
+  let entry = lectures.get(lectureId)
+  if(entry){
+    lectures.delete(lectureId)
+    lectures.set(lectureId, entry)
+    return entry
+  }
+  entry = { docs: new Map(), postings: new Map(), totalLength: 0, hydrated: false }
+  lectures.set(lectureId, entry)
+  const max = maxLectures()
+  for(const oldest of lectures.keys()){
+    if(lectures.size <= max) break
+    lectures.delete(oldest)
+  }
+  return entry
+}
+
+function addDocument(lectureId: string, field: SearchField, text: string, extra: Pick<SearchDocument, 't_start_ms' | 'seq_no' | 'key'> = {}){
+  if(!text.trim()) return
+  const tf = new Map<string, number>()
+  const tokens = tokenize(text)
+  for(const { term } of tokens) tf.set(term, (tf.get(term) ?? 0) + 1)
+  const document: SearchDocument = { id: nextDocumentId++, lectureId, field, text, length: tokens.length, tf, ...extra }
+  const entry = lectureEntry(lectureId)
+  entry.docs.set(document.id, document)
+  entry.totalLength += document.length
+  for(const term of tf.keys()){
+    let ids = entry.postings.get(term)
+    if(!ids){
+      ids = new Set()
+      entry.postings.set(term, ids)
+    }
+    ids.add(document.id)
+  }
+}
+
+function removeDocuments(lectureId: string, predicate: (document: SearchDocument) => boolean){
+  const entry = lectures.get(lectureId)
+  if(!entry) return
+  for(const document of [...entry.docs.values()]){
+    if(!predicate(document)) continue
+    entry.docs.delete(document.id)
+    entry.totalLength -= document.length
+    for(const term of document.tf.keys()){
+      const ids = entry.postings.get(term)
+      ids?.delete(document.id)
+      if(ids && !ids.size) entry.postings.delete(term)
+    }
+  }
+}
+
+export function indexSegments(lectureId: string, field: 'transcript' | 'summary', segments: TranscriptSegment[]){
+  for(const segment of segments){
+    addDocument(lectureId, field, field === 'summary' ? collectText(segment.content) : segment.content, {
+      t_start_ms: segment.t_start_ms,
+      seq_no: segment.seq_no
+    })
+  }
+}
+
+// 片段被删除（例如工作流补偿）后移除对应的索引文档
+export function unindexSegment(lectureId: string, field: 'transcript' | 'summary', seqNo: number){
+  removeDocuments(lectureId, (document) => document.field === field && document.seq_no === seqNo)
+}
+
+export function indexReport(lectureId: string, seqNo: number, md: string){
+  const key = `report:${seqNo}`
+  removeDocuments(lectureId, (document) => document.key === key)
+  addDocument(lectureId, 'report', collectText(md), { key })
+}
+
+// 讲座的 sessionName / description / outline；未提供的字段保留原有索引
+export function indexLectureFields(lecture: any){
+  const lectureId = lecture?.lecture_id
+  if(typeof lectureId !== 'string' || !lectureId) return
+  updateLectureFields(lecture)
+}
+
+function updateLectureFields(lecture: any){
+  const lectureId: string = lecture.lecture_id
+  const entry = lectureEntry(lectureId)
+  for(const field of ['sessionName', 'description', 'outline'] as const){
+    if(lecture[field] === undefined) continue
+    removeDocuments(lectureId, (document) => document.field === field)
+    addDocument(lectureId, field, collectText(lecture[field]))
+  }
+  if(typeof lecture.sessionName === 'string') entry.sessionName = lecture.sessionName
+  return entry
+}
+
+// 经插件新建讲座后清空创建者的讲座列表缓存，下次检索即可命中
+export function forgetLectureList(userId: string | undefined){
+  if(userId) lectureLists.delete(userId)
+}
+
+// 回收站中的讲座在检索时按回收站状态排除；彻底删除后才移出索引与各用户的列表缓存
+onLecturePurged((lectureId) => {
+  lectures.delete(lectureId)
+  for(const cached of lectureLists.values()){
+    cached.lectures = cached.lectures.filter(({ lecture }) => lecture.lecture_id !== lectureId)
+  }
+})
+
+// 阶段总结、报告与 outline 可能是 JSON，只索引其中的字符串值
+function collectText(value: unknown): string {
+  if(typeof value === 'string'){
+    const trimmed = value.trim()
+    if(trimmed.startsWith('{') || trimmed.startsWith('[')){
+      try {
+        return collectText(JSON.parse(trimmed))
+      } catch {
+        return value
+      }
+    }
+    return value
+  }
+  if(Array.isArray(value)) return value.map(collectText).filter(Boolean).join('\n')
+  if(value && typeof value === 'object') return Object.values(value).map(collectText).filter(Boolean).join('\n')
+  return ''
+}
+
+// ==================== 检索 ====================
+
+// 未补齐的讲座超出 INLINE_HYDRATIONS 时结果可能不完整，pending 为仍在后台补齐的讲座数，稍后重试即可
+export async function searchLectures(inputs: SearchLecturesInputs, ctx: PluginContext){
+  const listed = await listSearchableLectures(inputs, ctx)
+  const unhydrated: ListedLecture[] = []
+  for(const item of listed){
+    // 缓存中的讲座字段可能已被经插件的更新覆盖，只为不在索引中的讲座写入
+    const lectureId: string = item.lecture.lecture_id
+    const entry = lectures.has(lectureId) ? lectureEntry(lectureId) : updateLectureFields(item.lecture)
+    if(!entry.hydrated) unhydrated.push(item)
+  }
+  // 同步补齐失败的讲座留待下次检索重试
+  await Promise.all(unhydrated.slice(0, INLINE_HYDRATIONS).map(({ lecture, ownerId }) =>
+    hydrateLecture(lecture.lecture_id, { userId: ownerId, requestId: ctx.requestId }, ctx.signal).catch((error) => {
+      logHydrationFailure(lecture.lecture_id, ctx, error)
+    })
+  ))
+  for(const { lecture, ownerId } of unhydrated.slice(INLINE_HYDRATIONS)){
+    scheduleHydration(lecture.lecture_id, { userId: ownerId, requestId: ctx.requestId })
+  }
+
+  // 淘汰可能移除了本次检索前面已登记的讲座，只在仍留在索引中的讲座内检索
+  const candidates = listed.flatMap(({ lecture }) => {
+    const entry = lectures.get(lecture.lecture_id)
+    return entry ? [{ lectureId: lecture.lecture_id as string, entry }] : []
+  })
+  const documentCount = candidates.reduce((sum, { entry }) => sum + entry.docs.size, 0)
+  const totalLength = candidates.reduce((sum, { entry }) => sum + entry.totalLength, 0)
+  const averageLength = documentCount ? totalLength / documentCount : 1
+
+  const terms = queryTerms(inputs.query)
+  const fields = inputs.fields ? new Set<SearchField>(inputs.fields) : undefined
+  const scores = new Map<SearchDocument, { score: number; matched: number }>()
+  for(const term of terms){
+    const matching = candidates.flatMap(({ entry }) => {
+      const ids = entry.postings.get(term)
+      return ids ? [...ids].map((id) => entry.docs.get(id)!) : []
+    })
+    if(!matching.length) continue
+    const idf = Math.log(1 + (documentCount - matching.length + 0.5) / (matching.length + 0.5))
+    for(const document of matching){
+      if(fields && !fields.has(document.field)) continue
+      const tf = document.tf.get(term)!
+      const weight = idf * tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength))
+      const current = scores.get(document) ?? { score: 0, matched: 0 }
+      scores.set(document, { score: current.score + weight, matched: current.matched + 1 })
+    }
+  }
+
+  // 按查询词覆盖率的平方加权，命中全部查询词的文档优先
+  const byLecture = new Map<string, { document: SearchDocument; score: number }[]>()
+  for(const [document, { score, matched }] of scores){
+    const coverage = matched / terms.length
+    const hits = byLecture.get(document.lectureId) ?? []
+    hits.push({ document, score: score * coverage * coverage * FIELD_WEIGHTS[document.field] })
+    byLecture.set(document.lectureId, hits)
+  }
+
+  const results: SearchResult[] = [...byLecture.entries()].map(([lectureId, hits]) => {
+    const top = hits.sort((a, b) => b.score - a.score).slice(0, inputs.hits_per_lecture)
+    return {
+      lecture_id: lectureId,
+      sessionName: lectures.get(lectureId)?.sessionName,
+      score: round(top.reduce((sum, hit) => sum + hit.score, 0)),
+      hits: top.map(({ document, score }) => toHit(document, score, terms))
+    }
+  }).sort((a, b) => b.score - a.score)
+
+  const pending = unhydrated.filter(({ lecture }) => !lectures.get(lecture.lecture_id)?.hydrated).length
+  return { query: inputs.query, items: results.slice(0, inputs.limit), total: results.length, ...(pending ? { pending } : {}) }
+}
+
+// 讲座列表按用户缓存 listTtlMs，最多 maxLectures 个；回收站状态与成员资格每次检索时重新判断，已彻底删除的讲座在清理时移出缓存
+async function listSearchableLectures(inputs: SearchLecturesInputs, ctx: PluginContext){
+  const userId = ctx.userId!
+  const shared = new Map(memberLectures(userId).map((grant) => [grant.lecture_id, grant.owner_id]))
+  let cached = lectureLists.get(userId)
+  if(!cached || cached.expiresAt <= Date.now() || [...shared.keys()].some((lectureId) => !cached!.sharedIds.has(lectureId))){
+    cached = {
+      lectures: await fetchLectureList(shared, ctx),
+      sharedIds: new Set(shared.keys()),
+      expiresAt: Date.now() + listTtlMs()
+    }
+    for(const { lecture } of cached.lectures) updateLectureFields(lecture)
+    lectureLists.delete(userId)
+    lectureLists.set(userId, cached)
+    for(const oldest of lectureLists.keys()){
+      if(lectureLists.size <= MAX_CACHED_LISTS) break
+      lectureLists.delete(oldest)
+    }
+  }
+  const listed = cached.lectures.filter(({ lecture, ownerId }) =>
+    !trashEntryOf(lecture.lecture_id) && (ownerId === userId || shared.get(lecture.lecture_id) === ownerId)
+  )
+  return inputs.lecture_id ? listed.filter(({ lecture }) => lecture.lecture_id === inputs.lecture_id) : listed
+}
+
+// 先分页列出调用方创建的讲座，再以所有者身份逐个读取共享给调用方的讲座；读取失败的共享讲座跳过
+async function fetchLectureList(shared: Map<string, string>, ctx: PluginContext): Promise<ListedLecture[]> {
+  const userId = ctx.userId!
+  const max = maxLectures()
+  const owned: any[] = []
+  let cursor: string | undefined
+  while(owned.length < max){
+    const query = listLecturesSchema.parse({ limit: LIST_PAGE_SIZE, cursor, include_trashed: true })
+    const lecturePage = await listLectures(query, ctx)
+    owned.push(...lecturePage.items.filter((lecture: any) => typeof lecture?.lecture_id === 'string'))
+    if(!lecturePage.next_cursor) break
+    cursor = lecturePage.next_cursor
+  }
+  const listed = owned.slice(0, max).map((lecture) => ({ lecture, ownerId: userId }))
+  const ownedIds = new Set(listed.map(({ lecture }) => lecture.lecture_id))
+  const others = [...shared].filter(([lectureId]) => !ownedIds.has(lectureId)).slice(0, max - listed.length)
+  const fetched = await Promise.all(others.map(async ([lectureId, ownerId]) => {
+    try {
+      const result: any = await dataServiceRequest(`/lectures/${lectureId}`, { method: 'GET', signal: ctx.signal }, { userId: ownerId, requestId: ctx.requestId })
+      const lecture = result?.lecture ?? result
+      return [{ lecture: { ...lecture, lecture_id: lectureId }, ownerId }]
+    } catch (error) {
+      if(ctx.signal?.aborted) throw error
+      console.warn('[lecture-search] skipping shared lecture', {
+        lectureId,
+        requestId: ctx.requestId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return []
+    }
+  }))
+  return [...listed, ...fetched.flat()]
+}
+
+// 以 Data Service 中的转录与阶段总结替换索引中已有的部分；报告没有读取接口，保留经插件写入的索引
+async function hydrateLecture(lectureId: string, ctx: Pick<PluginContext, 'userId' | 'requestId'>, signal?: AbortSignal){
+  const requestCtx = { userId: ctx.userId, requestId: ctx.requestId }
+  const [transcript, background]: any[] = await Promise.all([
+    dataServiceRequest(`/lectures/${lectureId}/transcription`, { method: 'GET', signal }, requestCtx),
+    dataServiceRequest(`/lectures/${lectureId}/post-class-background`, { method: 'GET', signal }, requestCtx)
+  ])
+  removeDocuments(lectureId, (document) => document.field === 'transcript' || document.field === 'summary')
+  indexSegments(lectureId, 'transcript', segmentsOf(transcript))
+  indexSegments(lectureId, 'summary', segmentsOf(background?.stage_summaries))
+  lectureEntry(lectureId).hydrated = true
+}
+
+// 后台逐个补齐，不使用调用方的 signal；同一讲座只排队一次，失败时同样留待下次检索重试
+function scheduleHydration(lectureId: string, requestCtx: Pick<PluginContext, 'userId' | 'requestId'>){
+  if(queuedHydrations.has(lectureId)) return
+  queuedHydrations.add(lectureId)
+  const scheduledIn = generation
+  background = background.then(async () => {
+    if(scheduledIn !== generation) return
+    queuedHydrations.delete(lectureId)
+    // 排队期间已被淘汰、彻底删除或由其他检索补齐的讲座不再读取
+    if(lectures.get(lectureId)?.hydrated !== false) return
+    try {
+      await hydrateLecture(lectureId, requestCtx)
+    } catch (error) {
+      logHydrationFailure(lectureId, requestCtx, error)
+    }
+  })
+}
+
+function logHydrationFailure(lectureId: string, ctx: Pick<PluginContext, 'requestId'>, error: unknown){
+  console.error('[lecture-search] failed to hydrate lecture', {
+    lectureId,
+    requestId: ctx.requestId,
+    error: error instanceof Error ? error.message : String(error)
+  })
+}
+
+function maxLectures(){
+  return Math.max(1, getPluginSettings().search?.maxLectures ?? DEFAULT_MAX_LECTURES)
+}
+
+function listTtlMs(){
+  return getPluginSettings().search?.listTtlMs ?? DEFAULT_LIST_TTL_MS
+}
+
+function toHit(document: SearchDocument, score: number, terms: string[]): SearchHit {
+  const wanted = new Set(terms)
+  const ranges = mergeRanges(tokenize(document.text).filter((token) => wanted.has(token.term)).map((token) => [token.start, token.end]))
+  const { snippet, highlights } = buildSnippet(document.text, ranges)
+  return {
+    field: document.field,
+    snippet,
+    highlights,
+    score: round(score),
+    ...(document.t_start_ms !== undefined ? { t_start_ms: document.t_start_ms } : {}),
+    ...(document.seq_no !== undefined ? { seq_no: document.seq_no } : {})
+  }
+}
+
+function mergeRanges(ranges: [number, number][]){
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: [number, number][] = []
+  for(const [start, end] of sorted){
+    const last = merged[merged.length - 1]
+    if(last && start <= last[1]) last[1] = Math.max(last[1], end)
+    else merged.push([start, end])
+  }
+  return merged
+}
+
+// 从第一个命中词前 SNIPPET_LEAD_CHARS 个字符开始截取，截断处以 … 标出
+function buildSnippet(source: string, ranges: [number, number][]){
+  // 逐字替换空白，保持偏移不变
+  const text = source.replace(/\s/g, ' ')
+  const start = Math.max(0, Math.min((ranges[0]?.[0] ?? 0) - SNIPPET_LEAD_CHARS, text.length - SNIPPET_CHARS))
+  const end = Math.min(text.length, start + SNIPPET_CHARS)
+  const prefix = start > 0 ? '…' : ''
+  const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+  const highlights = ranges
+    .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+    .map(([rangeStart, rangeEnd]) => [rangeStart - start + prefix.length, rangeEnd - start + prefix.length] as [number, number])
+  return { snippet, highlights }
+}
+
+function round(value: number){
+  return Math.round(value * 1000) / 1000
+}
+
+// 等待已排队的后台补齐完成，供测试使用
+export function whenHydrated(){
+  return background
+}
+
+// 清空整个索引与列表缓存并丢弃排队中的后台补齐，供测试隔离用例
+export async function resetSearchIndex(){
+  generation++
+  lectures.clear()
+  lectureLists.clear()
+  queuedHydrations.clear()
+  nextDocumentId = 1
+  await background
+}
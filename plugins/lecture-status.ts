@@ -0,0 +1,194 @@
+import { z } from 'zod'
+import { dataServiceRequest } from './runtime.js'
+import { LectureStateError } from './lecture-errors.js'
+import { createKeyedQueue } from './keyed-queue.js'
+import { PSC } from './status-codes.js'
+import type { PluginContext } from '../types/index.js'
+
+// 讲座状态：Data Service 的 status 字段仍保存数字，插件把它映射为具名状态并限制状态之间的转换。
+// 输入同时接受状态名与对应的数字；lecture.update / updateLecture 修改 status 时按 TRANSITIONS 校验，成功后发出状态变更事件。
+// 状态为空或不在映射中的旧讲座不受转换限制，第一次设置状态后才开始校验。
+// 经插件写入转录（单条、批量、导入、工作流）后，draft / materials_ready 的讲座自动推进到 recording，见 markRecording。
+// 修改状态需要先读取当前状态再 PATCH，同一讲座的状态修改在进程内串行执行；多个插件进程之间仍可能交错，见 README
+
+export const LECTURE_STATUSES = ['draft', 'materials_ready', 'recording', 'processing', 'summarized', 'archived'] as const
+
+export type LectureStatus = typeof LECTURE_STATUSES[number]
+
+// 新建讲座只能处于的状态，缺省为 draft
+export const INITIAL_STATUSES: LectureStatus[] = ['draft', 'materials_ready']
+
+const TRANSITIONS: Record<LectureStatus, LectureStatus[]> = {
+  draft: ['materials_ready', 'recording', 'archived'],
+  materials_ready: ['draft', 'recording', 'archived'],
+  // 录制结束后进入处理（生成课程总结）
+  recording: ['processing'],
+  // 处理中可以回到录制继续追加转录
+  processing: ['recording', 'summarized'],
+  // 重新生成课程总结时回到处理
+  summarized: ['processing', 'archived'],
+  // 取消归档
+  archived: ['draft', 'materials_ready', 'summarized']
+}
+
+// 状态名或对应的数字，统一转换为 Data Service 保存的数字
+export const lectureStatusSchema = z.union([
+  z.enum(LECTURE_STATUSES),
+  z.number().int().min(0).max(LECTURE_STATUSES.length - 1)
+], {
+  errorMap: () => ({ message: `status must be one of ${LECTURE_STATUSES.join(', ')} or 0-${LECTURE_STATUSES.length - 1}` })
+}).transform((value) => typeof value === 'number' ? value : LECTURE_STATUSES.indexOf(value))
+
+export interface LectureStatusChange {
+  lecture_id: string
+  // 旧讲座没有可识别的状态时为 null
+  from: LectureStatus | null
+  to: LectureStatus
+  // 讲座所有者
+  owner_id: string
+  changed_at: string
+}
+
+type StatusListener = (change: LectureStatusChange) => void
+
+const statusListeners: StatusListener[] = []
+// 同一讲座的状态修改依次执行
+const statusQueue = createKeyedQueue()
+// 已确认不处于 draft / materials_ready 的讲座，再次写入转录时不必读取状态；经插件改回这两个状态时移除。
+// 直接在 Data Service 中修改的状态不会反映到这里
+const recordingStarted = new Set<string>()
+
+// 状态变更成功写入 Data Service 后通知；监听器抛出的异常只记录，不影响本次更新
+export function onLectureStatusChanged(listener: StatusListener){
+  statusListeners.push(listener)
+}
+
+export function statusName(value: unknown): LectureStatus | null {
+  return typeof value === 'number' && Number.isInteger(value) ? LECTURE_STATUSES[value] ?? null : null
+}
+
+export function statusCode(status: LectureStatus){
+  return LECTURE_STATUSES.indexOf(status)
+}
+
+export function canTransition(from: LectureStatus | null, to: LectureStatus){
+  return from === null || from === to || TRANSITIONS[from].includes(to)
+}
+
+export function assertTransition(lectureId: string, from: LectureStatus | null, to: LectureStatus){
+  if(canTransition(from, to)) return
+  throw new LectureStateError(PSC.CONFLICT, `cannot change lecture status from ${from} to ${to}`, {
+    lecture_id: lectureId,
+    status: from,
+    requested: to,
+    allowed: from ? TRANSITIONS[from] : [...LECTURE_STATUSES]
+  })
+}
+
+// 要求讲座当前处于 allowed 中的某个状态（旧讲座不受限制），返回当前状态
+export function assertLectureStatus(lectureId: string, lecture: any, allowed: LectureStatus[], message: string){
+  const current = statusName(lecture?.status)
+  if(current !== null && !allowed.includes(current)){
+    throw new LectureStateError(PSC.CONFLICT, message, { lecture_id: lectureId, status: current, allowed })
+  }
+  return current
+}
+
+// ==================== 状态变更 ====================
+
+// lecture.update：ctx.userId 为讲座所有者；只有修改 status 时才需要先读取当前状态，并与同一讲座的其他状态修改串行执行
+export async function updateLecture(inputs: Record<string, unknown> & { lecture_id: string }, ctx: PluginContext){
+  const { lecture_id: lectureId, status, ...rest } = inputs
+  // status 为 null 时 schema 已转换为 undefined，不随 PATCH 发出
+  const fields = status === undefined ? rest : { ...rest, status }
+  const to = status === undefined ? undefined : statusName(status)
+  const patch = () => dataServiceRequest(
+    `/lectures/${lectureId}`,
+    { method: 'PATCH', signal: ctx.signal, body: fields },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  if(!to) return patch()
+  return statusQueue.run(lectureId, async () => {
+    const from = statusName(lectureOf(await fetchLecture(lectureId, ctx))?.status)
+    assertTransition(lectureId, from, to)
+    const result = await patch()
+    if(to !== from) emitStatusChange(lectureId, from, to, ctx)
+    return result
+  })
+}
+
+// 供插件自动推进状态；讲座已处于目标状态时不做任何修改，返回新状态是否写入。
+// 调用方已读取的 lecture 只在没有排队的状态修改时使用，否则重新读取
+export async function advanceLectureStatus(lectureId: string, to: LectureStatus, ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>, lecture?: any){
+  const current = statusQueue.has(lectureId) ? undefined : lecture
+  return statusQueue.run(lectureId, async () => {
+    const from = statusName(lectureOf(current ?? await fetchLecture(lectureId, ctx))?.status)
+    if(from === to) return false
+    assertTransition(lectureId, from, to)
+    await writeStatus(lectureId, from, to, ctx)
+    return true
+  })
+}
+
+// 写入转录后调用：draft / materials_ready 的讲座推进到 recording，其他状态（含没有状态的旧讲座）保持不变。
+// 转录已经写入，推进失败只记录日志，下次写入转录时重试
+export async function markRecording(lectureId: string, ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>){
+  if(recordingStarted.has(lectureId)) return
+  try {
+    await statusQueue.run(lectureId, async () => {
+      const from = statusName(lectureOf(await fetchLecture(lectureId, ctx))?.status)
+      if(from && INITIAL_STATUSES.includes(from)) await writeStatus(lectureId, from, 'recording', ctx)
+      recordingStarted.add(lectureId)
+    })
+  } catch (error) {
+    console.error('[lecture-status] failed to mark lecture as recording', {
+      lectureId,
+      requestId: ctx.requestId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+async function writeStatus(lectureId: string, from: LectureStatus | null, to: LectureStatus, ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>){
+  await dataServiceRequest(
+    `/lectures/${lectureId}`,
+    { method: 'PATCH', signal: ctx.signal, body: { status: statusCode(to) } },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  emitStatusChange(lectureId, from, to, ctx)
+}
+
+function fetchLecture(lectureId: string, ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>){
+  return dataServiceRequest<any>(
+    `/lectures/${lectureId}`,
+    { method: 'GET', signal: ctx.signal },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+}
+
+// Data Service 返回 { lecture } 或讲座本身
+function lectureOf(result: any){
+  return result?.lecture ?? result
+}
+
+function emitStatusChange(lectureId: string, from: LectureStatus | null, to: LectureStatus, ctx: Pick<PluginContext, 'userId' | 'requestId'>){
+  const change: LectureStatusChange = { lecture_id: lectureId, from, to, owner_id: ctx.userId!, changed_at: new Date().toISOString() }
+  if(INITIAL_STATUSES.includes(to)) recordingStarted.delete(lectureId)
+  console.info('[lecture-status] lecture status changed', { lectureId, from, to, requestId: ctx.requestId })
+  for(const listener of statusListeners){
+    try {
+      listener(change)
+    } catch (error) {
+      console.error('[lecture-status] status listener failed', {
+        lectureId,
+        requestId: ctx.requestId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+}
+
+// 清空已确认进入录制的讲座，监听器保留；供测试隔离用例
+export function resetLectureStatus(){
+  recordingStarted.clear()
+}
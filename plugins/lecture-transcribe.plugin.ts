@@ -1,7 +1,8 @@
-import { registerPlugin } from './registry.js'
+import { registerPlugin, type PluginManifest } from './registry.js'
 import { ValidationError } from '../errors/validation.error.js'
 import { SC } from '../constants/status-codes.js'
-import { getConfig } from '../config.js'
+import { getConfig } from './runtime.js'
+import { recordModelUsage, type UsageMeta } from './usage-ledger.js'
 import type { PluginContext, PluginResponse } from '../types/index.js'
 import { z } from 'zod'
 import OpenAI from 'openai'
@@ -19,10 +20,20 @@ const transcribeSchema = z.object({
     size: z.number().int().positive().optional()
   }),
   keywords: z.array(z.string().min(1)).max(50).optional(),
-  language: z.string().min(1).max(12).optional()
+  language: z.string().min(1).max(12).optional(),
+  // 仅用于用量按讲座归集
+  lecture_id: z.string().min(1).optional()
 })
 
-registerPlugin('audio.transcribe', async ({ intent, userId, requestId }: PluginContext): Promise<PluginResponse> => {
+const MANIFEST: PluginManifest = {
+  version: '1.0.0',
+  description: '音频转文字',
+  operations: {
+    transcribe: { description: '转录 base64 编码的音频文件，可提供偏好术语与语言', inputs: transcribeSchema }
+  }
+}
+
+registerPlugin('audio.transcribe', async ({ intent, userId, requestId, signal }: PluginContext): Promise<PluginResponse> => {
   try {
     ensureUser(userId)
     if(intent?.operation !== 'transcribe'){
@@ -32,7 +43,7 @@ registerPlugin('audio.transcribe', async ({ intent, userId, requestId }: PluginC
     if(!parsed.success){
       return { status_code: SC.BAD_REQUEST, message: formatZodError(parsed.error), data: {} }
     }
-    const { file, keywords, language } = parsed.data
+    const { file, keywords, language, lecture_id } = parsed.data
     console.info('[lecture-transcribe] request received', {
       requestId,
       userId,
@@ -45,7 +56,16 @@ registerPlugin('audio.transcribe', async ({ intent, userId, requestId }: PluginC
     const buffer = decodeBase64(file.data)
     enforceAudioLimits(file, buffer)
     const client = createOpenAIClient()
-    const transcript = await transcribeAudio(client, buffer, file.name, file.mime_type, keywords, language)
+    const transcript = await transcribeAudio(
+      client,
+      buffer,
+      file.name,
+      file.mime_type,
+      { plugin: 'audio.transcribe', userId, requestId, lectureId: lecture_id },
+      keywords,
+      language,
+      signal
+    )
     console.info('[lecture-transcribe] transcription succeeded', {
       requestId,
       userId,
@@ -76,7 +96,7 @@ registerPlugin('audio.transcribe', async ({ intent, userId, requestId }: PluginC
       }
     }
   }
-})
+}, MANIFEST)
 
 function ensureUser(userId: string | undefined){
   if(!userId) throw new ValidationError('missing user id')
@@ -121,18 +141,22 @@ async function transcribeAudio(
   buffer: Buffer,
   name: string,
   mimeType: string,
+  usage: Omit<UsageMeta, 'model'>,
   keywords?: string[],
-  language?: string
+  language?: string,
+  signal?: AbortSignal
 ){
   const file = await toFile(buffer, name || 'audio-upload', { type: mimeType })
   const config = getConfig()
   const prompt = buildPrompt(keywords ?? [])
-  const response = await client.audio.transcriptions.create({
+  const model = config.openai.models.transcribe
+  const response: any = await client.audio.transcriptions.create({
     file,
-    model: config.openai.models.transcribe,
+    model,
     ...(prompt ? { prompt } : {}),
     ...(language ? { language } : {})
-  } as any)
+  } as any, { signal })
+  recordModelUsage({ ...usage, model }, response.usage, response.duration)
   return response.text ?? ''
 }
 
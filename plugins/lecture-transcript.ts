@@ -0,0 +1,263 @@
+import { z } from 'zod'
+import { ValidationError } from '../errors/validation.error.js'
+import { dataServiceRequest, isUpstreamError } from './runtime.js'
+import { LecturePartialWriteError, LectureStateError } from './lecture-errors.js'
+import { PSC } from './status-codes.js'
+import { createKeyedQueue } from './keyed-queue.js'
+import { markRecording } from './lecture-status.js'
+import type { PluginContext } from '../types/index.js'
+
+// lecture.transcription.list / getTranscription：按时间窗口或 seq 范围读取转录片段，支持原始片段与合并段落两种视图。
+// 查询参数会传给 Data Service；无论 Data Service 是否已按参数过滤，插件都会再按同样的规则过滤一次
+
+const DEFAULT_MERGE_GAP_MS = 2000
+const DEFAULT_MAX_PARAGRAPH_CHARS = 1000
+
+const transcriptQueryShape = {
+  lecture_id: z.string().min(1, 'lecture_id is required'),
+  from_ms: z.number().nonnegative().optional(),
+  to_ms: z.number().nonnegative().optional(),
+  seq_from: z.number().int().nonnegative().optional(),
+  seq_to: z.number().int().nonnegative().optional(),
+  view: z.enum(['raw', 'merged']).default('raw'),
+  // merged 视图：相邻片段间隔不超过该值时并入同一段落
+  merge_gap_ms: z.number().nonnegative().default(DEFAULT_MERGE_GAP_MS),
+  max_paragraph_chars: z.number().int().positive().default(DEFAULT_MAX_PARAGRAPH_CHARS)
+}
+
+export const transcriptQuerySchema = z.object(transcriptQueryShape).superRefine((inputs, ctx) => {
+  if(inputs.from_ms !== undefined && inputs.to_ms !== undefined && inputs.from_ms > inputs.to_ms){
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'from_ms must not be greater than to_ms', path: ['from_ms'] })
+  }
+  if(inputs.seq_from !== undefined && inputs.seq_to !== undefined && inputs.seq_from > inputs.seq_to){
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'seq_from must not be greater than seq_to', path: ['seq_from'] })
+  }
+})
+
+export type TranscriptQuery = z.infer<typeof transcriptQuerySchema>
+
+export interface TranscriptSegment {
+  t_start_ms: number
+  t_end_ms: number
+  content: string
+  seq_no?: number
+  start_at?: string
+  end_at?: string
+}
+
+export interface TranscriptParagraph {
+  t_start_ms: number
+  t_end_ms: number
+  seq_from?: number
+  seq_to?: number
+  content: string
+  segment_count: number
+}
+
+export interface TranscriptPage {
+  lecture_id: string
+  view: TranscriptQuery['view']
+  items: TranscriptSegment[] | TranscriptParagraph[]
+  total: number
+}
+
+const RANGE_KEYS = ['from_ms', 'to_ms', 'seq_from', 'seq_to'] as const
+
+export type TranscriptRange = Partial<Pick<TranscriptQuery, typeof RANGE_KEYS[number]>>
+
+export function transcriptPath(query: TranscriptRange & { lecture_id: string }){
+  const params = new URLSearchParams()
+  for(const key of RANGE_KEYS){
+    if(query[key] !== undefined) params.set(key, String(query[key]))
+  }
+  const suffix = params.toString()
+  return `/lectures/${query.lecture_id}/transcription${suffix ? `?${suffix}` : ''}`
+}
+
+export function toTranscriptPage(result: any, query: TranscriptQuery): TranscriptPage {
+  const segments = selectSegments(segmentsOf(result), query)
+  const items = query.view === 'merged' ? mergeSegments(segments, query.merge_gap_ms, query.max_paragraph_chars) : segments
+  return { lecture_id: query.lecture_id, view: query.view, items, total: items.length }
+}
+
+// Data Service 可能返回数组、{ items } 或 { segments }
+export function segmentsOf(result: any): TranscriptSegment[] {
+  const list = Array.isArray(result) ? result
+    : Array.isArray(result?.items) ? result.items
+    : Array.isArray(result?.segments) ? result.segments
+    : []
+  return list.filter((segment: any): segment is TranscriptSegment =>
+    typeof segment?.content === 'string' && typeof segment?.t_start_ms === 'number' && typeof segment?.t_end_ms === 'number'
+  )
+}
+
+// 时间窗口取与 [from_ms, to_ms] 有重叠的片段；结果按开始时间、seq_no 排序
+export function selectSegments(segments: TranscriptSegment[], query: TranscriptRange){
+  return segments
+    .filter((segment) => {
+      if(query.from_ms !== undefined && segment.t_end_ms < query.from_ms) return false
+      if(query.to_ms !== undefined && segment.t_start_ms > query.to_ms) return false
+      if(query.seq_from !== undefined && (segment.seq_no === undefined || segment.seq_no < query.seq_from)) return false
+      if(query.seq_to !== undefined && (segment.seq_no === undefined || segment.seq_no > query.seq_to)) return false
+      return true
+    })
+    .sort((a, b) => a.t_start_ms - b.t_start_ms || (a.seq_no ?? 0) - (b.seq_no ?? 0))
+}
+
+export function mergeSegments(segments: TranscriptSegment[], gapMs = DEFAULT_MERGE_GAP_MS, maxChars = DEFAULT_MAX_PARAGRAPH_CHARS): TranscriptParagraph[] {
+  const paragraphs: TranscriptParagraph[] = []
+  let current: TranscriptParagraph | undefined
+  for(const segment of segments){
+    const text = segment.content.trim()
+    if(!text) continue
+    const joined = current ? joinText(current.content, text) : text
+    if(current && segment.t_start_ms - current.t_end_ms <= gapMs && joined.length <= maxChars){
+      current.content = joined
+      current.t_end_ms = Math.max(current.t_end_ms, segment.t_end_ms)
+      current.seq_to = segment.seq_no ?? current.seq_to
+      current.segment_count += 1
+      continue
+    }
+    current = {
+      t_start_ms: segment.t_start_ms,
+      t_end_ms: segment.t_end_ms,
+      seq_from: segment.seq_no,
+      seq_to: segment.seq_no,
+      content: text,
+      segment_count: 1
+    }
+    paragraphs.push(current)
+  }
+  return paragraphs
+}
+
+// 供阶段总结、对话等插件按范围读取转录原文，段落之间以空行分隔
+export async function fetchTranscriptText(lectureId: string, range: TranscriptRange, ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>){
+  if(range.from_ms !== undefined && range.to_ms !== undefined && range.from_ms > range.to_ms){
+    throw new ValidationError('from_ms must not be greater than to_ms')
+  }
+  const result = await dataServiceRequest(
+    transcriptPath({ ...range, lecture_id: lectureId }),
+    { method: 'GET', signal: ctx.signal },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  return mergeSegments(selectSegments(segmentsOf(result), range)).map((paragraph) => paragraph.content).join('\n\n')
+}
+
+// Data Service 只提供单条追加接口，批量写入时按顺序逐条追加；调用方负责放在 serializeSegmentWrites 中执行。
+// 中途失败时按逆序删除本次已写入的片段后抛出原错误；有片段删除失败时抛出 LecturePartialWriteError，列出仍留在讲座中的 seq_no
+export async function appendSegments(lectureId: string, segments: TranscriptSegment[], ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>){
+  const written: TranscriptSegment[] = []
+  for(const segment of segments){
+    try {
+      await dataServiceRequest(
+        `/lectures/${lectureId}/transcription`,
+        { method: 'POST', body: segment, signal: ctx.signal },
+        { userId: ctx.userId, requestId: ctx.requestId }
+      )
+    } catch (error) {
+      const remaining = await rollbackSegments(lectureId, written, ctx)
+      if(!remaining.length) throw error
+      throw new LecturePartialWriteError(
+        isUpstreamError(error) && error.statusCode < 500 ? error.statusCode : PSC.BAD_GATEWAY,
+        'transcription batch partially written',
+        {
+          lecture_id: lectureId,
+          appended: remaining.length,
+          written: remaining,
+          failed_seq_no: segment.seq_no,
+          error: error instanceof Error ? error.message : String(error)
+        }
+      )
+    }
+    written.push(segment)
+  }
+}
+
+// 回滚不使用调用方的 signal：调用方已断开时同样要清理；返回未能删除的 seq_no（没有 seq_no 的片段无法删除，按 null 计）
+async function rollbackSegments(lectureId: string, written: TranscriptSegment[], ctx: Pick<PluginContext, 'userId' | 'requestId'>){
+  const remaining: (number | null)[] = []
+  for(const segment of [...written].reverse()){
+    if(segment.seq_no === undefined){
+      remaining.push(null)
+      continue
+    }
+    try {
+      await deleteSegment({ lecture_id: lectureId, seq_no: segment.seq_no }, 'transcription', { userId: ctx.userId, requestId: ctx.requestId })
+    } catch (error) {
+      console.error('[lecture-transcript] failed to roll back segment', {
+        lectureId,
+        seqNo: segment.seq_no,
+        requestId: ctx.requestId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      remaining.push(segment.seq_no)
+    }
+  }
+  return remaining.reverse()
+}
+
+export type SegmentResource = 'transcription' | 'transcription-summary'
+
+const segmentWriteQueue = createKeyedQueue()
+
+// 同一讲座同一类片段的“读取已存储片段 → 编号或查重 → 写入”串行执行，并发的追加、批量追加与导入不会分到相同的 seq_no。
+// 只在本进程内有效，多实例部署时仍需 Data Service 保证 seq_no 唯一
+export function serializeSegmentWrites<T>(lectureId: string, resource: SegmentResource, task: () => Promise<T>){
+  return segmentWriteQueue.run(`${resource}:${lectureId}`, task)
+}
+
+// lecture.transcription.append / summary.append：追加单个片段，追加转录后把草稿讲座推进到 recording。
+// if_absent 时先确认该 seq_no 尚未写入，已存在时返回 409 且不写入；工作流据此保证补偿时按 seq_no 删除的只会是本次写入的片段
+export async function appendSegment(
+  inputs: TranscriptSegment & { lecture_id: string; if_absent?: boolean },
+  resource: SegmentResource,
+  ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>
+){
+  const { lecture_id: lectureId, if_absent: ifAbsent, ...segment } = inputs
+  if(ifAbsent && segment.seq_no === undefined) throw new ValidationError('seq_no is required when if_absent is true')
+  const result = await serializeSegmentWrites(lectureId, resource, async () => {
+    if(ifAbsent && await hasSegment(lectureId, resource, segment.seq_no!, ctx)){
+      throw new LectureStateError(PSC.CONFLICT, 'segment already exists', { lecture_id: lectureId, seq_no: segment.seq_no })
+    }
+    return dataServiceRequest(
+      `/lectures/${lectureId}/${resource}`,
+      { method: 'POST', body: segment, signal: ctx.signal },
+      { userId: ctx.userId, requestId: ctx.requestId }
+    )
+  })
+  if(resource === 'transcription') await markRecording(lectureId, ctx)
+  return result
+}
+
+// 阶段总结没有单独的读取接口，从 post-class-background 的 stage_summaries 中查找
+async function hasSegment(lectureId: string, resource: SegmentResource, seqNo: number, ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>){
+  const path = resource === 'transcription'
+    ? transcriptPath({ lecture_id: lectureId, seq_from: seqNo, seq_to: seqNo })
+    : `/lectures/${lectureId}/post-class-background`
+  const result: any = await dataServiceRequest(path, { method: 'GET', signal: ctx.signal }, { userId: ctx.userId, requestId: ctx.requestId })
+  const segments = segmentsOf(resource === 'transcription' ? result : result?.stage_summaries)
+  return segments.some((segment) => segment.seq_no === seqNo)
+}
+
+// 按 seq_no 删除转录或阶段总结片段，供工作流补偿与批量写入回滚使用。
+// DELETE /lectures/:id/{transcription|transcription-summary}/:seq_no 需要 Data Service 提供（见 README）；
+// 返回 404 时无法区分片段不存在与接口不存在，一律按删除失败抛出，由调用方报告
+export async function deleteSegment(
+  inputs: { lecture_id: string; seq_no: number },
+  resource: SegmentResource,
+  ctx: Pick<PluginContext, 'userId' | 'requestId' | 'signal'>
+){
+  await dataServiceRequest(
+    `/lectures/${inputs.lecture_id}/${resource}/${inputs.seq_no}`,
+    { method: 'DELETE', signal: ctx.signal },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  return { lecture_id: inputs.lecture_id, seq_no: inputs.seq_no, deleted: true }
+}
+
+// 中文之间直接拼接，其余情况以空格分隔
+export function joinText(left: string, right: string){
+  const cjk = /[　-鿿＀-￯]/
+  return cjk.test(left.slice(-1)) || cjk.test(right[0]) ? `${left}${right}` : `${left} ${right}`
+}
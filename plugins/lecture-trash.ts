@@ -0,0 +1,232 @@
+import { z } from 'zod'
+import { dataServiceRequest } from './runtime.js'
+import { getPluginSettings } from './settings.js'
+import { createJsonStore } from './json-store.js'
+import { LectureStateError } from './lecture-errors.js'
+import { PSC } from './status-codes.js'
+import type { PluginContext } from '../types/index.js'
+
+// 讲座回收站：lecture.delete 只把讲座移入回收站，lecture.restore 恢复，lecture.purge 或保留期满后才向 Data Service 发出 DELETE。
+// Data Service 没有软删除，回收站记录由插件保存；回收站中的讲座不出现在经插件的列表与检索结果中，除恢复与彻底删除外的讲座操作返回 404。
+// 软删除只在插件内生效：Data Service 中的讲座保持原样，直接访问 Data Service 的客户端在彻底删除前仍能读到它。
+// 回收站记录写入 plugins.trash.storePath；未配置时只保存在内存中并记录一次警告，重启后已移入回收站的讲座重新出现，也不会再被定时清理。
+// 保留期满的讲座由定时任务彻底删除，所有者删除、恢复讲座或查看回收站时也会顺带清理
+
+const DEFAULT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+export const trashListSchema = z.object({})
+
+export type TrashListInputs = z.infer<typeof trashListSchema>
+
+export interface TrashEntry {
+  lecture_id: string
+  // 彻底删除时以该 userId 调用 Data Service
+  owner_id: string
+  deleted_at: string
+  purge_after: string
+  // 移入回收站时的讲座概要，供回收站列表展示，并用于从讲座列表的 total 中扣除符合过滤条件的讲座
+  sessionName?: string
+  courseCode?: string
+  language?: string
+  status?: number
+  created_at?: string
+}
+
+type PurgeListener = (lectureId: string) => void
+
+const entries = new Map<string, TrashEntry>()
+const purgeListeners: PurgeListener[] = []
+const store = createJsonStore<{ lectures?: TrashEntry[] }>({
+  name: 'lecture-trash',
+  label: 'trash store',
+  configured: () => getPluginSettings().trash?.storePath
+})
+let purgeTimer: ReturnType<typeof setInterval> | undefined
+let purging: Promise<void> | undefined
+let warnedMemoryOnly = false
+
+// 讲座被彻底删除后通知其他模块清理本地状态（共享记录、检索索引）
+export function onLecturePurged(listener: PurgeListener){
+  purgeListeners.push(listener)
+}
+
+export function trashEntryOf(lectureId: string){
+  ensureLoaded()
+  return entries.get(lectureId)
+}
+
+export function trashEntriesOf(ownerId: string){
+  ensureLoaded()
+  return [...entries.values()].filter((entry) => entry.owner_id === ownerId)
+}
+
+// inTrash 为 true 时要求讲座在回收站中（恢复、彻底删除），否则要求不在
+export function assertTrashState(lectureId: string, inTrash = false){
+  const entry = trashEntryOf(lectureId)
+  if(entry && !inTrash){
+    throw new LectureStateError(PSC.NOT_FOUND, 'lecture is in trash', { lecture_id: lectureId, deleted_at: entry.deleted_at })
+  }
+  if(!entry && inTrash){
+    throw new LectureStateError(PSC.NOT_FOUND, 'lecture is not in trash', { lecture_id: lectureId })
+  }
+}
+
+// ==================== 回收站操作 ====================
+
+// lecture.delete：ctx.userId 为讲座所有者
+export async function moveToTrash(inputs: { lecture_id: string }, ctx: PluginContext){
+  await purgeExpired(ctx, ctx.userId)
+  const result: any = await dataServiceRequest(
+    `/lectures/${inputs.lecture_id}`,
+    { method: 'GET', signal: ctx.signal },
+    { userId: ctx.userId, requestId: ctx.requestId }
+  )
+  const lecture = result?.lecture ?? result ?? {}
+  const now = Date.now()
+  const entry: TrashEntry = {
+    lecture_id: inputs.lecture_id,
+    owner_id: ctx.userId!,
+    deleted_at: new Date(now).toISOString(),
+    purge_after: new Date(now + retentionMs()).toISOString(),
+    ...pickSummary(lecture)
+  }
+  entries.set(entry.lecture_id, entry)
+  await persist()
+  // 未配置 storePath 时 ensureLoaded 不会启动定时清理
+  schedulePurge()
+  return { lecture_id: entry.lecture_id, trashed: true, deleted_at: entry.deleted_at, purge_after: entry.purge_after }
+}
+
+export async function listTrash(_inputs: TrashListInputs, ctx: PluginContext){
+  await purgeExpired(ctx, ctx.userId)
+  const items = trashEntriesOf(ctx.userId!)
+    .sort((a, b) => Date.parse(b.deleted_at) - Date.parse(a.deleted_at))
+    .map(({ owner_id: _ownerId, status: _status, created_at: _createdAt, ...entry }) => entry)
+  return { items, total: items.length }
+}
+
+// 保留期已满但尚未清理的讲座不能再恢复
+export async function restoreLecture(inputs: { lecture_id: string }, ctx: PluginContext){
+  ownedEntry(inputs.lecture_id, ctx)
+  await purgeExpired(ctx, ctx.userId)
+  const entry = trashEntryOf(inputs.lecture_id)
+  if(!entry){
+    throw new LectureStateError(PSC.NOT_FOUND, 'lecture was purged after the retention period', { lecture_id: inputs.lecture_id })
+  }
+  entries.delete(entry.lecture_id)
+  await persist()
+  return { lecture_id: entry.lecture_id, restored: true }
+}
+
+export async function purgeLecture(inputs: { lecture_id: string }, ctx: PluginContext){
+  await purgeEntry(ownedEntry(inputs.lecture_id, ctx), ctx)
+  return { lecture_id: inputs.lecture_id, purged: true }
+}
+
+// 恢复与彻底删除不经 Data Service 校验归属，ctx.userId（共享讲座为所有者）须与移入回收站时的所有者一致
+function ownedEntry(lectureId: string, ctx: PluginContext){
+  const entry = trashEntryOf(lectureId)
+  if(!entry || entry.owner_id !== ctx.userId){
+    throw new LectureStateError(PSC.NOT_FOUND, 'lecture is not in trash', { lecture_id: lectureId })
+  }
+  return entry
+}
+
+// ==================== 彻底删除 ====================
+
+// Data Service 已不存在该讲座（404）时同样视为删除成功
+async function purgeEntry(entry: TrashEntry, ctx: Pick<PluginContext, 'requestId' | 'signal'>){
+  try {
+    await dataServiceRequest(
+      `/lectures/${entry.lecture_id}`,
+      { method: 'DELETE', signal: ctx.signal },
+      { userId: entry.owner_id, requestId: ctx.requestId }
+    )
+  } catch (error: any) {
+    if(error?.statusCode !== PSC.NOT_FOUND) throw error
+  }
+  // Data Service 中的讲座已删除，先清理其他模块的本地状态，回收站记录写入失败时再抛出
+  entries.delete(entry.lecture_id)
+  for(const listener of purgeListeners) listener(entry.lecture_id)
+  await persist()
+}
+
+// ownerId 缺省时清理所有用户的过期讲座（定时任务）；单个讲座删除失败时保留记录，下次再试
+async function purgeExpired(ctx: Pick<PluginContext, 'requestId' | 'signal'>, ownerId?: string){
+  ensureLoaded()
+  const now = Date.now()
+  const expired = [...entries.values()].filter((entry) => (!ownerId || entry.owner_id === ownerId) && Date.parse(entry.purge_after) <= now)
+  for(const entry of expired){
+    try {
+      await purgeEntry(entry, ctx)
+      console.info('[lecture-trash] purged lecture after retention period', { lectureId: entry.lecture_id, requestId: ctx.requestId })
+    } catch (error) {
+      if(ctx.signal?.aborted) throw error
+      console.error('[lecture-trash] failed to purge expired lecture', {
+        lectureId: entry.lecture_id,
+        requestId: ctx.requestId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+}
+
+// 上一次定时清理未结束时跳过本次
+function schedulePurge(){
+  if(purgeTimer) return
+  purgeTimer = setInterval(() => {
+    if(purging) return
+    purging = purgeExpired({ requestId: `trash-purge-${Date.now()}` }).finally(() => {
+      purging = undefined
+    })
+  }, purgeIntervalMs())
+  // 不阻止进程退出
+  purgeTimer.unref()
+}
+
+function pickSummary(lecture: any): Pick<TrashEntry, 'sessionName' | 'courseCode' | 'language' | 'status' | 'created_at'> {
+  const summary: Pick<TrashEntry, 'sessionName' | 'courseCode' | 'language' | 'status' | 'created_at'> = {}
+  for(const field of ['sessionName', 'courseCode', 'language', 'created_at'] as const){
+    if(typeof lecture?.[field] === 'string') summary[field] = lecture[field]
+  }
+  if(typeof lecture?.status === 'number') summary.status = lecture.status
+  return summary
+}
+
+function retentionMs(){
+  return getPluginSettings().trash?.retentionMs ?? DEFAULT_RETENTION_MS
+}
+
+function purgeIntervalMs(){
+  return getPluginSettings().trash?.purgeIntervalMs ?? DEFAULT_PURGE_INTERVAL_MS
+}
+
+// ==================== 持久化 ====================
+
+// 首次载入时启动定时清理
+function ensureLoaded(){
+  const loaded = store.load((snapshot) => {
+    for(const entry of snapshot.lectures ?? []) entries.set(entry.lecture_id, entry)
+  })
+  if(loaded) schedulePurge()
+}
+
+// 写入失败抛给调用方
+function persist(){
+  if(!store.path() && !warnedMemoryOnly){
+    warnedMemoryOnly = true
+    console.warn('[lecture-trash] plugins.trash.storePath is not configured, trash entries are kept in memory only and lost on restart')
+  }
+  return store.save({ lectures: [...entries.values()] })
+}
+
+// 停止定时清理并清空内存中的回收站记录（先等待进行中的清理与写入完成），下次访问时重新从 storePath 载入；监听器保留。供测试隔离用例
+export async function resetTrash(){
+  clearInterval(purgeTimer)
+  purgeTimer = undefined
+  await purging
+  await store.reset()
+  entries.clear()
+  warnedMemoryOnly = false
+}
@@ -0,0 +1,102 @@
+import { getPluginSettings, type LockoutPolicy } from './settings.js'
+import type { PluginContext } from '../types/index.js'
+
+interface FailureCounter {
+  failures: number
+  windowStartedAt: number
+  lockedUntil: number
+}
+
+export interface LoginGuardKeys {
+  username: string
+  caller?: string
+}
+
+const DEFAULT_POLICY: Required<LockoutPolicy> = {
+  maxAttemptsPerUsername: 5,
+  maxAttemptsPerCaller: 20,
+  windowMs: 15 * 60 * 1000,
+  baseLockMs: 30 * 1000,
+  maxLockMs: 15 * 60 * 1000,
+  trustedProxyHops: 1
+}
+
+const counters = new Map<string, FailureCounter>()
+
+// 登录前检查用户名与调用方是否处于锁定期，返回剩余锁定毫秒数
+export function lockedFor(keys: LoginGuardKeys): number | undefined {
+  const now = Date.now()
+  const remaining = counterKeys(keys)
+    .map(({ key }) => (counters.get(key)?.lockedUntil ?? 0) - now)
+    .filter((ms) => ms > 0)
+  return remaining.length ? Math.max(...remaining) : undefined
+}
+
+// 记录一次失败；超过阈值后锁定时长按 baseLockMs * 2^(超出次数) 递增
+export function recordLoginFailure(keys: LoginGuardKeys){
+  const policy = resolvePolicy()
+  const now = Date.now()
+  purgeExpired(now, policy.windowMs)
+  for(const { key, maxAttempts } of counterKeys(keys, policy)){
+    const current = counters.get(key)
+    const counter = current && now - current.windowStartedAt < policy.windowMs
+      ? current
+      : { failures: 0, windowStartedAt: now, lockedUntil: 0 }
+    counter.failures += 1
+    if(counter.failures >= maxAttempts){
+      const lockMs = Math.min(policy.baseLockMs * 2 ** (counter.failures - maxAttempts), policy.maxLockMs)
+      counter.lockedUntil = now + lockMs
+      // 锁定期间保持计数，解锁后的下一次失败会继续延长锁定
+      counter.windowStartedAt = now
+      console.warn('[login-guard] locked', { key, failures: counter.failures, lockMs })
+    }
+    counters.set(key, counter)
+  }
+}
+
+// 登录成功只清除该用户名的计数；调用方计数保留，避免用一个已知账号为撞库“洗白”
+export function recordLoginSuccess(keys: LoginGuardKeys){
+  counters.delete(usernameKey(keys.username))
+}
+
+// 调用方标识取自网关转发的客户端地址；缺失时只按用户名计数。
+// X-Forwarded-For 左侧的地址由客户端自行填写，每换一个地址就能绕过调用方计数；
+// 只有可信代理追加的右侧 trustedProxyHops 个地址可信，取其中最左边的一个
+export function callerOf(ctx: PluginContext): string | undefined {
+  const hops = resolvePolicy().trustedProxyHops
+  if(hops <= 0) return undefined
+  const headers = ctx.headers ?? {}
+  const forwarded = headers['x-forwarded-for']
+  if(typeof forwarded === 'string' && forwarded.trim()){
+    const addresses = forwarded.split(',').map((address) => address.trim()).filter(Boolean)
+    if(addresses.length) return addresses[Math.max(0, addresses.length - hops)]
+  }
+  const realIp = headers['x-real-ip']
+  if(typeof realIp === 'string' && realIp.trim()) return realIp.trim()
+  return undefined
+}
+
+function counterKeys(keys: LoginGuardKeys, policy = resolvePolicy()){
+  const result = [{ key: usernameKey(keys.username), maxAttempts: policy.maxAttemptsPerUsername }]
+  if(keys.caller) result.push({ key: `caller:${keys.caller}`, maxAttempts: policy.maxAttemptsPerCaller })
+  return result
+}
+
+function purgeExpired(now: number, windowMs: number){
+  for(const [key, counter] of counters){
+    if(counter.lockedUntil <= now && now - counter.windowStartedAt >= windowMs) counters.delete(key)
+  }
+}
+
+function usernameKey(username: string){
+  return `username:${username.toLowerCase()}`
+}
+
+function resolvePolicy(): Required<LockoutPolicy> {
+  return { ...DEFAULT_POLICY, ...getPluginSettings().credentials?.lockout }
+}
+
+// 清除全部失败计数与锁定，供测试隔离用例
+export function resetLoginGuard(){
+  counters.clear()
+}
@@ -0,0 +1,103 @@
+import { ValidationError } from '../errors/validation.error.js'
+import { SC } from '../constants/status-codes.js'
+import { PSC } from './status-codes.js'
+import { isUpstreamError } from './runtime.js'
+import type { PluginMiddleware } from './registry.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+
+export function requireUser(): PluginMiddleware {
+  return {
+    name: 'require-user',
+    before: (ctx) => {
+      if(!ctx.userId){
+        return { status_code: SC.BAD_REQUEST, message: 'missing user id', data: {} }
+      }
+    }
+  }
+}
+
+// ValidationError → 400；Data Service 等上游返回的 4xx 原样透传；其余异常 → 500
+export function normalizeErrors(): PluginMiddleware {
+  return {
+    name: 'normalize-errors',
+    onError: (_ctx, error, invocation) => {
+      if(error instanceof ValidationError){
+        return { status_code: SC.BAD_REQUEST, message: error.message, data: {} }
+      }
+      if(isUpstreamError(error) && error.statusCode < 500){
+        return { status_code: error.statusCode, message: error.message ?? 'upstream error', data: error.details ?? {} }
+      }
+      return {
+        status_code: SC.INTERNAL,
+        message: `${invocation.plugin} failed`,
+        data: { error: error instanceof Error ? error.message : String(error) }
+      }
+    }
+  }
+}
+
+export function requestLogger(): PluginMiddleware {
+  return {
+    name: 'request-logger',
+    before: (ctx, invocation) => {
+      console.info('[plugin] request received', {
+        plugin: invocation.plugin,
+        operation: invocation.operation,
+        userId: ctx.userId,
+        requestId: ctx.requestId
+      })
+    },
+    after: (ctx, response, invocation) => {
+      console.info('[plugin] request completed', {
+        plugin: invocation.plugin,
+        operation: invocation.operation,
+        requestId: ctx.requestId,
+        status: response.status_code,
+        durationMs: Date.now() - invocation.startedAt
+      })
+    },
+    onError: (ctx, error, invocation) => {
+      console.error('[plugin] request failed', {
+        plugin: invocation.plugin,
+        operation: invocation.operation,
+        requestId: ctx.requestId,
+        durationMs: Date.now() - invocation.startedAt,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+}
+
+// 将 ctx.signal 与 ctx.deadline 合并为一个 signal 交给插件；插件因取消而失败时返回 499 / 504 而不是 500
+export function enforceDeadline(): PluginMiddleware {
+  return {
+    name: 'enforce-deadline',
+    before: (ctx) => {
+      const signals = ctx.signal ? [ctx.signal] : []
+      if(ctx.deadline !== undefined){
+        const remaining = ctx.deadline - Date.now()
+        if(remaining <= 0) return cancelledResponse(ctx, AbortSignal.abort(new DOMException('deadline exceeded', 'TimeoutError')))
+        signals.push(AbortSignal.timeout(remaining))
+      }
+      if(!signals.length) return
+      ctx.signal = signals.length === 1 ? signals[0] : AbortSignal.any(signals)
+      if(ctx.signal.aborted) return cancelledResponse(ctx, ctx.signal)
+    },
+    after: (ctx, response) => {
+      if(ctx.signal?.aborted && response.status_code >= 500){
+        return cancelledResponse(ctx, ctx.signal)
+      }
+    },
+    onError: (ctx) => {
+      if(ctx.signal?.aborted) return cancelledResponse(ctx, ctx.signal)
+    }
+  }
+}
+
+function cancelledResponse(ctx: PluginContext, signal: AbortSignal): PluginResponse {
+  const timedOut = (signal.reason as Error | undefined)?.name === 'TimeoutError'
+  console.warn('[plugin] request aborted', { requestId: ctx.requestId, reason: timedOut ? 'deadline' : 'cancelled' })
+  return timedOut
+    ? { status_code: PSC.DEADLINE_EXCEEDED, message: 'deadline exceeded', data: {} }
+    : { status_code: PSC.CANCELLED, message: 'request cancelled', data: {} }
+}
@@ -0,0 +1,132 @@
+import { getPluginSettings, type PluginLimits } from './settings.js'
+import { tokensUsedOn } from './usage-ledger.js'
+import { PSC } from './status-codes.js'
+import type { PluginMiddleware } from './registry.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+
+interface WindowCounter {
+  count: number
+  resetAt: number
+}
+
+interface DailyCounter {
+  day: string
+  calls: number
+  audioBytes: number
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+const windows = new Map<string, WindowCounter>()
+const daily = new Map<string, DailyCounter>()
+let nextSweepAt = 0
+
+// 在插件执行前按 userId + 插件名检查请求频率与每日配额；未登录的调用不计数
+export function rateLimit(): PluginMiddleware {
+  return {
+    name: 'rate-limit',
+    before: (ctx, invocation) => {
+      if(!ctx.userId) return
+      const limits = resolveLimits(invocation.plugin)
+      if(!limits) return
+      return checkLimits(ctx, invocation.plugin, limits)
+    }
+  }
+}
+
+function resolveLimits(plugin: string): PluginLimits | undefined {
+  const config = getPluginSettings().rateLimits
+  return config?.plugins?.[plugin] ?? config?.default
+}
+
+// 先完成全部检查再计数：被任一限制拒绝的请求不占用窗口与配额
+async function checkLimits(ctx: PluginContext, plugin: string, limits: PluginLimits): Promise<PluginResponse | undefined> {
+  const key = `${ctx.userId}:${plugin}`
+  const day = new Date().toISOString().slice(0, 10)
+  // token 用量来自记账，需要等待首次载入；之后的检查与计数同步完成，并发请求之间不会交错
+  const tokensUsed = limits.daily?.tokens !== undefined ? await tokensUsedOn(ctx.userId!, plugin, day) : 0
+  const now = Date.now()
+  sweepExpired(now)
+
+  let windowCounter: WindowCounter | undefined
+  if(limits.requests){
+    const current = windows.get(key)
+    windowCounter = current && current.resetAt > now
+      ? current
+      : { count: 0, resetAt: now + limits.requests.windowMs }
+    if(windowCounter.count >= limits.requests.limit){
+      return rejected(ctx, plugin, 'rate limit exceeded', windowCounter.resetAt - now)
+    }
+  }
+
+  let dailyCounter: DailyCounter | undefined
+  let requestAudioBytes = 0
+  if(limits.daily){
+    const retryAfterMs = Date.parse(`${day}T00:00:00.000Z`) + 24 * 60 * 60 * 1000 - now
+    const current = daily.get(key)
+    dailyCounter = current && current.day === day ? current : { day, calls: 0, audioBytes: 0 }
+    const { calls, tokens, audioBytes } = limits.daily
+    if(calls !== undefined && dailyCounter.calls >= calls){
+      return rejected(ctx, plugin, 'daily call quota exceeded', retryAfterMs)
+    }
+    if(tokens !== undefined && tokensUsed >= tokens){
+      return rejected(ctx, plugin, 'daily token quota exceeded', retryAfterMs)
+    }
+    requestAudioBytes = audioBytesOf(ctx)
+    if(audioBytes !== undefined && requestAudioBytes > 0 && dailyCounter.audioBytes + requestAudioBytes > audioBytes){
+      return rejected(ctx, plugin, 'daily audio quota exceeded', retryAfterMs)
+    }
+  }
+
+  if(windowCounter){
+    windowCounter.count += 1
+    windows.set(key, windowCounter)
+  }
+  if(dailyCounter){
+    dailyCounter.calls += 1
+    dailyCounter.audioBytes += requestAudioBytes
+    daily.set(key, dailyCounter)
+  }
+  return undefined
+}
+
+// 定期移除已过期的窗口与前一天的配额计数，避免不再调用的用户一直占用内存
+function sweepExpired(now: number){
+  if(now < nextSweepAt) return
+  nextSweepAt = now + SWEEP_INTERVAL_MS
+  const today = new Date(now).toISOString().slice(0, 10)
+  for(const [key, counter] of windows){
+    if(counter.resetAt <= now) windows.delete(key)
+  }
+  for(const [key, counter] of daily){
+    if(counter.day !== today) daily.delete(key)
+  }
+}
+
+// 音频按解码后的实际字节数计量，不采信客户端声明的 size
+function audioBytesOf(ctx: PluginContext){
+  const file = (ctx.intent?.inputs as any)?.file
+  if(!file || typeof file !== 'object') return 0
+  if(typeof file.mime_type === 'string' && !file.mime_type.startsWith('audio/') && !file.mime_type.startsWith('video/')) return 0
+  if(typeof file.data !== 'string') return 0
+  const payload = file.data.startsWith('data:') ? file.data.slice(file.data.indexOf(',') + 1) : file.data
+  return Buffer.byteLength(payload, 'base64')
+}
+
+function rejected(ctx: PluginContext, plugin: string, message: string, retryAfterMs: number): PluginResponse {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000))
+  console.warn('[rate-limit] request rejected', { plugin, userId: ctx.userId, requestId: ctx.requestId, message, retryAfter })
+  return {
+    status_code: PSC.TOO_MANY_REQUESTS,
+    message,
+    data: { retry_after: retryAfter },
+    retry_after: retryAfter
+  }
+}
+
+// 清空全部窗口与配额计数，供测试隔离用例
+export function resetRateLimits(){
+  windows.clear()
+  daily.clear()
+  nextSweepAt = 0
+}
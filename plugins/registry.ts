@@ -1,13 +1,170 @@
 import type { PluginContext, PluginResponse } from '../types/index.js'
+import { toJsonSchema, type JsonSchema, type SchemaSource } from './schema-json.js'
 
 export type PluginHandler = (payload: PluginContext) => Promise<PluginResponse>
 
-const registry = new Map<string, PluginHandler>()
+// 流式响应事件：delta 为增量内容，done 携带与非流式响应相同的最终 data，error 表示流中途失败
+export type PluginStreamEvent =
+  | { type: 'delta'; delta: string }
+  | { type: 'done'; data: unknown }
+  | { type: 'error'; message: string; data?: unknown }
 
-export function registerPlugin(name: string, handler: PluginHandler) {
-  registry.set(name, handler)
+declare module '../types/index.js' {
+  interface PluginContext {
+    // 调用方断开连接时由 orchestrator 触发
+    signal?: AbortSignal
+    // 绝对截止时间（epoch 毫秒）
+    deadline?: number
+    // 由 authenticate() 校验 bearer token 后写入；未启用令牌校验时为 undefined
+    roles?: string[]
+    // 访问令牌过期时间（epoch 毫秒）
+    tokenExpiresAt?: number
+  }
+
+  interface PluginResponse {
+    // 存在时表示流式响应：status_code/message/data 描述流开始前的状态，增量内容从 stream 读取
+    stream?: AsyncIterable<PluginStreamEvent>
+    // 被限流或超出配额时建议的重试等待秒数
+    retry_after?: number
+    // 附加信息（如结果缓存命中情况），不属于业务数据
+    meta?: Record<string, unknown>
+  }
+}
+
+export function isStreamingResponse(response: PluginResponse): response is PluginResponse & { stream: AsyncIterable<PluginStreamEvent> } {
+  return !!response.stream
+}
+
+export interface PluginOperationManifest {
+  description: string
+  inputs?: SchemaSource
+  // 有副作用的操作，接受 idempotency_key 去重重试
+  mutating?: boolean
+  // 启用令牌校验时，调用方须至少具备其中一个角色
+  roles?: string[]
+}
+
+export interface PluginManifest {
+  version: string
+  description: string
+  operations: Record<string, PluginOperationManifest>
+}
+
+export interface PluginOperationDescription {
+  description: string
+  inputs: JsonSchema | null
+  mutating: boolean
+  roles: string[]
+}
+
+export interface PluginDescription {
+  name: string
+  version: string
+  description: string
+  operations: Record<string, PluginOperationDescription>
+}
+
+export interface PluginInvocation {
+  plugin: string
+  operation?: string
+  startedAt: number
+}
+
+type Awaitable<T> = T | Promise<T>
+
+// before 返回响应时跳过后续中间件与插件本身；after 返回响应时替换原响应；
+// onError 返回响应时吞掉异常，否则异常继续向外层抛出
+export interface PluginMiddleware {
+  name: string
+  before?: (ctx: PluginContext, invocation: PluginInvocation) => Awaitable<PluginResponse | void>
+  after?: (ctx: PluginContext, response: PluginResponse, invocation: PluginInvocation) => Awaitable<PluginResponse | void>
+  onError?: (ctx: PluginContext, error: unknown, invocation: PluginInvocation) => Awaitable<PluginResponse | void>
+}
+
+export interface MiddlewareScope {
+  plugins?: string[]
+  exclude?: string[]
+}
+
+interface RegistryEntry {
+  handler: PluginHandler
+  manifest?: PluginManifest
+}
+
+interface MiddlewareEntry {
+  middleware: PluginMiddleware
+  scope: MiddlewareScope
+}
+
+const registry = new Map<string, RegistryEntry>()
+const middlewares: MiddlewareEntry[] = []
+
+export function registerPlugin(name: string, handler: PluginHandler, manifest?: PluginManifest) {
+  registry.set(name, { handler, manifest })
+}
+
+// 先注册的中间件位于最外层
+export function useMiddleware(middleware: PluginMiddleware, scope: MiddlewareScope = {}) {
+  middlewares.push({ middleware, scope })
 }
 
 export function getPlugin(name: string): PluginHandler | undefined {
-  return registry.get(name)
+  const entry = registry.get(name)
+  if(!entry) return undefined
+  return middlewares
+    .filter(({ scope }) => appliesTo(scope, name))
+    .reduceRight((next, { middleware }) => wrapHandler(name, next, middleware), entry.handler)
+}
+
+export function getManifest(name: string): PluginManifest | undefined {
+  return registry.get(name)?.manifest
+}
+
+function appliesTo(scope: MiddlewareScope, name: string){
+  if(scope.plugins && !scope.plugins.includes(name)) return false
+  if(scope.exclude && scope.exclude.includes(name)) return false
+  return true
+}
+
+function wrapHandler(name: string, next: PluginHandler, middleware: PluginMiddleware): PluginHandler {
+  return async (ctx: PluginContext): Promise<PluginResponse> => {
+    const invocation: PluginInvocation = { plugin: name, operation: ctx.intent?.operation, startedAt: Date.now() }
+    try {
+      const early = await middleware.before?.(ctx, invocation)
+      const response = early ?? await next(ctx)
+      return (await middleware.after?.(ctx, response, invocation)) ?? response
+    } catch (error) {
+      const handled = await middleware.onError?.(ctx, error, invocation)
+      if(handled) return handled
+      throw error
+    }
+  }
+}
+
+export function listPlugins(): PluginDescription[] {
+  return Array.from(registry.keys())
+    .sort()
+    .map((name) => describePlugin(name))
+    .filter((description): description is PluginDescription => !!description)
+}
+
+export function describePlugin(name: string): PluginDescription | undefined {
+  const entry = registry.get(name)
+  if(!entry) return undefined
+  const manifest = entry.manifest
+  const operations: Record<string, PluginOperationDescription> = {}
+  for(const [operation, spec] of Object.entries(manifest?.operations ?? {})){
+    operations[operation] = {
+      description: spec.description,
+      inputs: spec.inputs ? toJsonSchema(spec.inputs) : null,
+      mutating: !!spec.mutating,
+      roles: spec.roles ?? []
+    }
+  }
+  return {
+    name,
+    version: manifest?.version ?? '0.0.0',
+    description: manifest?.description ?? '',
+    operations
+  }
 }
@@ -0,0 +1,228 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { getPluginSettings } from './settings.js'
+import { stableStringify } from './stable-json.js'
+
+export interface CacheEntry<T = unknown> {
+  value: T
+  storedAt: number
+  expiresAt: number
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass'
+
+export interface CacheKeyParts {
+  plugin: string
+  model: string
+  promptVersion: string
+  inputs: unknown
+  bytes?: Uint8Array
+  // 结果只对调用者本人有效时（例如包含上传到 OpenAI 的 fileID）传入，按用户隔离缓存
+  userId?: string
+}
+
+export interface CacheOptions {
+  plugin: string
+  key: string
+  bypass?: boolean
+  invalidate?: boolean
+}
+
+export interface CacheResult<T> {
+  value: T
+  cache: { status: CacheStatus; key: string; stored_at?: string }
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000
+const DEFAULT_MAX_ENTRIES = 1000
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000
+const STALE_TEMP_MS = 60 * 60 * 1000
+
+// Map 按插入顺序迭代：读取时移到末尾，超出 maxEntries 时先清理过期条目，再淘汰最久未使用的条目
+export function createMemoryStore(maxEntries = DEFAULT_MAX_ENTRIES): CacheStore {
+  const entries = new Map<string, CacheEntry>()
+  return {
+    async get(key){
+      const entry = entries.get(key)
+      if(!entry) return undefined
+      entries.delete(key)
+      if(entry.expiresAt <= Date.now()) return undefined
+      entries.set(key, entry)
+      return entry
+    },
+    async set(key, entry){
+      entries.delete(key)
+      entries.set(key, entry)
+      if(entries.size <= maxEntries) return
+      const now = Date.now()
+      for(const [existing, stored] of entries){
+        if(stored.expiresAt <= now) entries.delete(existing)
+      }
+      for(const existing of entries.keys()){
+        if(entries.size <= maxEntries) break
+        entries.delete(existing)
+      }
+    },
+    async delete(key){
+      entries.delete(key)
+    }
+  }
+}
+
+// 每个条目一个 JSON 文件，先写临时文件再重命名，读取方不会看到写了一半的文件；文件的修改时间即最近使用时间。
+// 写入时最多每 sweepIntervalMs 整理一次目录：删除过期与无法解析的条目，仍超出 maxEntries 时淘汰最久未使用的条目
+export function createFileStore(dir: string, maxEntries = DEFAULT_MAX_ENTRIES, sweepIntervalMs = DEFAULT_SWEEP_INTERVAL_MS): CacheStore {
+  const fileOf = (key: string) => path.join(dir, `${key}.json`)
+  let lastSweep = 0
+
+  async function sweep(){
+    const now = Date.now()
+    const live: { file: string; usedAt: number }[] = []
+    for(const name of await readdir(dir)){
+      const file = path.join(dir, name)
+      if(name.endsWith('.tmp')){
+        // 进程在重命名前退出时留下的临时文件
+        const temp = await stat(file).catch(() => undefined)
+        if(temp && now - temp.mtimeMs > STALE_TEMP_MS) await rm(file, { force: true })
+        continue
+      }
+      if(!name.endsWith('.json')) continue
+      try {
+        const entry: CacheEntry = JSON.parse(await readFile(file, 'utf8'))
+        if(entry.expiresAt > now){
+          live.push({ file, usedAt: (await stat(file)).mtimeMs })
+          continue
+        }
+      } catch (error) {
+        // 整理期间被并发删除的条目跳过
+        if((error as NodeJS.ErrnoException).code === 'ENOENT') continue
+      }
+      await rm(file, { force: true })
+    }
+    live.sort((a, b) => a.usedAt - b.usedAt)
+    for(const { file } of live.slice(0, Math.max(0, live.length - maxEntries))){
+      await rm(file, { force: true })
+    }
+  }
+
+  return {
+    async get(key){
+      const file = fileOf(key)
+      let entry: CacheEntry
+      try {
+        entry = JSON.parse(await readFile(file, 'utf8'))
+      } catch (error) {
+        if((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+        // 无法解析的条目视为未命中并删除；其余读取错误交给调用方
+        if(!(error instanceof SyntaxError)) throw error
+        await rm(file, { force: true })
+        return undefined
+      }
+      if(entry.expiresAt <= Date.now()){
+        await rm(file, { force: true })
+        return undefined
+      }
+      const now = new Date()
+      await utimes(file, now, now).catch(() => undefined)
+      return entry
+    },
+    async set(key, entry){
+      await mkdir(dir, { recursive: true })
+      const file = fileOf(key)
+      const temp = `${file}.${randomBytes(6).toString('hex')}.tmp`
+      try {
+        await writeFile(temp, JSON.stringify(entry), 'utf8')
+        await rename(temp, file)
+      } finally {
+        await rm(temp, { force: true })
+      }
+      if(Date.now() - lastSweep < sweepIntervalMs) return
+      lastSweep = Date.now()
+      await sweep()
+    },
+    async delete(key){
+      await rm(fileOf(key), { force: true })
+    }
+  }
+}
+
+let store: CacheStore | undefined
+
+export function getCacheStore(): CacheStore {
+  if(!store){
+    const settings = getPluginSettings().cache
+    store = settings?.driver === 'file' && settings.dir
+      ? createFileStore(path.resolve(settings.dir), settings.maxEntries)
+      : createMemoryStore(settings?.maxEntries)
+  }
+  return store
+}
+
+// 测试或自定义部署可替换缓存实现
+export function setCacheStore(next: CacheStore){
+  store = next
+}
+
+// 键由插件、模型、提示词版本、输入（含文件内容）与可选的 userId 的哈希组成；修改提示词时需递增 promptVersion
+export function cacheKey(parts: CacheKeyParts): string {
+  const hash = createHash('sha256')
+  hash.update(stableStringify({
+    plugin: parts.plugin,
+    model: parts.model,
+    promptVersion: parts.promptVersion,
+    inputs: parts.inputs,
+    ...(parts.userId ? { userId: parts.userId } : {})
+  }))
+  if(parts.bytes) hash.update(parts.bytes)
+  return hash.digest('hex')
+}
+
+export async function withCache<T>(options: CacheOptions, compute: () => Promise<T>): Promise<CacheResult<T>> {
+  if(options.bypass){
+    return { value: await compute(), cache: { status: 'bypass', key: options.key } }
+  }
+  const cacheStore = getCacheStore()
+  if(options.invalidate){
+    await cacheStore.delete(options.key)
+  } else {
+    const entry = await readSafely(cacheStore, options.key)
+    if(entry){
+      return {
+        value: entry.value as T,
+        cache: { status: 'hit', key: options.key, stored_at: new Date(entry.storedAt).toISOString() }
+      }
+    }
+  }
+  const value = await compute()
+  const now = Date.now()
+  try {
+    await cacheStore.set(options.key, { value, storedAt: now, expiresAt: now + ttlFor(options.plugin) })
+  } catch (error) {
+    console.error('[result-cache] failed to store entry', {
+      plugin: options.plugin,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+  return { value, cache: { status: 'miss', key: options.key, stored_at: new Date(now).toISOString() } }
+}
+
+async function readSafely(cacheStore: CacheStore, key: string){
+  try {
+    return await cacheStore.get(key)
+  } catch (error) {
+    console.error('[result-cache] failed to read entry', { error: error instanceof Error ? error.message : String(error) })
+    return undefined
+  }
+}
+
+function ttlFor(plugin: string){
+  const settings = getPluginSettings().cache
+  return settings?.plugins?.[plugin]?.ttlMs ?? settings?.ttlMs ?? DEFAULT_TTL_MS
+}
@@ -0,0 +1,66 @@
+import { getConfig as loadConfig } from '../config.js'
+import { dataServiceRequest as defaultDataServiceRequest } from '../services/data-service.client.js'
+import type { PluginSettings } from './settings.js'
+
+export type AppConfig = ReturnType<typeof loadConfig>
+export type DataServiceRequest = typeof defaultDataServiceRequest
+
+type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T
+
+export interface RuntimeOverrides {
+  // 深度合并到 config.json 之上；数组整体替换
+  config?: DeepPartial<AppConfig & { plugins: PluginSettings }>
+  dataServiceRequest?: DataServiceRequest
+}
+
+let overrides: RuntimeOverrides = {}
+
+// 插件统一通过此模块读取配置和调用 Data Service，测试工具可以在进程内替换二者
+export function getConfig(): AppConfig {
+  if(!overrides.config) return loadConfig()
+  let base: AppConfig
+  try {
+    base = loadConfig()
+  } catch {
+    // 测试环境可能没有 config.json，此时完全使用覆盖配置
+    base = {} as AppConfig
+  }
+  return deepMerge(base, overrides.config) as AppConfig
+}
+
+export const dataServiceRequest = ((...args: Parameters<DataServiceRequest>) => {
+  const request = overrides.dataServiceRequest ?? defaultDataServiceRequest
+  return request(...args)
+}) as DataServiceRequest
+
+// Data Service 客户端（以及测试替身 FakeDataServiceError）抛出的错误：statusCode 为上游的 HTTP 状态码，details 为附带的数据
+export interface UpstreamError {
+  statusCode: number
+  message?: string
+  details?: Record<string, unknown>
+}
+
+export function isUpstreamError(error: unknown): error is UpstreamError {
+  return !!error && typeof error === 'object' && typeof (error as { statusCode?: unknown }).statusCode === 'number'
+}
+
+export function setRuntimeOverrides(next: RuntimeOverrides){
+  overrides = next
+}
+
+export function resetRuntimeOverrides(){
+  overrides = {}
+}
+
+function deepMerge(base: unknown, patch: unknown): unknown {
+  if(!isPlainObject(base) || !isPlainObject(patch)) return patch === undefined ? base : patch
+  const result: Record<string, unknown> = { ...base }
+  for(const [key, value] of Object.entries(patch)){
+    result[key] = deepMerge(base[key], value)
+  }
+  return result
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
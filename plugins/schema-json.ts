@@ -0,0 +1,82 @@
+import { z } from 'zod'
+
+export type JsonSchema = Record<string, unknown>
+
+// 插件 manifest 中的输入 schema：zod schema 或现成的 JSON Schema（如 ajv 使用的 schema 文件）。
+// 依赖配置构建的 schema 可以传入工厂函数，在描述时再求值。
+export type SchemaSource = z.ZodTypeAny | JsonSchema | (() => z.ZodTypeAny | JsonSchema)
+
+export function toJsonSchema(source: SchemaSource): JsonSchema {
+  const resolved = typeof source === 'function' ? source() : source
+  if(resolved instanceof z.ZodType) return fromZod(resolved)
+  return resolved
+}
+
+function fromZod(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description ? { description: schema.description } : {}
+
+  if(schema instanceof z.ZodObject){
+    const shape = schema.shape as Record<string, z.ZodTypeAny>
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+    for(const [key, value] of Object.entries(shape)){
+      properties[key] = fromZod(value)
+      if(!value.isOptional()) required.push(key)
+    }
+    return {
+      type: 'object',
+      properties,
+      ...(required.length ? { required } : {}),
+      ...description
+    }
+  }
+  if(schema instanceof z.ZodString){
+    const result: JsonSchema = { type: 'string', ...description }
+    for(const check of schema._def.checks){
+      if(check.kind === 'min') result.minLength = check.value
+      if(check.kind === 'max') result.maxLength = check.value
+    }
+    return result
+  }
+  if(schema instanceof z.ZodNumber){
+    const result: JsonSchema = { type: 'number', ...description }
+    for(const check of schema._def.checks){
+      if(check.kind === 'int') result.type = 'integer'
+      if(check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+      if(check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+    }
+    return result
+  }
+  if(schema instanceof z.ZodBoolean){
+    return { type: 'boolean', ...description }
+  }
+  if(schema instanceof z.ZodArray){
+    const result: JsonSchema = { type: 'array', items: fromZod(schema.element), ...description }
+    if(schema._def.minLength) result.minItems = schema._def.minLength.value
+    if(schema._def.maxLength) result.maxItems = schema._def.maxLength.value
+    return result
+  }
+  if(schema instanceof z.ZodEnum){
+    return { type: 'string', enum: [...schema.options], ...description }
+  }
+  if(schema instanceof z.ZodLiteral){
+    return { const: schema.value, ...description }
+  }
+  if(schema instanceof z.ZodUnion){
+    return { anyOf: schema.options.map((option: z.ZodTypeAny) => fromZod(option)), ...description }
+  }
+  if(schema instanceof z.ZodOptional){
+    return { ...fromZod(schema.unwrap()), ...description }
+  }
+  if(schema instanceof z.ZodNullable){
+    return { anyOf: [fromZod(schema.unwrap()), { type: 'null' }], ...description }
+  }
+  if(schema instanceof z.ZodDefault){
+    return { ...fromZod(schema.removeDefault()), default: schema._def.defaultValue(), ...description }
+  }
+  if(schema instanceof z.ZodEffects){
+    return { ...fromZod(schema.innerType()), ...description }
+  }
+  // ZodUnknown / ZodAny 等：不限制
+  return { ...description }
+}
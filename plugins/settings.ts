@@ -0,0 +1,136 @@
+import { getConfig } from './runtime.js'
+
+export interface PluginLimits {
+  // 固定窗口内的最大请求数
+  requests?: { limit: number; windowMs: number }
+  // 按 UTC 自然日计算的配额
+  daily?: { calls?: number; tokens?: number; audioBytes?: number }
+}
+
+// config.json 顶层 "plugins" 段：插件子系统（限流、用量记账等）的可选配置
+export interface PluginSettings {
+  // 按 userId + 插件名计数；plugins 中的配置覆盖 default
+  rateLimits?: {
+    default?: PluginLimits
+    plugins?: Record<string, PluginLimits>
+  }
+  cache?: {
+    // memory（默认）或 file；file 时每个条目写入 dir 下的一个 JSON 文件
+    driver?: 'memory' | 'file'
+    dir?: string
+    // 最多保存的条目数，默认 1000，超出时淘汰最久未使用的条目；file 驱动每分钟最多整理一次目录，期间可能短暂超出
+    maxEntries?: number
+    ttlMs?: number
+    plugins?: Record<string, { ttlMs?: number }>
+  }
+  idempotency?: {
+    // 相同 idempotency_key 的重放窗口，默认 1 小时
+    ttlMs?: number
+  }
+  usage?: {
+    // 用量明细追加写入的 JSONL 文件；未配置时仅保存在内存中，且只能查询 memoryDays 内的用量
+    ledgerPath?: string
+    // 内存中保留的最近 UTC 自然日数，默认 7；更早的查询从 ledgerPath 流式读取
+    memoryDays?: number
+    // 可以查询所有用户用量的 userId
+    admins?: string[]
+  }
+  sharing?: {
+    // 讲座成员与分享链接的快照 JSON 文件；未配置时不能共享讲座
+    storePath?: string
+    // 分享链接的默认与最长有效期，默认 7 天与 30 天
+    linkTtlMs?: number
+    maxLinkTtlMs?: number
+  }
+  trash?: {
+    // 回收站记录的快照 JSON 文件；未配置时只保存在内存中，重启后丢失
+    storePath?: string
+    // 移入回收站后保留的时长，超过后彻底删除，默认 30 天
+    retentionMs?: number
+    // 定时清理保留期满的讲座的间隔，默认 1 小时
+    purgeIntervalMs?: number
+  }
+  search?: {
+    // 检索索引最多保存的讲座数，默认 500，超出时淘汰最久未被检索或写入的讲座
+    maxLectures?: number
+    // 每个用户的讲座列表缓存时长，默认 30 秒
+    listTtlMs?: number
+  }
+  reports?: {
+    // 课程报告版本历史的目录，每个讲座一个追加写入的 JSONL 文件；未配置时课程总结照常写入，只是不记录版本
+    storeDir?: string
+    // 每个讲座保留的最近版本数，默认 50
+    maxVersions?: number
+  }
+  auth?: AuthSettings
+  credentials?: CredentialSettings
+  // 认证插件调用 Auth Service 的超时与重试；只重试连接类的瞬时网络错误
+  authService?: {
+    timeoutMs?: number
+    maxRetries?: number
+    // 第 n 次重试前在 [0, retryDelayMs * 2^n) 内随机等待
+    retryDelayMs?: number
+  }
+}
+
+// 注册时的用户名 / 密码规则与登录失败锁定
+export interface CredentialSettings {
+  username?: {
+    minLength?: number
+    maxLength?: number
+    // 正则表达式字符串
+    pattern?: string
+  }
+  password?: {
+    minLength?: number
+    maxLength?: number
+    requireLetter?: boolean
+    requireDigit?: boolean
+    requireMixedCase?: boolean
+    requireSymbol?: boolean
+    // 密码中不得包含用户名
+    forbidUsername?: boolean
+  }
+  lockout?: LockoutPolicy
+}
+
+export interface LockoutPolicy {
+  // 窗口内同一用户名 / 同一调用方允许的失败次数，超过后开始锁定
+  maxAttemptsPerUsername?: number
+  maxAttemptsPerCaller?: number
+  windowMs?: number
+  // 首次锁定时长，此后每次失败翻倍，直至 maxLockMs
+  baseLockMs?: number
+  maxLockMs?: number
+  // 网关与服务之间可信代理的层数，从 X-Forwarded-For 右侧数第 trustedProxyHops 个地址作为调用方；0 表示不信任转发头，只按用户名计数
+  trustedProxyHops?: number
+}
+
+// bearer token 本地校验；keys 与 jwksPath 可同时配置，按 JWT header 中的 kid 匹配
+export interface AuthSettings {
+  enabled?: boolean
+  issuer?: string
+  audience?: string
+  keys?: AuthKey[]
+  // 本地 JWKS 文件（{ "keys": [...] }），启动后首次校验时读取
+  jwksPath?: string
+  // 角色所在的 claim，默认 roles
+  rolesClaim?: string
+  clockToleranceSec?: number
+  // 按 "插件名" 或 "插件名:操作" 追加角色限制，优先于 manifest 中的 roles
+  roles?: Record<string, string[]>
+}
+
+export interface AuthKey {
+  kid?: string
+  alg: 'HS256' | 'RS256' | 'ES256'
+  // HS256 共享密钥
+  secret?: string
+  // RS256 / ES256 的 PEM 公钥
+  publicKey?: string
+}
+
+export function getPluginSettings(): PluginSettings {
+  const config = getConfig() as ReturnType<typeof getConfig> & { plugins?: PluginSettings }
+  return config.plugins ?? {}
+}
@@ -0,0 +1,12 @@
+// 键按字典序排列的 JSON 序列化，用于对输入计算稳定的哈希
+export function stableStringify(value: unknown): string {
+  if(Array.isArray(value)) return `[${value.map((item) => stableStringify(item)).join(',')}]`
+  if(value && typeof value === 'object'){
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
@@ -1,7 +1,11 @@
-import { registerPlugin } from './registry.js'
+import { registerPlugin, type PluginManifest } from './registry.js'
 import { ValidationError } from '../errors/validation.error.js'
 import { SC } from '../constants/status-codes.js'
-import { getConfig } from '../config.js'
+import { getConfig, isUpstreamError } from './runtime.js'
+import { recordModelUsage, type UsageMeta } from './usage-ledger.js'
+import { cacheKey, withCache } from './result-cache.js'
+import { fetchTranscriptText } from './lecture-transcript.js'
+import { authorizeLecture, ownerContext } from './lecture-access.js'
 import type { PluginContext, PluginResponse } from '../types/index.js'
 import { z } from 'zod'
 import OpenAI from 'openai'
@@ -9,11 +13,22 @@ import OpenAI from 'openai'
 const stageSchema = z.object({
   previous2: z.string().optional(),
   previous: z.string().optional(),
-  current: z.string().min(20, 'current text is too short'),
+  // 缺省时按 lecture_id 与 from_ms / to_ms 从 Data Service 读取转录
+  current: z.string().min(20, 'current text is too short').optional(),
   language: z.string().min(2, 'language is required'),
-  keywords: z.array(z.string().min(1)).max(50).optional()
+  keywords: z.array(z.string().min(1)).max(50).optional(),
+  // 用量按讲座归集；未提供 current 时也用于读取转录
+  lecture_id: z.string().min(1).optional(),
+  from_ms: z.number().nonnegative().optional(),
+  to_ms: z.number().nonnegative().optional(),
+  // 跳过结果缓存 / 丢弃已缓存结果并重新生成
+  cache_bypass: z.boolean().optional(),
+  cache_invalidate: z.boolean().optional()
 })
 
+// 修改提示词或 JSON_SCHEMA 时递增，使旧的缓存结果失效
+const PROMPT_VERSION = '1'
+
 const JSON_SCHEMA = {
   name: 'StageTranscriptionSummary',
   strict: true,
@@ -40,7 +55,16 @@ const JSON_SCHEMA = {
   }
 } as const
 
-registerPlugin('audio.stage-summary', async ({ intent, userId }: PluginContext): Promise<PluginResponse> => {
+const MANIFEST: PluginManifest = {
+  version: '1.0.0',
+  description: '阶段性总结生成',
+  operations: {
+    stage: { description: '结合前序阶段内容总结当前转录片段', inputs: stageSchema }
+  }
+}
+
+registerPlugin('audio.stage-summary', async (ctx: PluginContext): Promise<PluginResponse> => {
+  const { intent, userId, requestId, signal } = ctx
   try {
     ensureUser(userId)
     if (intent?.operation !== 'stage') {
@@ -50,27 +74,51 @@ registerPlugin('audio.stage-summary', async ({ intent, userId }: PluginContext):
     if (!parsed.success) {
       return { status_code: SC.BAD_REQUEST, message: formatZodError(parsed.error), data: {} }
     }
-    const { previous2, previous, current, language, keywords } = parsed.data
-    const client = createOpenAIClient()
-    const result = await summarizeStage(client, { previous2, previous, current, language, keywords: keywords ?? [] })
-    return { status_code: SC.OK, message: 'ok', data: result }
+    const { previous2, previous, language, keywords, lecture_id, from_ms, to_ms, cache_bypass, cache_invalidate } = parsed.data
+    const current = parsed.data.current ?? await currentFromTranscript(lecture_id, { from_ms, to_ms }, ctx)
+    const payload: StagePayload = { previous2, previous, current, language, keywords: keywords ?? [] }
+    const usage = { plugin: 'audio.stage-summary', userId, requestId, lectureId: lecture_id }
+    // temperature 为 0，相同输入的结果可复用
+    const key = cacheKey({
+      plugin: 'audio.stage-summary',
+      model: getConfig().openai.models.stageSummary,
+      promptVersion: PROMPT_VERSION,
+      inputs: payload
+    })
+    const { value, cache } = await withCache(
+      { plugin: 'audio.stage-summary', key, bypass: cache_bypass, invalidate: cache_invalidate },
+      () => summarizeStage(createOpenAIClient(), payload, usage, signal)
+    )
+    return { status_code: SC.OK, message: 'ok', data: value, meta: { cache } }
   } catch (error) {
     if (error instanceof ValidationError) {
       return { status_code: SC.BAD_REQUEST, message: error.message, data: {} }
     }
+    // 读取转录时 Data Service 返回的 4xx（如讲座不存在）原样透传
+    if (isUpstreamError(error) && error.statusCode < 500) {
+      return { status_code: error.statusCode, message: error.message ?? 'upstream error', data: error.details ?? {} }
+    }
     return {
       status_code: SC.INTERNAL,
       message: 'stage summary failed',
       data: { error: error instanceof Error ? error.message : String(error) }
     }
   }
-})
+}, MANIFEST)
 
 function ensureUser(userId: string | undefined) {
   if (!userId) throw new ValidationError('missing user id')
   return userId
 }
 
+// 传入完整的 ctx：分享链接的令牌在 ctx.headers 中
+async function currentFromTranscript(lectureId: string | undefined, range: { from_ms?: number; to_ms?: number }, ctx: PluginContext) {
+  if (!lectureId) throw new ValidationError('current or lecture_id is required')
+  const text = await fetchTranscriptText(lectureId, range, ownerContext(ctx, authorizeLecture(lectureId, 'viewer', ctx)))
+  if (text.length < 20) throw new ValidationError('current text is too short')
+  return text
+}
+
 function formatZodError(error: z.ZodError) {
   return error.issues.map((issue) => issue.message ?? issue.code).join('; ') || 'invalid inputs'
 }
@@ -89,12 +137,13 @@ function createOpenAIClient(): OpenAI {
   return new OpenAI({ apiKey: config.openai.apiKey, baseURL: config.openai.baseURL })
 }
 
-async function summarizeStage(client: OpenAI, payload: StagePayload) {
+async function summarizeStage(client: OpenAI, payload: StagePayload, usage: Omit<UsageMeta, 'model'>, signal?: AbortSignal) {
   const config = getConfig()
   const prompt = buildPrompt(payload)
+  const model = config.openai.models.stageSummary
 
   const response: any = await client.responses.create({
-    model: config.openai.models.stageSummary,
+    model,
     input: [
       { role: 'system', content: '只输出合法 JSON，不要任何额外文字。' },
       { role: 'user', content: [{ type: 'input_text', text: prompt }] }
@@ -105,7 +154,8 @@ async function summarizeStage(client: OpenAI, payload: StagePayload) {
     },
     temperature: 0,
     store: false
-  } as any)
+  } as any, { signal })
+  recordModelUsage({ ...usage, model }, response.usage)
 
   const parsed = response.output_parsed ?? extractJsonPayload(response)
   return normalizeSummary(parsed)
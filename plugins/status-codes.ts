@@ -0,0 +1,15 @@
+// 插件层在 SC 之外使用的状态码
+export const PSC = {
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  // 登录失败次数过多，账号或调用方暂时锁定
+  LOCKED: 423,
+  TOO_MANY_REQUESTS: 429,
+  // 调用方断开或主动取消（沿用 nginx 的 499 Client Closed Request）
+  CANCELLED: 499,
+  // 上游服务（如 Auth Service）故障或不可达
+  BAD_GATEWAY: 502,
+  DEADLINE_EXCEEDED: 504
+} as const
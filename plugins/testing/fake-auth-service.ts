@@ -0,0 +1,102 @@
+import { createServer } from 'node:http'
+import { randomUUID } from 'node:crypto'
+import type { AddressInfo } from 'node:net'
+import { closeServer, readBody, sendJson, type RecordedRequest } from './fake-openai.js'
+
+export interface FakeAuthUser {
+  userId: string
+  username: string
+  password: string
+}
+
+export interface FakeAuthService {
+  url: string
+  users: Map<string, FakeAuthUser>
+  // accessToken / refreshToken -> username
+  accessTokens: Map<string, string>
+  refreshTokens: Map<string, string>
+  requests: RecordedRequest[]
+  close(): Promise<void>
+}
+
+// 本地模拟 Auth Service 的登录、注册与会话接口
+export async function startFakeAuthService(): Promise<FakeAuthService> {
+  const users = new Map<string, FakeAuthUser>()
+  const accessTokens = new Map<string, string>()
+  const refreshTokens = new Map<string, string>()
+  const requests: RecordedRequest[] = []
+
+  function issueSession(user: FakeAuthUser){
+    const accessToken = `fake-access.${randomUUID()}`
+    const refreshToken = `fake-refresh.${randomUUID()}`
+    accessTokens.set(accessToken, user.username)
+    refreshTokens.set(refreshToken, user.username)
+    return { accessToken, refreshToken, userId: user.userId, username: user.username }
+  }
+
+  function userOfBearer(header: string | undefined){
+    const token = header?.replace(/^Bearer\s+/i, '')
+    const username = token ? accessTokens.get(token) : undefined
+    return username ? users.get(username) : undefined
+  }
+
+  const server = createServer(async (req, res) => {
+    const raw = await readBody(req)
+    let body: any = {}
+    try {
+      body = raw.length ? JSON.parse(raw.toString('utf8')) : {}
+    } catch {
+      return sendJson(res, 400, { error: 'invalid json' })
+    }
+    const path = (req.url ?? '/').split('?')[0]
+    requests.push({ method: req.method ?? 'GET', path, body })
+
+    if(req.method === 'POST' && path === '/auth/register'){
+      if(users.has(body.username)) return sendJson(res, 409, { error: 'username taken' })
+      const user = { userId: randomUUID(), username: body.username, password: body.password }
+      users.set(user.username, user)
+      return sendJson(res, 200, { userId: user.userId, username: user.username })
+    }
+    if(req.method === 'POST' && path === '/auth/login'){
+      const user = users.get(body.username)
+      if(!user || user.password !== body.password) return sendJson(res, 401, { error: 'invalid credentials' })
+      return sendJson(res, 200, issueSession(user))
+    }
+    if(req.method === 'POST' && path === '/auth/refresh'){
+      const username = refreshTokens.get(body.refreshToken)
+      const user = username ? users.get(username) : undefined
+      if(!user) return sendJson(res, 401, { error: 'invalid refresh token' })
+      refreshTokens.delete(body.refreshToken)
+      return sendJson(res, 200, issueSession(user))
+    }
+    if(req.method === 'POST' && path === '/auth/logout'){
+      refreshTokens.delete(body.refreshToken)
+      return sendJson(res, 200, { ok: true })
+    }
+    if(req.method === 'GET' && path === '/auth/me'){
+      const user = userOfBearer(req.headers.authorization)
+      if(!user) return sendJson(res, 401, { error: 'invalid token' })
+      return sendJson(res, 200, { userId: user.userId, username: user.username })
+    }
+    if(req.method === 'POST' && path === '/auth/change-password'){
+      const user = userOfBearer(req.headers.authorization)
+      if(!user) return sendJson(res, 401, { error: 'invalid token' })
+      if(user.password !== body.currentPassword) return sendJson(res, 403, { error: 'current password mismatch' })
+      user.password = body.newPassword
+      return sendJson(res, 200, { ok: true })
+    }
+    sendJson(res, 404, { error: `no fake route for ${req.method} ${path}` })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    users,
+    accessTokens,
+    refreshTokens,
+    requests,
+    close: () => closeServer(server)
+  }
+}
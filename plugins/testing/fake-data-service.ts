@@ -0,0 +1,188 @@
+import { randomUUID } from 'node:crypto'
+import type { DataServiceRequest } from '../runtime.js'
+
+export interface FakeLecture {
+  lecture_id: string
+  owner_id?: string
+  title?: string
+  language?: string
+  file_ids?: string[]
+  created_at: string
+  updated_at: string
+  [key: string]: unknown
+}
+
+export interface FakeDataCall {
+  method: string
+  path: string
+  body?: unknown
+  userId?: string
+  requestId?: string
+}
+
+export interface FakeDataState {
+  lectures: Map<string, FakeLecture>
+  transcriptions: Map<string, unknown[]>
+  summaries: Map<string, unknown[]>
+  reports: Map<string, Map<number, string>>
+}
+
+export interface FakeDataService {
+  request: DataServiceRequest
+  state: FakeDataState
+  calls: FakeDataCall[]
+  seedLecture(lecture: Partial<FakeLecture>): FakeLecture
+  // 下一次请求以给定状态码失败，用于测试错误映射与重试
+  failNext(statusCode: number, message?: string): void
+  // GET /lectures 改为按 limit / cursor 分页返回 { items, next_cursor, total }，模拟已支持分页的 Data Service
+  paginateLectures(): void
+  reset(): void
+}
+
+// 与真实 Data Service 客户端抛出的错误保持同样的 statusCode / details 字段
+export class FakeDataServiceError extends Error {
+  constructor(public statusCode: number, message: string, public details: Record<string, unknown> = {}){
+    super(message)
+    this.name = 'FakeDataServiceError'
+  }
+}
+
+export function createFakeDataService(): FakeDataService {
+  const state: FakeDataState = {
+    lectures: new Map(),
+    transcriptions: new Map(),
+    summaries: new Map(),
+    reports: new Map()
+  }
+  const calls: FakeDataCall[] = []
+  const failures: FakeDataServiceError[] = []
+  let paginated = false
+
+  function seedLecture(lecture: Partial<FakeLecture>): FakeLecture {
+    const now = new Date().toISOString()
+    const stored: FakeLecture = { created_at: now, updated_at: now, ...lecture, lecture_id: lecture.lecture_id ?? randomUUID() }
+    state.lectures.set(stored.lecture_id, stored)
+    return stored
+  }
+
+  function lectureOf(id: string){
+    const lecture = state.lectures.get(id)
+    if(!lecture) throw new FakeDataServiceError(404, 'lecture not found', { lecture_id: id })
+    return lecture
+  }
+
+  function listOf(map: Map<string, unknown[]>, id: string){
+    let list = map.get(id)
+    if(!list){
+      list = []
+      map.set(id, list)
+    }
+    return list
+  }
+
+  function handle(method: string, url: string, body: any, userId?: string): unknown {
+    // 与尚未支持分页的 Data Service 一样忽略查询参数，返回完整列表
+    const path = url.split('?')[0]
+    if(path === '/lectures'){
+      if(method === 'GET'){
+        const lectures = [...state.lectures.values()].filter((lecture) => !userId || !lecture.owner_id || lecture.owner_id === userId)
+        if(!paginated) return { lectures }
+        // 游标为偏移量；只分页，不处理过滤与排序参数
+        const query = new URLSearchParams(url.split('?')[1] ?? '')
+        const offset = Number(query.get('cursor') ?? 0)
+        const limit = Number(query.get('limit') ?? 20)
+        const next = offset + limit
+        return { items: lectures.slice(offset, next), next_cursor: next < lectures.length ? String(next) : null, total: lectures.length }
+      }
+      if(method === 'POST') return { lecture: seedLecture({ ...body, owner_id: userId }) }
+    }
+
+    const match = /^\/lectures\/([^/]+)(?:\/([^/]+)(?:\/(\d+))?)?$/.exec(path)
+    if(!match) throw new FakeDataServiceError(404, `no fake route for ${method} ${path}`)
+    const [, id, resource, seqNo] = match
+
+    if(!resource){
+      if(method === 'GET') return { lecture: lectureOf(id) }
+      if(method === 'PATCH'){
+        const lecture = Object.assign(lectureOf(id), body ?? {}, { updated_at: new Date().toISOString() })
+        return { lecture }
+      }
+      if(method === 'DELETE'){
+        lectureOf(id)
+        state.lectures.delete(id)
+        return { deleted: true, lecture_id: id }
+      }
+    }
+
+    lectureOf(id)
+    // 按 seq_no 删除片段不在原有的 Data Service 约定中，这里按插件要求的接口实现（见 README 的 workflow.run）
+    if(seqNo !== undefined && method === 'DELETE' && (resource === 'transcription' || resource === 'transcription-summary')){
+      const list = listOf(resource === 'transcription' ? state.transcriptions : state.summaries, id)
+      const index = list.findIndex((entry: any) => entry?.seq_no === Number(seqNo))
+      if(index < 0) throw new FakeDataServiceError(404, 'segment not found', { lecture_id: id, seq_no: Number(seqNo) })
+      list.splice(index, 1)
+      return { deleted: true, seq_no: Number(seqNo) }
+    }
+    if(resource === 'transcription' && method === 'POST'){
+      listOf(state.transcriptions, id).push(body)
+      return { ok: true }
+    }
+    if(resource === 'transcription' && method === 'GET'){
+      return { items: listOf(state.transcriptions, id) }
+    }
+    if(resource === 'transcription-summary' && method === 'POST'){
+      listOf(state.summaries, id).push(body)
+      return { ok: true }
+    }
+    if(resource === 'report' && method === 'POST'){
+      let reports = state.reports.get(id)
+      if(!reports){
+        reports = new Map()
+        state.reports.set(id, reports)
+      }
+      reports.set(body.seq_no, body.md)
+      return { ok: true, seq_no: body.seq_no }
+    }
+    if(resource === 'stage-summaries-text' && method === 'GET'){
+      const text = listOf(state.summaries, id)
+        .map((entry: any) => typeof entry?.content === 'string' ? entry.content : JSON.stringify(entry))
+        .join('\n\n')
+      return { stage_summaries_text: text, total_length: text.length }
+    }
+    if(resource === 'post-class-background' && method === 'GET'){
+      return { lecture: lectureOf(id), stage_summaries: listOf(state.summaries, id) }
+    }
+    throw new FakeDataServiceError(404, `no fake route for ${method} ${path}`)
+  }
+
+  const request = (async (path: string, init: { method: string; body?: unknown; signal?: AbortSignal }, ctx: { userId?: string; requestId?: string }) => {
+    calls.push({ method: init.method, path, body: init.body, userId: ctx?.userId, requestId: ctx?.requestId })
+    if(init.signal?.aborted) throw init.signal.reason ?? new Error('aborted')
+    const failure = failures.shift()
+    if(failure) throw failure
+    // 深拷贝，避免插件修改返回值影响内存状态
+    return structuredClone(handle(init.method, path, init.body, ctx?.userId))
+  }) as DataServiceRequest
+
+  return {
+    request,
+    state,
+    calls,
+    seedLecture,
+    failNext(statusCode, message = 'fake data service failure'){
+      failures.push(new FakeDataServiceError(statusCode, message))
+    },
+    paginateLectures(){
+      paginated = true
+    },
+    reset(){
+      state.lectures.clear()
+      state.transcriptions.clear()
+      state.summaries.clear()
+      state.reports.clear()
+      calls.length = 0
+      failures.length = 0
+      paginated = false
+    }
+  }
+}
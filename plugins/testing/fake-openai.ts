@@ -0,0 +1,180 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+export interface RecordedRequest {
+  method: string
+  path: string
+  body: any
+}
+
+export interface FakeModelReply {
+  // 纯文本输出；json 存在时以其 JSON 字符串作为输出文本
+  text?: string
+  json?: unknown
+  usage?: Record<string, unknown>
+  // 非 2xx 时返回 OpenAI 风格的错误体
+  status?: number
+  error?: string
+}
+
+export interface FakeTranscriptionReply {
+  text?: string
+  usage?: Record<string, unknown>
+  status?: number
+  error?: string
+}
+
+export type ResponsesScript = (body: any) => FakeModelReply
+export type TranscriptionScript = () => FakeTranscriptionReply
+
+export interface FakeOpenAI {
+  // 形如 http://127.0.0.1:<port>/v1，直接作为 config.openai.baseURL
+  url: string
+  requests: RecordedRequest[]
+  conversations: Map<string, { id: string; metadata: Record<string, string> }>
+  onResponses(script: ResponsesScript): void
+  onTranscription(script: TranscriptionScript): void
+  close(): Promise<void>
+}
+
+const DEFAULT_USAGE = { input_tokens: 10, output_tokens: 5, total_tokens: 15 }
+
+// 本地模拟 OpenAI 的 Responses、Files、Audio transcriptions 与 Conversations 接口
+export async function startFakeOpenAI(): Promise<FakeOpenAI> {
+  const requests: RecordedRequest[] = []
+  const conversations = new Map<string, { id: string; metadata: Record<string, string> }>()
+  let responsesScript: ResponsesScript = () => ({ text: 'ok' })
+  let transcriptionScript: TranscriptionScript = () => ({ text: '' })
+  let counter = 0
+  const nextId = (prefix: string) => `${prefix}_${++counter}`
+
+  const server = createServer(async (req, res) => {
+    try {
+      const raw = await readBody(req)
+      const path = (req.url ?? '/').replace(/^\/v1/, '').split('?')[0]
+      const isJson = (req.headers['content-type'] ?? '').includes('application/json')
+      const body = isJson && raw.length ? JSON.parse(raw.toString('utf8')) : raw
+      requests.push({ method: req.method ?? 'GET', path, body })
+      route(req.method ?? 'GET', path, body, res)
+    } catch (error) {
+      sendJson(res, 500, { error: { message: error instanceof Error ? error.message : String(error) } })
+    }
+  })
+
+  function route(method: string, path: string, body: any, res: ServerResponse){
+    if(method === 'POST' && path === '/responses') return handleResponses(body, res)
+    if(method === 'POST' && path === '/files'){
+      return sendJson(res, 200, {
+        id: nextId('file'),
+        object: 'file',
+        bytes: Buffer.isBuffer(body) ? body.length : 0,
+        created_at: nowSeconds(),
+        filename: 'upload',
+        purpose: 'assistants',
+        status: 'processed'
+      })
+    }
+    if(method === 'POST' && path === '/audio/transcriptions'){
+      const reply = transcriptionScript()
+      if(reply.status && reply.status >= 400) return sendError(res, reply.status, reply.error)
+      return sendJson(res, 200, { text: reply.text ?? '', ...(reply.usage ? { usage: reply.usage } : {}) })
+    }
+    if(method === 'POST' && path === '/conversations'){
+      const conversation = { id: nextId('conv'), metadata: body?.metadata ?? {} }
+      conversations.set(conversation.id, conversation)
+      return sendJson(res, 200, { ...conversation, object: 'conversation', created_at: nowSeconds() })
+    }
+    const match = /^\/conversations\/([^/]+)$/.exec(path)
+    if(match){
+      const conversation = conversations.get(match[1])
+      if(!conversation) return sendError(res, 404, 'conversation not found')
+      if(method === 'GET') return sendJson(res, 200, { ...conversation, object: 'conversation' })
+      if(method === 'POST'){
+        conversation.metadata = body?.metadata ?? conversation.metadata
+        return sendJson(res, 200, { ...conversation, object: 'conversation' })
+      }
+      if(method === 'DELETE'){
+        conversations.delete(conversation.id)
+        return sendJson(res, 200, { id: conversation.id, object: 'conversation.deleted', deleted: true })
+      }
+    }
+    sendError(res, 404, `no fake route for ${method} ${path}`)
+  }
+
+  function handleResponses(body: any, res: ServerResponse){
+    const reply = responsesScript(body)
+    if(reply.status && reply.status >= 400) return sendError(res, reply.status, reply.error)
+    const text = reply.json !== undefined ? JSON.stringify(reply.json) : reply.text ?? ''
+    const response = {
+      id: nextId('resp'),
+      object: 'response',
+      created_at: nowSeconds(),
+      status: 'completed',
+      model: body?.model,
+      output: [
+        {
+          id: nextId('msg'),
+          type: 'message',
+          role: 'assistant',
+          status: 'completed',
+          content: [{ type: 'output_text', text, annotations: [] }]
+        }
+      ],
+      output_text: text,
+      usage: reply.usage ?? DEFAULT_USAGE
+    }
+    if(!body?.stream) return sendJson(res, 200, response)
+
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' })
+    for(const delta of chunk(text, 8)){
+      writeEvent(res, { type: 'response.output_text.delta', delta })
+    }
+    writeEvent(res, { type: 'response.completed', response })
+    res.end()
+  }
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    conversations,
+    onResponses(script){ responsesScript = script },
+    onTranscription(script){ transcriptionScript = script },
+    close: () => closeServer(server)
+  }
+}
+
+export async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const part of req) chunks.push(part as Buffer)
+  return Buffer.concat(chunks)
+}
+
+export function sendJson(res: ServerResponse, status: number, payload: unknown){
+  res.writeHead(status, { 'content-type': 'application/json' })
+  res.end(JSON.stringify(payload))
+}
+
+export function closeServer(server: Server){
+  return new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+}
+
+function sendError(res: ServerResponse, status: number, message = 'fake error'){
+  sendJson(res, status, { error: { message, type: 'invalid_request_error' } })
+}
+
+function writeEvent(res: ServerResponse, event: { type: string } & Record<string, unknown>){
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+}
+
+function chunk(text: string, size: number){
+  const parts: string[] = []
+  for(let i = 0; i < text.length; i += size) parts.push(text.slice(i, i + size))
+  return parts
+}
+
+function nowSeconds(){
+  return Math.floor(Date.now() / 1000)
+}
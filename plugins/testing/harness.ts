@@ -0,0 +1,140 @@
+import { randomUUID } from 'node:crypto'
+import { getPlugin, isStreamingResponse, type PluginStreamEvent } from '../registry.js'
+import { resetRuntimeOverrides, setRuntimeOverrides, type RuntimeOverrides } from '../runtime.js'
+import { createMemoryStore, setCacheStore } from '../result-cache.js'
+import { resetRateLimits } from '../rate-limit.js'
+import { resetIdempotency } from '../idempotency.js'
+import { resetUsageLedger } from '../usage-ledger.js'
+import { resetLoginGuard } from '../login-guard.js'
+import { resetTokenKeys } from '../token-auth.js'
+import { resetSearchIndex } from '../lecture-search.js'
+import { resetLectureAccess } from '../lecture-access.js'
+import { resetTrash } from '../lecture-trash.js'
+import { resetReportHistory } from '../lecture-reports.js'
+import { resetLectureStatus } from '../lecture-status.js'
+import { startFakeOpenAI, type FakeOpenAI } from './fake-openai.js'
+import { createFakeDataService, type FakeDataService } from './fake-data-service.js'
+import { startFakeAuthService, type FakeAuthService } from './fake-auth-service.js'
+import type { PluginContext, PluginResponse } from '../../types/index.js'
+
+export interface HarnessOptions {
+  // 额外的配置覆盖，深度合并在测试默认值之上
+  config?: RuntimeOverrides['config']
+}
+
+export interface InvokeOptions {
+  operation?: string
+  inputs?: Record<string, unknown>
+  userId?: string
+  requestId?: string
+  headers?: Record<string, string>
+  signal?: AbortSignal
+  deadline?: number
+}
+
+export interface PluginHarness {
+  openai: FakeOpenAI
+  dataService: FakeDataService
+  authService: FakeAuthService
+  invokePlugin(name: string, options?: InvokeOptions): Promise<PluginResponse>
+  close(): Promise<void>
+}
+
+export const TEST_USER_ID = 'test-user'
+
+// 在进程内加载全部插件与中间件，OpenAI / Data Service / Auth Service 均替换为本地替身，测试无需网络与密钥
+export async function createPluginHarness(options: HarnessOptions = {}): Promise<PluginHarness> {
+  const openai = await startFakeOpenAI()
+  const authService = await startFakeAuthService()
+  const dataService = createFakeDataService()
+
+  setRuntimeOverrides({
+    dataServiceRequest: dataService.request,
+    config: mergeConfig({
+      openai: {
+        apiKey: 'test-key',
+        baseURL: openai.url,
+        models: {
+          transcribe: 'test-transcribe',
+          material: 'test-material',
+          stageSummary: 'test-stage-summary',
+          dialogue: 'test-dialogue',
+          courseSummary: 'test-course-summary'
+        },
+        limits: {
+          maxAudioBytes: 5 * 1024 * 1024,
+          maxFileBytes: 5 * 1024 * 1024,
+          maxFileIds: 10,
+          minSummaryLength: 1
+        }
+      },
+      authService: { url: authService.url },
+      plugins: {}
+    }, options.config)
+  })
+  await resetModuleState()
+  await import('../index.js')
+
+  return {
+    openai,
+    dataService,
+    authService,
+    async invokePlugin(name, invoke = {}){
+      const handler = getPlugin(name)
+      if(!handler) throw new Error(`plugin not registered: ${name}`)
+      const intent = { operation: invoke.operation ?? '', inputs: invoke.inputs ?? {} }
+      const ctx = {
+        intent,
+        envelope: { pluginName: name, intent },
+        headers: invoke.headers ?? {},
+        userId: invoke.userId === undefined ? TEST_USER_ID : invoke.userId || undefined,
+        requestId: invoke.requestId ?? randomUUID(),
+        signal: invoke.signal,
+        deadline: invoke.deadline
+      } as PluginContext
+      return handler(ctx)
+    },
+    async close(){
+      resetRuntimeOverrides()
+      await resetModuleState()
+      await Promise.all([openai.close(), authService.close()])
+    }
+  }
+}
+
+// 插件模块在进程内只加载一次，各模块的进程内状态（限流计数、幂等结果、用量、登录锁定、索引、共享、回收站、报告版本、讲座状态）
+// 在创建与关闭 harness 时清空，避免用例之间互相影响
+async function resetModuleState(){
+  setCacheStore(createMemoryStore())
+  resetRateLimits()
+  resetIdempotency()
+  resetLoginGuard()
+  resetTokenKeys()
+  resetLectureStatus()
+  // 带持久化的模块先等待进行中的写入完成，避免下一个 harness 读到写了一半的文件；检索索引等待后台补齐结束
+  await Promise.all([resetSearchIndex(), resetUsageLedger(), resetLectureAccess(), resetTrash(), resetReportHistory()])
+}
+
+// 读完流式响应，返回全部事件与拼接后的增量文本
+export async function drainStream(response: PluginResponse){
+  const events: PluginStreamEvent[] = []
+  let text = ''
+  if(!isStreamingResponse(response)) return { events, text }
+  for await (const event of response.stream){
+    events.push(event)
+    if(event.type === 'delta') text += event.delta
+  }
+  return { events, text }
+}
+
+function mergeConfig(defaults: Record<string, any>, patch?: Record<string, any>): Record<string, any> {
+  if(!patch) return defaults
+  const result: Record<string, any> = { ...defaults }
+  for(const [key, value] of Object.entries(patch)){
+    const base = defaults[key]
+    result[key] = base && typeof base === 'object' && !Array.isArray(base) && value && typeof value === 'object' && !Array.isArray(value)
+      ? mergeConfig(base, value)
+      : value
+  }
+  return result
+}
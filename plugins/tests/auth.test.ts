@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type InvokeOptions, type PluginHarness } from '../testing/harness.js'
+
+let harness: PluginHarness | undefined
+
+afterEach(async () => {
+  await harness?.close()
+  harness = undefined
+})
+
+// 登录、注册、刷新等为公开插件，不带 userId 调用
+function call(name: string, operation: string, inputs: Record<string, unknown>, options: InvokeOptions = {}){
+  return harness!.invokePlugin(name, { operation, inputs, userId: '', ...options })
+}
+
+function login(username: string, password: string, headers?: Record<string, string>){
+  return call('auth_password', 'login', { username, password }, { headers })
+}
+
+async function withUser(config?: Record<string, any>){
+  harness = await createPluginHarness({ config })
+  harness.authService.users.set('bob', { userId: 'u1', username: 'bob', password: 'secret123' })
+  return harness
+}
+
+describe('auth_password', () => {
+  it('登录成功返回会话令牌，密码错误返回 invalid_credentials', async () => {
+    await withUser()
+    const ok = await login('bob', 'secret123')
+    expect(ok.status_code).toBe(200)
+    expect(ok.data).toMatchObject({ userId: 'u1', username: 'bob', accessToken: expect.any(String) })
+
+    expect(await login('bob', 'wrong')).toMatchObject({ status_code: 401, message: 'auth failed', data: { code: 'invalid_credentials' } })
+  })
+
+  it('缺少用户名或密码返回 400', async () => {
+    await withUser()
+    expect(await login('bob', '')).toMatchObject({ status_code: 400, data: { code: 'invalid_input' } })
+  })
+
+  it('连续失败后锁定用户名，锁定期间不再请求 Auth Service', async () => {
+    await withUser({ plugins: { credentials: { lockout: { maxAttemptsPerUsername: 2 } } } })
+    expect((await login('bob', 'wrong')).status_code).toBe(401)
+    const locked = await login('bob', 'wrong')
+    expect(locked).toMatchObject({ status_code: 423, data: { code: 'login_locked' } })
+    expect(locked.retry_after).toBeGreaterThan(0)
+
+    const requests = harness!.authService.requests.length
+    expect((await login('bob', 'secret123')).status_code).toBe(423)
+    expect(harness!.authService.requests).toHaveLength(requests)
+  })
+
+  it('同一调用方的失败跨用户名累计', async () => {
+    await withUser({ plugins: { credentials: { lockout: { maxAttemptsPerCaller: 2 } } } })
+    const headers = { 'x-forwarded-for': '203.0.113.9' }
+    await login('alice', 'wrong', headers)
+    expect((await login('carol', 'wrong', headers)).status_code).toBe(423)
+    expect((await login('bob', 'secret123', headers)).status_code).toBe(423)
+    expect((await login('bob', 'secret123', { 'x-forwarded-for': '198.51.100.1' })).status_code).toBe(200)
+  })
+
+  it('调用方取 X-Forwarded-For 右侧的可信地址，伪造左侧地址不能绕过计数', async () => {
+    await withUser({ plugins: { credentials: { lockout: { maxAttemptsPerCaller: 2 } } } })
+    await login('alice', 'wrong', { 'x-forwarded-for': '10.0.0.1, 203.0.113.9' })
+    const spoofed = await login('carol', 'wrong', { 'x-forwarded-for': '10.0.0.2, 203.0.113.9' })
+    expect(spoofed.status_code).toBe(423)
+  })
+
+  it('trustedProxyHops 按可信代理层数取地址，为 0 时只按用户名计数', async () => {
+    await withUser({ plugins: { credentials: { lockout: { maxAttemptsPerCaller: 2, trustedProxyHops: 2 } } } })
+    await login('alice', 'wrong', { 'x-forwarded-for': '10.0.0.1, 203.0.113.9, 192.0.2.1' })
+    expect((await login('carol', 'wrong', { 'x-forwarded-for': '203.0.113.9, 192.0.2.2' })).status_code).toBe(423)
+    expect((await login('bob', 'secret123', { 'x-forwarded-for': '198.51.100.1, 192.0.2.1' })).status_code).toBe(200)
+    await harness!.close()
+
+    await withUser({ plugins: { credentials: { lockout: { maxAttemptsPerCaller: 1, trustedProxyHops: 0 } } } })
+    await login('alice', 'wrong', { 'x-forwarded-for': '203.0.113.9' })
+    expect((await login('bob', 'secret123', { 'x-forwarded-for': '203.0.113.9' })).status_code).toBe(200)
+  })
+
+  it('登录成功清除该用户名的失败计数', async () => {
+    await withUser({ plugins: { credentials: { lockout: { maxAttemptsPerUsername: 2 } } } })
+    await login('bob', 'wrong')
+    await login('bob', 'secret123')
+    expect((await login('bob', 'wrong')).status_code).toBe(401)
+  })
+
+  it('Auth Service 不可达时返回 502', async () => {
+    harness = await createPluginHarness({ config: { authService: { url: 'http://127.0.0.1:1' }, plugins: { authService: { maxRetries: 0 } } } })
+    expect(await login('bob', 'secret123')).toMatchObject({ status_code: 502, data: { code: 'auth_service_unavailable' } })
+  })
+})
+
+describe('auth_register', () => {
+  it('按用户名与密码策略校验后注册', async () => {
+    await withUser()
+    expect((await call('auth_register', 'register', { username: 'alice', password: 'passw0rd!' })).status_code).toBe(200)
+    expect(harness!.authService.users.has('alice')).toBe(true)
+  })
+
+  it('不满足策略返回 400，不请求 Auth Service', async () => {
+    await withUser()
+    const cases = [
+      [{ username: 'al', password: 'passw0rd!' }, 'username must be at least 3 characters'],
+      [{ username: 'al ice', password: 'passw0rd!' }, 'username contains invalid characters'],
+      [{ username: 'alice', password: 'short1' }, 'password must be at least 8 characters'],
+      [{ username: 'alice', password: 'password' }, 'password must contain a digit'],
+      [{ username: 'alice', password: 'alice2024' }, 'password must not contain the username']
+    ] as const
+    for(const [inputs, message] of cases){
+      expect(await call('auth_register', 'register', inputs)).toMatchObject({ status_code: 400, message, data: { code: 'invalid_input' } })
+    }
+    expect(harness!.authService.requests).toEqual([])
+  })
+
+  it('用户名已存在返回 user_exists', async () => {
+    await withUser()
+    expect(await call('auth_register', 'register', { username: 'bob', password: 'passw0rd!' })).toMatchObject({
+      status_code: 409,
+      data: { code: 'user_exists' }
+    })
+  })
+})
+
+describe('会话', () => {
+  it('refresh 轮换 refresh token，旧 token 失效', async () => {
+    await withUser()
+    const session = (await login('bob', 'secret123')).data as any
+    const refreshed = await call('auth_refresh', 'refresh', { refresh_token: session.refreshToken })
+    expect(refreshed.status_code).toBe(200)
+    expect(await call('auth_refresh', 'refresh', { refresh_token: session.refreshToken })).toMatchObject({
+      status_code: 401,
+      data: { code: 'invalid_refresh_token' }
+    })
+  })
+
+  it('logout 后 refresh token 不能再使用', async () => {
+    await withUser()
+    const session = (await login('bob', 'secret123')).data as any
+    expect((await call('auth_logout', 'logout', { refresh_token: session.refreshToken })).status_code).toBe(200)
+    expect((await call('auth_refresh', 'refresh', { refresh_token: session.refreshToken })).status_code).toBe(401)
+  })
+
+  it('me 优先读取 inputs.access_token，缺省时读取 Authorization 请求头', async () => {
+    await withUser()
+    const session = (await login('bob', 'secret123')).data as any
+    expect((await call('auth_me', 'me', { access_token: session.accessToken })).data).toEqual({ userId: 'u1', username: 'bob' })
+    const viaHeader = await call('auth_me', 'me', {}, { headers: { authorization: `Bearer ${session.accessToken}` } })
+    expect(viaHeader.data).toEqual({ userId: 'u1', username: 'bob' })
+    expect(await call('auth_me', 'me', { access_token: 'nope' })).toMatchObject({ status_code: 401, data: { code: 'invalid_token' } })
+    expect((await call('auth_me', 'me', {})).status_code).toBe(400)
+  })
+
+  it('change_password 校验当前密码与新密码策略', async () => {
+    await withUser()
+    const { accessToken } = (await login('bob', 'secret123')).data as any
+    const change = (inputs: Record<string, unknown>) =>
+      harness!.invokePlugin('auth_change_password', { operation: 'change_password', inputs: { access_token: accessToken, ...inputs } })
+
+    expect(await change({ current_password: 'secret123', new_password: 'secret123' })).toMatchObject({
+      status_code: 400,
+      message: 'new_password must differ from current_password'
+    })
+    expect((await change({ current_password: 'secret123', new_password: 'short' })).status_code).toBe(400)
+    expect(await change({ current_password: 'wrong', new_password: 'n3wpassword' })).toMatchObject({
+      status_code: 403,
+      data: { code: 'wrong_password' }
+    })
+    expect((await change({ current_password: 'secret123', new_password: 'n3wpassword' })).status_code).toBe(200)
+    expect((await login('bob', 'n3wpassword')).status_code).toBe(200)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { createPluginHarness } from '../testing/harness.js'
+
+// 插件模块只加载一次，前一个 harness 留下的进程内状态不能影响下一个
+describe('createPluginHarness', () => {
+  it('关闭后清空限流、幂等、用量与结果缓存', async () => {
+    const config = { plugins: { rateLimits: { plugins: { 'lecture.create': { requests: { limit: 1, windowMs: 60_000 } } } } } }
+    const first = await createPluginHarness({ config })
+    first.openai.onResponses(() => ({ json: { summary: 's', highlights: ['a', 'b', 'c'], knowledge_keywords: ['k'] } }))
+    const stageInputs = { current: '今天我们讲导数的定义，它描述函数在某一点的瞬时变化率', language: 'zh' }
+    await first.invokePlugin('audio.stage-summary', { operation: 'stage', inputs: stageInputs })
+    await first.invokePlugin('lecture.create', { operation: 'create', inputs: { sessionName: 'a', idempotency_key: 'k' } })
+    await first.close()
+
+    const second = await createPluginHarness({ config })
+    try {
+      second.openai.onResponses(() => ({ json: { summary: 's', highlights: ['a', 'b', 'c'], knowledge_keywords: ['k'] } }))
+      const created = await second.invokePlugin('lecture.create', { operation: 'create', inputs: { sessionName: 'a', idempotency_key: 'k' } })
+      expect(created.status_code).toBe(200)
+      expect(second.dataService.state.lectures.size).toBe(1)
+
+      const usage = await second.invokePlugin('usage.report', { operation: 'query', inputs: { group_by: 'plugin' } })
+      expect((usage.data as any).groups).toEqual([])
+
+      const stage = await second.invokePlugin('audio.stage-summary', { operation: 'stage', inputs: stageInputs })
+      expect(stage.meta?.cache).toMatchObject({ status: 'miss' })
+    } finally {
+      await second.close()
+    }
+  })
+
+  it('关闭后清空登录锁定与讲座索引', async () => {
+    const config = { plugins: { credentials: { lockout: { maxAttemptsPerUsername: 1 } } } }
+    const first = await createPluginHarness({ config })
+    first.authService.users.set('bob', { userId: 'u1', username: 'bob', password: 'secret123' })
+    await first.invokePlugin('auth_password', { operation: 'login', inputs: { username: 'bob', password: 'wrong' }, userId: '' })
+    const lecture = first.dataService.seedLecture({ owner_id: 'test-user', sessionName: '微积分' })
+    first.dataService.state.transcriptions.set(lecture.lecture_id, [{ t_start_ms: 0, t_end_ms: 1000, content: '导数的定义', seq_no: 1 }])
+    await first.invokePlugin('lecture.search', { operation: 'search', inputs: { query: '导数' } })
+    await first.close()
+
+    const second = await createPluginHarness({ config })
+    try {
+      second.authService.users.set('bob', { userId: 'u1', username: 'bob', password: 'secret123' })
+      const login = await second.invokePlugin('auth_password', { operation: 'login', inputs: { username: 'bob', password: 'secret123' }, userId: '' })
+      expect(login.status_code).toBe(200)
+
+      const search = await second.invokePlugin('lecture.search', { operation: 'search', inputs: { query: '导数' } })
+      expect((search.data as any).items).toEqual([])
+    } finally {
+      await second.close()
+    }
+  })
+})
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+
+let harness: PluginHarness | undefined
+
+afterEach(async () => {
+  await harness?.close()
+  harness = undefined
+})
+
+function create(inputs: Record<string, unknown>, headers?: Record<string, string>){
+  return harness!.invokePlugin('lecture.create', { operation: 'create', inputs, headers })
+}
+
+describe('idempotency', () => {
+  it('相同 key 的重放返回首次结果，不重复写入', async () => {
+    harness = await createPluginHarness()
+    const first = await create({ sessionName: '微积分', idempotency_key: 'k1' })
+    const replay = await create({ sessionName: '微积分', idempotency_key: 'k1' })
+    expect(first.status_code).toBe(200)
+    expect(replay).toEqual(first)
+    expect(harness.dataService.state.lectures.size).toBe(1)
+  })
+
+  it('请求头中的 Idempotency-Key 与 inputs 中的 key 等效', async () => {
+    harness = await createPluginHarness()
+    await create({ sessionName: '微积分' }, { 'idempotency-key': 'k2' })
+    await create({ sessionName: '微积分' }, { 'idempotency-key': 'k2' })
+    expect(harness.dataService.state.lectures.size).toBe(1)
+  })
+
+  it('同一 key 携带不同输入返回 409', async () => {
+    harness = await createPluginHarness()
+    await create({ sessionName: 'a', idempotency_key: 'k3' })
+    expect((await create({ sessionName: 'b', idempotency_key: 'k3' })).status_code).toBe(409)
+  })
+
+  it('并发重试等待首次执行完成', async () => {
+    harness = await createPluginHarness()
+    const [a, b] = await Promise.all([
+      create({ sessionName: '微积分', idempotency_key: 'k4' }),
+      create({ sessionName: '微积分', idempotency_key: 'k4' })
+    ])
+    expect(b).toEqual(a)
+    expect(harness.dataService.state.lectures.size).toBe(1)
+  })
+
+  it('5xx 不保存结果，可以用同一个 key 重试', async () => {
+    harness = await createPluginHarness()
+    harness.dataService.failNext(503)
+    expect((await create({ sessionName: '微积分', idempotency_key: 'k5' })).status_code).toBe(500)
+    expect((await create({ sessionName: '微积分', idempotency_key: 'k5' })).status_code).toBe(200)
+  })
+
+  it('被限流的 429 不保存，窗口过后用同一个 key 重试会执行', async () => {
+    harness = await createPluginHarness({
+      config: { plugins: { rateLimits: { plugins: { 'lecture.create': { requests: { limit: 1, windowMs: 200 } } } } } }
+    })
+    expect((await create({ sessionName: 'a' })).status_code).toBe(200)
+    expect((await create({ sessionName: 'b', idempotency_key: 'k6' })).status_code).toBe(429)
+    await new Promise((resolve) => setTimeout(resolve, 250))
+    expect((await create({ sessionName: 'b', idempotency_key: 'k6' })).status_code).toBe(200)
+    expect(harness.dataService.state.lectures.size).toBe(2)
+  })
+
+  it('只读操作忽略 key', async () => {
+    harness = await createPluginHarness()
+    const lecture = harness.dataService.seedLecture({ owner_id: 'test-user', sessionName: 'a' })
+    const get = () => harness!.invokePlugin('lecture.get', { operation: 'get', inputs: { lecture_id: lecture.lecture_id, idempotency_key: 'k7' } })
+    await get()
+    lecture.sessionName = 'b'
+    expect(((await get()).data as any).lecture.sessionName).toBe('b')
+  })
+})
@@ -0,0 +1,181 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type InvokeOptions, type PluginHarness } from '../testing/harness.js'
+
+const OWNER = 'test-user'
+
+let dir: string
+let harness: PluginHarness
+let lectureId: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'lecture-access-'))
+  harness = await createPluginHarness({ config: { plugins: { sharing: { storePath: path.join(dir, 'shares.json') } } } })
+  lectureId = harness.dataService.seedLecture({ owner_id: OWNER, sessionName: '微积分' }).lecture_id
+})
+
+afterEach(async () => {
+  await harness.close()
+  await rm(dir, { recursive: true, force: true })
+})
+
+function lecture(operation: string, inputs: Record<string, unknown> = {}, options: InvokeOptions = {}){
+  return harness.invokePlugin(`lecture.${operation}`, { operation, inputs: { lecture_id: lectureId, ...inputs }, ...options })
+}
+
+function share(inputs: Record<string, unknown>){
+  return lecture('share', inputs)
+}
+
+describe('lecture.share', () => {
+  it('成员以所有者身份访问 Data Service，按角色限制写操作', async () => {
+    await share({ user_id: 'viewer-user', role: 'viewer' })
+    await share({ user_id: 'editor-user', role: 'editor' })
+
+    expect((await lecture('get', {}, { userId: 'viewer-user' })).status_code).toBe(200)
+    expect(harness.dataService.calls.at(-1)).toMatchObject({ method: 'GET', userId: OWNER })
+    expect(await lecture('update', { sessionName: 'x' }, { userId: 'viewer-user' })).toMatchObject({
+      status_code: 403,
+      message: 'insufficient lecture role'
+    })
+    expect((await lecture('update', { sessionName: 'x' }, { userId: 'editor-user' })).status_code).toBe(200)
+    expect(await lecture('delete', {}, { userId: 'editor-user' })).toMatchObject({ status_code: 403 })
+    expect(await lecture('get', {}, { userId: 'stranger' })).toMatchObject({ status_code: 403, message: 'no access to lecture' })
+  })
+
+  it('只有所有者可以共享，不能把所有者加为成员', async () => {
+    await share({ user_id: 'editor-user', role: 'editor' })
+    expect((await lecture('share', { user_id: 'x' }, { userId: 'editor-user' })).status_code).toBe(403)
+    expect((await share({ user_id: OWNER })).status_code).toBe(400)
+  })
+
+  it('首次共享时确认调用方拥有该讲座', async () => {
+    const foreign = harness.dataService.seedLecture({ owner_id: 'someone-else' }).lecture_id
+    expect((await harness.invokePlugin('lecture.share', { operation: 'share', inputs: { lecture_id: foreign, user_id: 'x' } })).status_code).toBe(403)
+  })
+
+  it('分享链接只读，令牌通过 x-share-token 请求头提供', async () => {
+    const created = await share({ link: true, expires_in_ms: 60_000 })
+    const { token, link_id: linkId } = (created.data as any).link
+    const headers = { 'x-share-token': token }
+    expect((await lecture('get', {}, { userId: 'guest', headers })).status_code).toBe(200)
+    expect((await lecture('update', { sessionName: 'x' }, { userId: 'guest', headers })).status_code).toBe(403)
+    expect(await lecture('get', {}, { userId: 'guest', headers: { 'x-share-token': 'forged' } })).toMatchObject({
+      status_code: 403,
+      message: 'share link is invalid or expired'
+    })
+
+    await lecture('unshare', { link_id: linkId })
+    expect((await lecture('get', {}, { userId: 'guest', headers })).status_code).toBe(403)
+  })
+
+  it('链接有效期不能超过上限', async () => {
+    expect((await share({ link: true, expires_in_ms: 365 * 24 * 60 * 60 * 1000 })).status_code).toBe(400)
+  })
+
+  it('members 对所有者列出链接（不含令牌），对成员只列出成员', async () => {
+    await share({ user_id: 'viewer-user' })
+    await share({ link: true })
+    const asOwner = (await lecture('members')).data as any
+    expect(asOwner).toMatchObject({ owner_id: OWNER, role: 'owner', members: [{ user_id: 'viewer-user', role: 'viewer' }] })
+    expect(asOwner.links).toHaveLength(1)
+    expect(asOwner.links[0].token).toBeUndefined()
+    expect(asOwner.links[0].token_hash).toBeUndefined()
+
+    const asViewer = (await lecture('members', {}, { userId: 'viewer-user' })).data as any
+    expect(asViewer.role).toBe('viewer')
+    expect(asViewer.links).toBeUndefined()
+  })
+
+  it('移除成员后失去访问权限，重复移除返回 removed: false', async () => {
+    await share({ user_id: 'viewer-user' })
+    expect((await lecture('unshare', { user_id: 'viewer-user' })).data).toMatchObject({ removed: true })
+    expect((await lecture('unshare', { user_id: 'viewer-user' })).data).toMatchObject({ removed: false })
+    expect((await lecture('get', {}, { userId: 'viewer-user' })).status_code).toBe(403)
+  })
+
+  it('共享记录写入 storePath，重启后仍然有效', async () => {
+    await share({ user_id: 'viewer-user' })
+    await harness.close()
+    harness = await createPluginHarness({ config: { plugins: { sharing: { storePath: path.join(dir, 'shares.json') } } } })
+    harness.dataService.seedLecture({ lecture_id: lectureId, owner_id: OWNER })
+    expect((await lecture('get', {}, { userId: 'viewer-user' })).status_code).toBe(200)
+  })
+
+  it('写入共享记录失败时返回错误，不留下临时文件', async () => {
+    await harness.close()
+    // storePath 的上级是已存在的文件，无法创建目录
+    await writeFile(path.join(dir, 'blocked'), '')
+    harness = await createPluginHarness({ config: { plugins: { sharing: { storePath: path.join(dir, 'blocked', 'shares.json') } } } })
+    harness.dataService.seedLecture({ lecture_id: lectureId, owner_id: OWNER })
+    expect((await share({ user_id: 'viewer-user' })).status_code).toBe(500)
+
+    await harness.close()
+    harness = await createPluginHarness({ config: { plugins: { sharing: { storePath: path.join(dir, 'shares.json') } } } })
+    harness.dataService.seedLecture({ lecture_id: lectureId, owner_id: OWNER })
+    await share({ user_id: 'viewer-user' })
+    expect(await readdir(dir)).toEqual(['blocked', 'shares.json'])
+  })
+})
+
+describe('共享讲座的调用方', () => {
+  const STAGE_SUMMARY = { summary: '导数', highlights: ['a', 'b', 'c'], knowledge_keywords: ['k', 'l', 'm'] }
+
+  function usageOf(userId: string){
+    return harness.invokePlugin('usage.report', { operation: 'query', inputs: { group_by: 'plugin' }, userId })
+  }
+
+  it('未配置 sharing.storePath 时拒绝共享', async () => {
+    await harness.close()
+    harness = await createPluginHarness()
+    lectureId = harness.dataService.seedLecture({ owner_id: OWNER }).lecture_id
+    expect(await share({ user_id: 'viewer-user' })).toMatchObject({
+      status_code: 500,
+      data: { error: 'plugins.sharing.storePath is required to share lectures' }
+    })
+  })
+
+  it('audio.stage-summary 按 lecture_id 读取转录时接受分享链接', async () => {
+    harness.openai.onResponses(() => ({ json: STAGE_SUMMARY }))
+    harness.dataService.state.transcriptions.set(lectureId, [
+      { t_start_ms: 0, t_end_ms: 60_000, content: '今天我们讲导数的定义，它描述函数在某一点的瞬时变化率', seq_no: 1 }
+    ])
+    const { token } = ((await share({ link: true })).data as any).link
+    const res = await harness.invokePlugin('audio.stage-summary', {
+      operation: 'stage',
+      inputs: { lecture_id: lectureId, from_ms: 0, language: 'zh' },
+      userId: 'guest',
+      headers: { 'x-share-token': token }
+    })
+    expect(res).toMatchObject({ status_code: 200, data: STAGE_SUMMARY })
+  })
+
+  it('成员导入字幕时阶段总结的用量记在成员名下', async () => {
+    harness.openai.onResponses(() => ({ json: STAGE_SUMMARY }))
+    await share({ user_id: 'editor-user', role: 'editor' })
+    const text = '[00:00] 今天我们讲导数的定义，它描述函数在某一点的瞬时变化率'
+    const res = await lecture('import', {
+      file: { name: 'a.txt', mime_type: 'text/plain', data: Buffer.from(text).toString('base64') },
+      summarize: true,
+      language: 'zh'
+    }, { userId: 'editor-user' })
+    expect((res.data as any).stage_summaries).toEqual({ generated: 1, failed: [] })
+
+    expect(((await usageOf('editor-user')).data as any).groups).toEqual([expect.objectContaining({ key: 'audio.stage-summary', calls: 1 })])
+    expect(((await usageOf(OWNER)).data as any).groups).toEqual([])
+  })
+
+  it('lecture.search 包含共享给调用方的讲座，移除成员后不再返回', async () => {
+    harness.dataService.state.transcriptions.set(lectureId, [{ t_start_ms: 0, t_end_ms: 1000, content: '导数的定义', seq_no: 1 }])
+    const search = () => harness.invokePlugin('lecture.search', { operation: 'search', inputs: { query: '导数' }, userId: 'viewer-user' })
+    expect((await search()).data).toMatchObject({ total: 0 })
+
+    await share({ user_id: 'viewer-user' })
+    expect((await search()).data).toMatchObject({ total: 1, items: [{ lecture_id: lectureId, sessionName: '微积分' }] })
+
+    await lecture('unshare', { user_id: 'viewer-user' })
+    expect((await search()).data).toMatchObject({ total: 0 })
+  })
+})
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+
+let harness: PluginHarness
+
+beforeEach(async () => {
+  harness = await createPluginHarness()
+})
+
+afterEach(async () => {
+  await harness.close()
+})
+
+function proxy(operation: string, inputs: Record<string, unknown>){
+  return harness.invokePlugin('data.proxy', { operation, inputs })
+}
+
+function lecture(operation: string, inputs: Record<string, unknown> = {}){
+  return harness.invokePlugin(`lecture.${operation}`, { operation, inputs })
+}
+
+describe('data.proxy 与 lecture.*', () => {
+  it('两类插件调用同一 Data Service 路由并返回相同数据', async () => {
+    const seeded = harness.dataService.seedLecture({ owner_id: 'test-user', sessionName: '微积分' })
+    const viaProxy = await proxy('getLecture', { lecture_id: seeded.lecture_id })
+    const viaLecture = await lecture('get', { lecture_id: seeded.lecture_id })
+    expect(viaProxy.status_code).toBe(200)
+    expect(viaLecture.data).toEqual(viaProxy.data)
+    expect(harness.dataService.calls.map((call) => `${call.method} ${call.path}`)).toEqual([
+      `GET /lectures/${seeded.lecture_id}`,
+      `GET /lectures/${seeded.lecture_id}`
+    ])
+  })
+
+  it('校验失败时两类插件返回相同的 message 与 data.errors', async () => {
+    const viaProxy = await proxy('appendTranscription', { lecture_id: 'x', t_start_ms: -1, content: '' })
+    const viaLecture = await lecture('transcription.append', { lecture_id: 'x', t_start_ms: -1, content: '' })
+    expect(viaProxy.status_code).toBe(400)
+    expect(viaLecture).toEqual(viaProxy)
+    expect((viaProxy.data as any).errors.map((issue: any) => issue.path).sort()).toEqual(['content', 't_end_ms', 't_start_ms'])
+  })
+
+  it('同时接受驼峰与下划线字段名，单值 file_id 转为 file_ids', async () => {
+    const res = await lecture('create', { sessionName: 'a', course_code: 'MATH101', fileId: 'f1' })
+    expect(res.status_code).toBe(200)
+    expect((res.data as any).lecture).toMatchObject({ courseCode: 'MATH101', file_ids: ['f1'], status: 0 })
+  })
+
+  it('别名与规范字段取值冲突时返回 400', async () => {
+    const res = await lecture('get', { lecture_id: 'a', lectureId: 'b' })
+    expect(res.status_code).toBe(400)
+    expect((res.data as any).errors).toEqual([{ path: 'lecture_id', message: 'conflicting values for lecture_id and lectureId' }])
+  })
+
+  it('不支持的代理操作与不匹配的 operation 返回 400', async () => {
+    expect((await proxy('dropDatabase', {})).status_code).toBe(400)
+    expect(await harness.invokePlugin('lecture.get', { operation: 'list', inputs: {} })).toMatchObject({
+      status_code: 400,
+      message: 'operation must be get'
+    })
+  })
+
+  it('Data Service 的 404 原样透传', async () => {
+    harness.dataService.failNext(404, 'lecture not found')
+    expect(await proxy('listLectures', {})).toMatchObject({ status_code: 404, message: 'lecture not found' })
+  })
+})
+
+describe('lecture.list', () => {
+  beforeEach(() => {
+    const seed = (sessionName: string, fields: Record<string, unknown>) =>
+      harness.dataService.seedLecture({ owner_id: 'test-user', sessionName, ...fields })
+    seed('a', { courseCode: 'MATH', language: 'zh', status: 0, created_at: '2024-01-01T00:00:00Z' })
+    seed('b', { courseCode: 'MATH', language: 'en', status: 2, created_at: '2024-02-01T00:00:00Z' })
+    seed('c', { courseCode: 'PHYS', language: 'zh', status: 4, created_at: '2024-03-01T00:00:00Z' })
+    seed('d', { courseCode: 'MATH', language: 'zh', status: 4, created_at: '2024-04-01T00:00:00Z' })
+    harness.dataService.seedLecture({ owner_id: 'someone-else', sessionName: 'x' })
+  })
+
+  function names(res: any){
+    return res.data.items.map((item: any) => item.sessionName)
+  }
+
+  it('默认按创建时间倒序分页，游标取下一页', async () => {
+    const first = await lecture('list', { limit: 3 })
+    expect(names(first)).toEqual(['d', 'c', 'b'])
+    expect((first.data as any).total).toBe(4)
+    const second = await lecture('list', { limit: 3, cursor: (first.data as any).next_cursor })
+    expect(names(second)).toEqual(['a'])
+    expect((second.data as any).next_cursor).toBeNull()
+  })
+
+  it('按课程、语言、状态名与创建时间过滤', async () => {
+    expect(names(await lecture('list', { courseCode: 'MATH', language: 'zh' }))).toEqual(['d', 'a'])
+    expect(names(await lecture('list', { status: ['recording', 'summarized'] }))).toEqual(['d', 'c', 'b'])
+    expect(names(await lecture('list', { created_from: '2024-02-01T00:00:00Z', created_to: '2024-03-01T00:00:00Z' }))).toEqual(['c', 'b'])
+  })
+
+  it('按字段升序排序', async () => {
+    expect(names(await lecture('list', { sort: 'courseCode', order: 'asc' }))[3]).toBe('c')
+    expect(names(await lecture('list', { sort: 'sessionName', order: 'asc' }))).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('查询参数传给 Data Service', async () => {
+    await lecture('list', { limit: 5, status: 'draft', courseCode: 'MATH' })
+    const query = new URLSearchParams(harness.dataService.calls[0].path.split('?')[1])
+    expect(Object.fromEntries(query)).toMatchObject({ limit: '5', status: '0', courseCode: 'MATH', sort: 'created_at', order: 'desc' })
+  })
+
+  it('非法游标与时间范围返回 400', async () => {
+    expect(await lecture('list', { cursor: 'bogus' })).toMatchObject({ status_code: 400, message: 'invalid cursor' })
+    expect((await lecture('list', { created_from: '2024-03-01T00:00:00Z', created_to: '2024-01-01T00:00:00Z' })).status_code).toBe(400)
+  })
+})
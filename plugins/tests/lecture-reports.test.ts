@@ -0,0 +1,160 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+
+let dir: string
+let harness: PluginHarness
+let lectureId: string
+
+function config(reports: { maxVersions?: number } = {}){
+  return { plugins: { reports: { storeDir: path.join(dir, 'reports'), ...reports }, sharing: { storePath: path.join(dir, 'shares.json') } } }
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'lecture-reports-'))
+  harness = await createPluginHarness({ config: config() })
+  lectureId = harness.dataService.seedLecture({ owner_id: 'test-user' }).lecture_id
+})
+
+afterEach(async () => {
+  await harness.close()
+  await rm(dir, { recursive: true, force: true })
+})
+
+function lecture(operation: string, inputs: Record<string, unknown> = {}, userId?: string){
+  return harness.invokePlugin(`lecture.${operation}`, { operation, inputs: { lecture_id: lectureId, ...inputs }, userId })
+}
+
+function report(sections: Array<{ title: string; summary: string; items?: string[] }>, nextActions: string[] = []){
+  return JSON.stringify({
+    sections: sections.map((section) => ({
+      title: section.title,
+      summary: section.summary,
+      items: (section.items ?? []).map((heading) => ({ heading, summary: heading, details: [] }))
+    })),
+    next_actions: nextActions
+  })
+}
+
+describe('lecture report versions', () => {
+  it('每次写入课程总结记录一个版本，其他 seq_no 不记录', async () => {
+    expect(((await lecture('report.upsert', { seq_no: 1, md: 'v1' })).data as any).version).toBe(1)
+    expect(((await lecture('report.upsert', { seq_no: 1, md: 'v2' })).data as any).version).toBe(2)
+    await lecture('report.upsert', { seq_no: 2, md: 'appendix' })
+
+    const res = (await lecture('report.versions')).data as any
+    expect(res).toMatchObject({ current_version: 2, total: 2 })
+    expect(res.versions.map((version: any) => [version.version, version.author, version.user_id])).toEqual([[2, 'user', 'test-user'], [1, 'user', 'test-user']])
+    expect(res.versions[0].md).toBeUndefined()
+  })
+
+  it('读取版本时解析课程总结结构，非 JSON 内容 report 为 null', async () => {
+    await lecture('report.upsert', { seq_no: 1, md: 'plain' })
+    await lecture('report.upsert', { seq_no: 1, md: report([{ title: '导数', summary: 's' }]) })
+    expect(((await lecture('report.version', { version: 1 })).data as any)).toMatchObject({ md: 'plain', report: null })
+    expect(((await lecture('report.version', { version: 2 })).data as any).report.sections[0].title).toBe('导数')
+    expect(await lecture('report.version', { version: 9 })).toMatchObject({ status_code: 404, message: 'report version not found' })
+  })
+
+  it('恢复以旧版本内容写入新版本', async () => {
+    await lecture('report.upsert', { seq_no: 1, md: 'v1' })
+    await lecture('report.upsert', { seq_no: 1, md: 'v2' })
+    expect((await lecture('report.restore', { version: 1 })).data).toMatchObject({ version: 3, restored_from: 1 })
+    expect(harness.dataService.state.reports.get(lectureId)!.get(1)).toBe('v1')
+  })
+
+  it('按章节标题比较两个版本', async () => {
+    await lecture('report.upsert', { seq_no: 1, md: report([{ title: '极限', summary: 'a' }, { title: '导数', summary: 'b', items: ['定义'] }], ['复习']) })
+    await lecture('report.upsert', { seq_no: 1, md: report([{ title: '导数', summary: 'b', items: ['定义', '几何意义'] }, { title: '积分', summary: 'c' }], ['练习']) })
+    const diff = (await lecture('report.diff', { from: 1 })).data as any
+    expect(diff).toMatchObject({
+      from: 1,
+      to: 2,
+      summary: { added: 1, removed: 1, changed: 1, unchanged: 0 },
+      next_actions: { added: ['练习'], removed: ['复习'] }
+    })
+    expect(diff.sections.find((section: any) => section.title === '导数')).toMatchObject({
+      change: 'changed',
+      fields: ['items'],
+      items: { added: ['几何意义'], removed: [], changed: [] }
+    })
+  })
+
+  it('比较非课程总结的版本返回 400', async () => {
+    await lecture('report.upsert', { seq_no: 1, md: 'plain' })
+    expect((await lecture('report.diff', { from: 1 })).status_code).toBe(400)
+  })
+
+  it('无权访问讲座的用户不能读取历史，共享成员可以读取', async () => {
+    await lecture('report.upsert', { seq_no: 1, md: 'v1' })
+    expect((await lecture('report.versions', {}, 'stranger')).status_code).toBe(403)
+    await lecture('share', { user_id: 'viewer-user' })
+    expect(((await lecture('report.versions', {}, 'viewer-user')).data as any).total).toBe(1)
+    expect((await lecture('report.restore', { version: 1 }, 'viewer-user')).status_code).toBe(403)
+  })
+
+  it('audio.summary 生成的课程总结记录为模型版本', async () => {
+    harness.dataService.state.lectures.get(lectureId)!.status = 3
+    harness.dataService.state.summaries.set(lectureId, [{ t_start_ms: 0, t_end_ms: 1000, content: '导数的定义与几何意义', seq_no: 1 }])
+    harness.openai.onResponses(() => ({ json: JSON.parse(report([{ title: '导数', summary: 's' }])) }))
+    const res = await harness.invokePlugin('audio.summary', { operation: 'summarize', inputs: { lectureId, language: 'zh' } })
+    expect(res.status_code).toBe(200)
+    const versions = ((await lecture('report.versions')).data as any).versions
+    expect(versions).toEqual([expect.objectContaining({ version: 1, author: 'model', model: 'test-course-summary' })])
+  })
+
+  it('每个讲座追加写入一个 JSONL 文件，只保留最近 maxVersions 个版本', async () => {
+    await harness.close()
+    harness = await createPluginHarness({ config: config({ maxVersions: 2 }) })
+    harness.dataService.seedLecture({ lecture_id: lectureId, owner_id: 'test-user' })
+    for(const md of ['v1', 'v2', 'v3', 'v4', 'v5']) await lecture('report.upsert', { seq_no: 1, md })
+
+    const res = (await lecture('report.versions')).data as any
+    expect(res).toMatchObject({ current_version: 5, total: 2 })
+    expect(res.versions.map((version: any) => version.version)).toEqual([5, 4])
+    expect((await lecture('report.version', { version: 1 })).status_code).toBe(404)
+    // 第 4 次写入时压缩为最近 2 个版本，第 5 次只追加
+    const lines = (await readFile(path.join(dir, 'reports', `${lectureId}.jsonl`), 'utf8')).trim().split('\n')
+    expect(lines.map((line) => JSON.parse(line).version)).toEqual([3, 4, 5])
+  })
+
+  it('同一讲座的并发写入依次编号，Data Service 保存最后一个版本', async () => {
+    await Promise.all(['a', 'b', 'c'].map((md) => lecture('report.upsert', { seq_no: 1, md })))
+    const versions = ((await lecture('report.versions')).data as any).versions
+    expect(versions.map((version: any) => version.version)).toEqual([3, 2, 1])
+    const latest = (await lecture('report.version', { version: 3 })).data as any
+    expect(harness.dataService.state.reports.get(lectureId)!.get(1)).toBe(latest.md)
+  })
+
+  it('未配置 storeDir 时课程总结照常写入，只是不记录版本', async () => {
+    await harness.close()
+    harness = await createPluginHarness({ config: { plugins: { sharing: { storePath: path.join(dir, 'shares.json') } } } })
+    harness.dataService.seedLecture({ lecture_id: lectureId, owner_id: 'test-user', status: 3 })
+    expect(await lecture('report.upsert', { seq_no: 1, md: 'v1' })).toMatchObject({ status_code: 200, data: { version: null } })
+    expect(harness.dataService.state.reports.get(lectureId)?.get(1)).toBe('v1')
+
+    harness.dataService.state.summaries.set(lectureId, [{ t_start_ms: 0, t_end_ms: 1000, content: '导数的定义与几何意义', seq_no: 1 }])
+    harness.openai.onResponses(() => ({ json: JSON.parse(report([{ title: '导数', summary: 's' }])) }))
+    const res = await harness.invokePlugin('audio.summary', { operation: 'summarize', inputs: { lectureId, language: 'zh' } })
+    expect(res.status_code).toBe(200)
+    expect(JSON.parse(harness.dataService.state.reports.get(lectureId)!.get(1)!).sections[0].title).toBe('导数')
+    expect(((await lecture('report.versions')).data as any).total).toBe(0)
+  })
+
+  it('版本写入失败时报告仍写入 Data Service，响应中 version 为 null', async () => {
+    // storeDir 指向已存在的文件，无法创建目录
+    await writeFile(path.join(dir, 'reports'), '')
+    expect(await lecture('report.upsert', { seq_no: 1, md: 'v1' })).toMatchObject({ status_code: 200, data: { version: null } })
+    expect(harness.dataService.state.reports.get(lectureId)!.get(1)).toBe('v1')
+  })
+
+  it('版本历史写入 storeDir，重启后仍可读取', async () => {
+    await lecture('report.upsert', { seq_no: 1, md: 'v1' })
+    await harness.close()
+    harness = await createPluginHarness({ config: config() })
+    harness.dataService.seedLecture({ lecture_id: lectureId, owner_id: 'test-user' })
+    expect(((await lecture('report.versions')).data as any).total).toBe(1)
+  })
+})
@@ -0,0 +1,155 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+import { whenHydrated } from '../lecture-search.js'
+
+let harness: PluginHarness
+let dir: string | undefined
+
+beforeEach(async () => {
+  harness = await createPluginHarness()
+})
+
+afterEach(async () => {
+  await harness.close()
+  if(dir) await rm(dir, { recursive: true, force: true })
+  dir = undefined
+})
+
+function search(inputs: Record<string, unknown>, userId?: string){
+  return harness.invokePlugin('lecture.search', { operation: 'search', inputs, userId })
+}
+
+function seedWithTranscript(fields: Record<string, unknown>, segments: string[]){
+  const lecture = harness.dataService.seedLecture({ owner_id: 'test-user', ...fields })
+  harness.dataService.state.transcriptions.set(lecture.lecture_id, segments.map((content, index) => ({
+    t_start_ms: index * 1000,
+    t_end_ms: index * 1000 + 1000,
+    content,
+    seq_no: index + 1
+  })))
+  return lecture.lecture_id
+}
+
+describe('lecture.search', () => {
+  it('首次检索从 Data Service 补齐转录，返回带高亮与时间戳的命中', async () => {
+    const id = seedWithTranscript({ sessionName: '微积分' }, ['今天复习极限', '导数描述瞬时变化率'])
+    const res = await search({ query: '导数' })
+    expect(res.data).toMatchObject({ query: '导数', total: 1 })
+    const [result] = (res.data as any).items
+    expect(result).toMatchObject({ lecture_id: id, sessionName: '微积分' })
+    expect(result.hits[0]).toMatchObject({ field: 'transcript', snippet: '导数描述瞬时变化率', highlights: [[0, 2]], t_start_ms: 1000, seq_no: 2 })
+  })
+
+  it('英文按单词切分并归一复数，字段权重影响排序', async () => {
+    const inTitle = seedWithTranscript({ sessionName: 'Derivatives' }, ['intro'])
+    const inTranscript = seedWithTranscript({ sessionName: 'Limits' }, ['we start with a derivative today'])
+    const res = await search({ query: 'derivative' })
+    expect((res.data as any).items.map((item: any) => item.lecture_id)).toEqual([inTitle, inTranscript])
+  })
+
+  it('按字段与讲座过滤', async () => {
+    const first = seedWithTranscript({ sessionName: '导数' }, ['导数的定义'])
+    seedWithTranscript({ sessionName: '积分' }, ['导数与积分'])
+    const onlyTranscript = await search({ query: '导数', fields: ['transcript'] })
+    expect((onlyTranscript.data as any).items.every((item: any) => item.hits.every((hit: any) => hit.field === 'transcript'))).toBe(true)
+    const oneLecture = await search({ query: '导数', lecture_id: first })
+    expect((oneLecture.data as any).items.map((item: any) => item.lecture_id)).toEqual([first])
+  })
+
+  it('不返回其他用户的讲座', async () => {
+    seedWithTranscript({ sessionName: '微积分' }, ['导数'])
+    expect((await search({ query: '导数' }, 'other-user')).data).toMatchObject({ items: [], total: 0 })
+  })
+
+  it('经插件追加、删除的片段与写入的报告即时更新索引', async () => {
+    const id = seedWithTranscript({ sessionName: 'a' }, ['开场'])
+    await search({ query: '开场' })
+    await harness.invokePlugin('lecture.transcription.append', {
+      operation: 'transcription.append',
+      inputs: { lecture_id: id, t_start_ms: 5000, t_end_ms: 6000, content: '泰勒展开', seq_no: 9 }
+    })
+    expect((await search({ query: '泰勒' })).data).toMatchObject({ total: 1 })
+
+    await harness.invokePlugin('lecture.transcription.delete', { operation: 'transcription.delete', inputs: { lecture_id: id, seq_no: 9 } })
+    expect((await search({ query: '泰勒' })).data).toMatchObject({ total: 0 })
+
+    await harness.invokePlugin('lecture.report.upsert', { operation: 'report.upsert', inputs: { lecture_id: id, seq_no: 1, md: '# 洛必达法则' } })
+    const report = await search({ query: '洛必达', fields: ['report'] })
+    expect((report.data as any).items[0].hits[0].field).toBe('report')
+  })
+
+  it('更新讲座标题后按新标题检索', async () => {
+    const id = seedWithTranscript({ sessionName: '旧标题' }, ['内容'])
+    await search({ query: '内容' })
+    await harness.invokePlugin('lecture.update', { operation: 'update', inputs: { lecture_id: id, sessionName: '线性代数' } })
+    const res = await search({ query: '线性代数' })
+    expect((res.data as any).items[0]).toMatchObject({ lecture_id: id, sessionName: '线性代数' })
+    expect((await search({ query: '旧标题' })).data).toMatchObject({ total: 0 })
+  })
+})
+
+describe('lecture.search 索引边界', () => {
+  function pathsOf(pattern: RegExp){
+    return harness.dataService.calls.filter((call) => call.method === 'GET' && pattern.test(call.path))
+  }
+
+  it('冷启动只同步补齐前几个讲座，其余在后台补齐并以 pending 标出', async () => {
+    for(let i = 0; i < 7; i++) seedWithTranscript({ sessionName: `第 ${i} 讲` }, ['导数'])
+    const first = await search({ query: '导数', limit: 50 })
+    expect(first.data).toMatchObject({ total: 5, pending: 2 })
+
+    await whenHydrated()
+    const second = await search({ query: '导数', limit: 50 })
+    expect((second.data as any).total).toBe(7)
+    expect(second.data).not.toHaveProperty('pending')
+  })
+
+  it('讲座列表按用户缓存，经插件新建讲座后立即可检索', async () => {
+    seedWithTranscript({ sessionName: '微积分' }, ['导数'])
+    await search({ query: '导数' })
+    await search({ query: '导数' })
+    expect(pathsOf(/^\/lectures\?/)).toHaveLength(1)
+
+    await harness.invokePlugin('lecture.create', { operation: 'create', inputs: { sessionName: '线性代数' } })
+    expect((await search({ query: '线性代数' })).data).toMatchObject({ total: 1 })
+    expect(pathsOf(/^\/lectures\?/)).toHaveLength(2)
+  })
+
+  it('移入回收站的讲座不等列表缓存过期即被排除', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'lecture-search-'))
+    await harness.close()
+    harness = await createPluginHarness({ config: { plugins: { trash: { storePath: path.join(dir, 'trash.json') } } } })
+    const id = seedWithTranscript({ sessionName: '微积分' }, ['导数'])
+    await search({ query: '导数' })
+    await harness.invokePlugin('lecture.delete', { operation: 'delete', inputs: { lecture_id: id } })
+    expect((await search({ query: '导数' })).data).toMatchObject({ total: 0 })
+  })
+
+  it('IDF 只按调用方的讲座计算，其他用户的讲座不影响得分', async () => {
+    seedWithTranscript({ sessionName: 'a' }, ['导数', '积分'])
+    const before = (await search({ query: '导数' })).data as any
+    for(let i = 0; i < 3; i++){
+      const other = harness.dataService.seedLecture({ owner_id: 'other-user', sessionName: 'b' })
+      harness.dataService.state.transcriptions.set(other.lecture_id, [{ t_start_ms: 0, t_end_ms: 1000, content: '导数', seq_no: 1 }])
+    }
+    await search({ query: '导数' }, 'other-user')
+    const after = (await search({ query: '导数' })).data as any
+    expect(after.items[0].score).toBe(before.items[0].score)
+  })
+
+  it('超出 search.maxLectures 时淘汰最久未使用的讲座，再次检索时重新补齐', async () => {
+    await harness.close()
+    harness = await createPluginHarness({ config: { plugins: { search: { maxLectures: 1 } } } })
+    const mine = seedWithTranscript({ sessionName: 'a' }, ['导数'])
+    await search({ query: '导数' })
+    const other = harness.dataService.seedLecture({ owner_id: 'other-user', sessionName: 'b' })
+    harness.dataService.state.transcriptions.set(other.lecture_id, [{ t_start_ms: 0, t_end_ms: 1000, content: '积分', seq_no: 1 }])
+    await search({ query: '积分' }, 'other-user')
+
+    expect((await search({ query: '导数' })).data).toMatchObject({ total: 1 })
+    expect(pathsOf(new RegExp(`^/lectures/${mine}/transcription$`))).toHaveLength(2)
+  })
+})
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+import { onLectureStatusChanged, type LectureStatusChange } from '../lecture-status.js'
+
+const changes: LectureStatusChange[] = []
+onLectureStatusChanged((change) => changes.push(change))
+
+let harness: PluginHarness
+
+beforeEach(async () => {
+  harness = await createPluginHarness()
+  changes.length = 0
+})
+
+afterEach(async () => {
+  await harness.close()
+})
+
+function create(inputs: Record<string, unknown>){
+  return harness.invokePlugin('lecture.create', { operation: 'create', inputs })
+}
+
+function update(lectureId: string, inputs: Record<string, unknown>){
+  return harness.invokePlugin('lecture.update', { operation: 'update', inputs: { lecture_id: lectureId, ...inputs } })
+}
+
+describe('lecture status', () => {
+  it('新建讲座缺省为 draft，只能以初始状态创建', async () => {
+    expect(((await create({ sessionName: 'a' })).data as any).lecture.status).toBe(0)
+    expect(((await create({ sessionName: 'b', status: 'materials_ready' })).data as any).lecture.status).toBe(1)
+    expect(await create({ sessionName: 'c', status: 'recording' })).toMatchObject({ status_code: 400 })
+  })
+
+  it('按转换表修改状态并发出状态变更事件', async () => {
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user', status: 0 }).lecture_id
+    expect((await update(id, { status: 'recording' })).status_code).toBe(200)
+    expect(harness.dataService.state.lectures.get(id)!.status).toBe(2)
+    expect(changes).toEqual([{ lecture_id: id, from: 'draft', to: 'recording', owner_id: 'test-user', changed_at: expect.any(String) }])
+  })
+
+  it('不允许的转换返回 409 与可选的目标状态，不写入', async () => {
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user', status: 2 }).lecture_id
+    expect(await update(id, { status: 'archived' })).toMatchObject({
+      status_code: 409,
+      message: 'cannot change lecture status from recording to archived',
+      data: { status: 'recording', requested: 'archived', allowed: ['processing'] }
+    })
+    expect(harness.dataService.state.lectures.get(id)!.status).toBe(2)
+    expect(changes).toEqual([])
+  })
+
+  it('状态为空的旧讲座第一次设置状态时不受限制；同一状态不发出事件', async () => {
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user' }).lecture_id
+    expect((await update(id, { status: 4 })).status_code).toBe(200)
+    expect((await update(id, { status: 'summarized' })).status_code).toBe(200)
+    expect(changes.map((change) => [change.from, change.to])).toEqual([[null, 'summarized']])
+  })
+
+  it('不修改 status 时不读取讲座', async () => {
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user', status: 2 }).lecture_id
+    await update(id, { sessionName: 'x' })
+    expect(harness.dataService.calls.map((call) => call.method)).toEqual(['PATCH'])
+  })
+
+  it('status 为 null 时视为未提供', async () => {
+    expect(((await create({ sessionName: 'a', status: null })).data as any).lecture.status).toBe(0)
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user', status: 2 }).lecture_id
+    harness.dataService.calls.length = 0
+    expect((await update(id, { sessionName: 'x', status: null })).status_code).toBe(200)
+    expect(harness.dataService.calls.map((call) => call.method)).toEqual(['PATCH'])
+    expect(harness.dataService.state.lectures.get(id)!.status).toBe(2)
+  })
+
+  it('同一讲座的并发状态修改串行校验，后一个基于前一个写入的状态', async () => {
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user', status: 0 }).lecture_id
+    const [recording, materials] = await Promise.all([update(id, { status: 'recording' }), update(id, { status: 'materials_ready' })])
+    expect(recording.status_code).toBe(200)
+    expect(materials).toMatchObject({ status_code: 409, data: { status: 'recording', requested: 'materials_ready' } })
+    expect(harness.dataService.state.lectures.get(id)!.status).toBe(2)
+    expect(changes.map((change) => [change.from, change.to])).toEqual([['draft', 'recording']])
+  })
+
+  it('非法状态值返回 400', async () => {
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user', status: 0 }).lecture_id
+    expect((await update(id, { status: 'done' })).status_code).toBe(400)
+    expect((await update(id, { status: 9 })).status_code).toBe(400)
+  })
+
+  it('按状态名过滤讲座列表', async () => {
+    harness.dataService.seedLecture({ owner_id: 'test-user', status: 0 })
+    harness.dataService.seedLecture({ owner_id: 'test-user', status: 5 })
+    const res = await harness.invokePlugin('lecture.list', { operation: 'list', inputs: { status: 'archived' } })
+    expect((res.data as any).items.map((item: any) => item.status)).toEqual([5])
+  })
+})
+
+describe('写入转录时推进到 recording', () => {
+  const REPORT = { sections: [{ title: '导数', summary: '导数的定义', items: [] }], next_actions: [] }
+
+  function lecture(operation: string, lectureId: string, inputs: Record<string, unknown> = {}){
+    return harness.invokePlugin(`lecture.${operation}`, { operation, inputs: { lecture_id: lectureId, ...inputs } })
+  }
+
+  function summarize(lectureId: string){
+    harness.openai.onResponses(() => ({ json: REPORT }))
+    return harness.invokePlugin('audio.summary', { operation: 'summarize', inputs: { lectureId, language: 'zh' } })
+  }
+
+  it('新建、追加转录到生成课程总结，状态依次推进', async () => {
+    const id = ((await create({ sessionName: '微积分' })).data as any).lecture.lecture_id
+    expect((await lecture('transcription.append', id, { t_start_ms: 0, t_end_ms: 1000, content: '导数', seq_no: 1 })).status_code).toBe(200)
+    expect(harness.dataService.state.lectures.get(id)!.status).toBe(2)
+    await lecture('summary.append', id, { t_start_ms: 0, t_end_ms: 1000, content: '导数的定义与几何意义', seq_no: 1 })
+
+    expect((await summarize(id)).status_code).toBe(200)
+    expect(harness.dataService.state.lectures.get(id)!.status).toBe(4)
+    expect(changes.map((change) => [change.from, change.to])).toEqual([['draft', 'recording'], ['recording', 'processing'], ['processing', 'summarized']])
+  })
+
+  it('批量追加与导入同样推进，之后的写入不再读取状态', async () => {
+    const batch = harness.dataService.seedLecture({ owner_id: 'test-user', status: 1 }).lecture_id
+    await lecture('transcription.append-batch', batch, { segments: [{ t_start_ms: 0, t_end_ms: 1000, content: 'a' }] })
+    const file = { name: 'a.txt', mime_type: 'text/plain', data: Buffer.from('[00:00] b\n').toString('base64') }
+    const imported = harness.dataService.seedLecture({ owner_id: 'test-user', status: 0 }).lecture_id
+    await lecture('import', imported, { file })
+    expect(changes.map((change) => [change.lecture_id, change.to])).toEqual([[batch, 'recording'], [imported, 'recording']])
+
+    harness.dataService.calls.length = 0
+    await lecture('transcription.append', batch, { t_start_ms: 1000, t_end_ms: 2000, content: 'c' })
+    expect(harness.dataService.calls.map((call) => call.method)).toEqual(['POST'])
+  })
+
+  it('其他状态与没有状态的旧讲座追加转录时不修改状态', async () => {
+    const summarized = harness.dataService.seedLecture({ owner_id: 'test-user', status: 4 }).lecture_id
+    const legacy = harness.dataService.seedLecture({ owner_id: 'test-user' }).lecture_id
+    await lecture('transcription.append', summarized, { t_start_ms: 0, t_end_ms: 1000, content: 'a' })
+    await lecture('transcription.append', legacy, { t_start_ms: 0, t_end_ms: 1000, content: 'a' })
+    expect(harness.dataService.state.lectures.get(summarized)!.status).toBe(4)
+    expect(harness.dataService.state.lectures.get(legacy)!.status).toBeUndefined()
+    expect(changes).toEqual([])
+  })
+
+  it('status 为 0 的旧讲座没有经插件写入转录时，audio.summary 经 recording 推进后生成', async () => {
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user', status: 0 }).lecture_id
+    harness.dataService.state.summaries.set(id, [{ t_start_ms: 0, t_end_ms: 1000, content: '导数的定义与几何意义', seq_no: 1 }])
+    expect((await summarize(id)).status_code).toBe(200)
+    expect(changes.map((change) => change.to)).toEqual(['recording', 'processing', 'summarized'])
+  })
+
+  it('已归档的讲座不生成课程总结', async () => {
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user', status: 5 }).lecture_id
+    expect(await summarize(id)).toMatchObject({ status_code: 409, message: 'lecture status does not allow summarizing', data: { status: 'archived' } })
+    expect(harness.openai.requests).toEqual([])
+  })
+})
@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+import { FakeDataServiceError } from '../testing/fake-data-service.js'
+
+let harness: PluginHarness
+let lectureId: string
+
+beforeEach(async () => {
+  harness = await createPluginHarness()
+  lectureId = harness.dataService.seedLecture({ owner_id: 'test-user' }).lecture_id
+})
+
+afterEach(async () => {
+  await harness.close()
+})
+
+function lecture(operation: string, inputs: Record<string, unknown> = {}){
+  return harness.invokePlugin(`lecture.${operation}`, { operation, inputs: { lecture_id: lectureId, ...inputs } })
+}
+
+function seedTranscript(segments: Array<[number, number, string, number?]>){
+  harness.dataService.state.transcriptions.set(lectureId, segments.map(([start, end, content, seqNo]) => ({
+    t_start_ms: start,
+    t_end_ms: end,
+    content,
+    ...(seqNo === undefined ? {} : { seq_no: seqNo })
+  })))
+}
+
+function subtitleFile(name: string, text: string, extra: Record<string, unknown> = {}){
+  return { name, mime_type: 'text/plain', data: Buffer.from(text).toString('base64'), ...extra }
+}
+
+describe('lecture.transcription.list', () => {
+  beforeEach(() => {
+    seedTranscript([[4000, 5000, '第三句', 3], [0, 1000, '第一句', 1], [1500, 2500, '第二句', 2], [20_000, 21_000, 'later', 4]])
+  })
+
+  it('按时间窗口取有重叠的片段并排序', async () => {
+    const res = await lecture('transcription.list', { from_ms: 900, to_ms: 4000 })
+    expect((res.data as any).items.map((item: any) => item.seq_no)).toEqual([1, 2, 3])
+  })
+
+  it('按 seq 范围读取', async () => {
+    const res = await lecture('transcription.list', { seq_from: 2, seq_to: 3 })
+    expect((res.data as any).items.map((item: any) => item.content)).toEqual(['第二句', '第三句'])
+  })
+
+  it('merged 视图按间隔合并为段落', async () => {
+    const res = await lecture('transcription.list', { view: 'merged', merge_gap_ms: 2000 })
+    expect((res.data as any).items).toEqual([
+      { t_start_ms: 0, t_end_ms: 5000, seq_from: 1, seq_to: 3, content: '第一句第二句第三句', segment_count: 3 },
+      { t_start_ms: 20_000, t_end_ms: 21_000, seq_from: 4, seq_to: 4, content: 'later', segment_count: 1 }
+    ])
+  })
+
+  it('范围颠倒返回 400', async () => {
+    expect((await lecture('transcription.list', { from_ms: 10, to_ms: 5 })).status_code).toBe(400)
+  })
+})
+
+describe('lecture.export', () => {
+  beforeEach(() => {
+    seedTranscript([[0, 2000, 'Hello world', 1], [2000, 4000, 'a < b --> c', 2]])
+  })
+
+  it('导出 SRT', async () => {
+    const res = await lecture('export', { format: 'srt' })
+    expect(res.data).toMatchObject({
+      filename: `${lectureId}.srt`,
+      content_type: 'application/x-subrip; charset=utf-8',
+      cue_count: 2
+    })
+    expect((res.data as any).content).toBe('1\n00:00:00,000 --> 00:00:02,000\nHello world\n\n2\n00:00:02,000 --> 00:00:04,000\na < b --> c\n')
+  })
+
+  it('导出 WebVTT 时转义特殊字符并附带章节轨道', async () => {
+    harness.dataService.state.summaries.set(lectureId, [
+      { t_start_ms: 0, t_end_ms: 4000, content: JSON.stringify({ summary: '开场' }), seq_no: 1 }
+    ])
+    const res = await lecture('export', { format: 'vtt', chapters: true })
+    const data = res.data as any
+    expect(data.content).toContain('NOTE Chapter: 开场')
+    expect(data.content).toContain('a &lt; b --&gt; c')
+    expect(data.chapters).toEqual([{ t_start_ms: 0, t_end_ms: 4000, title: '开场' }])
+    expect(data.chapters_vtt).toContain('开场')
+  })
+
+  it('超出行宽的中文按显示宽度拆分为多条字幕', async () => {
+    seedTranscript([[0, 6000, '这是一个很长的句子，需要被拆分成多行字幕来显示。然后继续说明导数的定义和性质。', 1]])
+    const res = await lecture('export', { format: 'srt', max_line_width: 20, max_lines: 1 })
+    const data = res.data as any
+    expect(data.cue_count).toBeGreaterThan(1)
+    for(const line of data.content.split('\n').filter((line: string) => /[一-鿿]/.test(line))){
+      expect(/^[，。]/.test(line)).toBe(false)
+    }
+  })
+})
+
+describe('lecture.import', () => {
+  it('导入 SRT，接在已有转录之后编号', async () => {
+    seedTranscript([[0, 1000, 'existing', 1]])
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\n<i>Hello</i>\n\n2\n00:00:02,500 --> 00:00:03,000\nworld\n'
+    const res = await lecture('import', { file: subtitleFile('a.srt', srt) })
+    expect(res.data).toMatchObject({ format: 'srt', segment_count: 2, seq_from: 2, seq_to: 3 })
+    expect(harness.dataService.state.transcriptions.get(lectureId)).toEqual([
+      { t_start_ms: 0, t_end_ms: 1000, content: 'existing', seq_no: 1 },
+      { t_start_ms: 1000, t_end_ms: 2000, content: 'Hello', seq_no: 2 },
+      { t_start_ms: 2500, t_end_ms: 3000, content: 'world', seq_no: 3 }
+    ])
+  })
+
+  it('按内容识别 WebVTT，并整体平移时间', async () => {
+    const vtt = 'WEBVTT\n\nNOTE skipped\n\ncue-1\n00:01.000 --> 00:02.000\n<v Teacher>a &amp; b\n'
+    const res = await lecture('import', { file: subtitleFile('a.txt', vtt), offset_ms: 500 })
+    expect(res.data).toMatchObject({ format: 'vtt', t_start_ms: 1500, t_end_ms: 2500 })
+    expect((harness.dataService.state.transcriptions.get(lectureId) as any[])[0].content).toBe('a & b')
+  })
+
+  it('纯文本以下一行的开始时间作为结束时间', async () => {
+    const res = await lecture('import', { file: subtitleFile('a.txt', '[00:00] 开始\n续行\n[00:10] 结束\n') })
+    expect(res.data).toMatchObject({ format: 'text', segment_count: 2 })
+    expect(harness.dataService.state.transcriptions.get(lectureId)).toEqual([
+      { t_start_ms: 0, t_end_ms: 10_000, content: '开始续行', seq_no: 1 },
+      { t_start_ms: 10_000, t_end_ms: 15_000, content: '结束', seq_no: 2 }
+    ])
+  })
+
+  it('跳过只有时间行没有文本的 cue', async () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\n\n2\n00:00:02,500 --> 00:00:03,000\nworld\n'
+    const res = await lecture('import', { file: subtitleFile('a.srt', srt) })
+    expect(res.data).toMatchObject({ segment_count: 1, t_start_ms: 2500 })
+    expect((harness.dataService.state.transcriptions.get(lectureId) as any[]).map((segment) => segment.content)).toEqual(['world'])
+  })
+
+  it('summarize 为 true 时按时间窗口生成阶段总结', async () => {
+    harness.openai.onResponses(() => ({ json: { summary: '导数', highlights: ['a', 'b', 'c'], knowledge_keywords: ['k', 'l', 'm'] } }))
+    const text = ['[00:00] 今天我们讲导数的定义，它描述函数在某一点的瞬时变化率', '[06:00] 接下来讲导数的几何意义，也就是切线的斜率与方程'].join('\n')
+    const res = await lecture('import', { file: subtitleFile('a.txt', text), summarize: true, language: 'zh' })
+    expect((res.data as any).stage_summaries).toEqual({ generated: 2, failed: [] })
+    expect(harness.dataService.state.summaries.get(lectureId)).toHaveLength(2)
+  })
+
+  it('按解码后的字节数限制大小，不采信声明的 size', async () => {
+    const line = '[00:00] x\n'
+    const oversized = line.repeat(Math.ceil(5 * 1024 * 1024 / line.length) + 1)
+    expect(await lecture('import', { file: subtitleFile('a.txt', oversized, { size: 1 }) })).toMatchObject({
+      status_code: 400,
+      message: 'subtitle file too large (max 5 MB)'
+    })
+    const tooLong = await lecture('import', { file: { name: 'a.txt', mime_type: 'text/plain', data: 'A'.repeat(8 * 1024 * 1024) } })
+    expect(tooLong.status_code).toBe(400)
+    expect((tooLong.data as any).errors).toEqual([{ path: 'file.data', message: 'subtitle file too large (max 5 MB)' }])
+    expect(harness.dataService.calls).toEqual([])
+  })
+
+  it('字幕条数超过上限时返回 400，不写入', async () => {
+    const text = Array.from({ length: 2001 }, (_, index) => `[${Math.floor(index / 60)}:${String(index % 60).padStart(2, '0')}] x`).join('\n')
+    expect(await lecture('import', { file: subtitleFile('a.txt', text) })).toMatchObject({
+      status_code: 400,
+      message: 'too many cues (max 2000 per import)'
+    })
+    expect(harness.dataService.calls).toEqual([])
+  })
+
+  it('格式错误或缺少 language 时返回 400，不写入', async () => {
+    expect(await lecture('import', { file: subtitleFile('a.srt', '1\n00:00:01,000 --> bad\nx\n') })).toMatchObject({
+      status_code: 400,
+      message: 'invalid timestamp "bad" near line 1'
+    })
+    expect((await lecture('import', { file: subtitleFile('a.txt', '[00:00] x'), summarize: true })).status_code).toBe(400)
+    expect((await lecture('import', { file: subtitleFile('a.txt', 'no timestamp') })).status_code).toBe(400)
+    expect(harness.dataService.state.transcriptions.get(lectureId) ?? []).toEqual([])
+  })
+})
+
+describe('lecture.transcription.append-batch', () => {
+  it('省略 seq_no 时接在已存储的最大值之后编号，并报告时间空档', async () => {
+    seedTranscript([[0, 1000, 'a', 1]])
+    const res = await lecture('transcription.append-batch', {
+      segments: [{ t_start_ms: 1000, t_end_ms: 2000, content: 'b' }, { t_start_ms: 10_000, t_end_ms: 11_000, content: 'c' }]
+    })
+    expect(res.data).toMatchObject({ appended: 2, seq_from: 2, seq_to: 3, missing_seq: [] })
+    expect((res.data as any).time_gaps).toEqual([{ after_seq_no: 2, t_start_ms: 2000, t_end_ms: 10_000, duration_ms: 8000 }])
+  })
+
+  it('seq_no 不递增或与已存储片段重叠时整批拒绝', async () => {
+    seedTranscript([[0, 1000, 'a', 1]])
+    const notIncreasing = await lecture('transcription.append-batch', {
+      segments: [{ t_start_ms: 1000, t_end_ms: 2000, content: 'b', seq_no: 3 }, { t_start_ms: 2000, t_end_ms: 3000, content: 'c', seq_no: 3 }]
+    })
+    expect(notIncreasing.status_code).toBe(400)
+    expect((notIncreasing.data as any).errors).toEqual([{ path: 'segments.1.seq_no', message: 'seq_no must be strictly increasing' }])
+
+    const overlapping = await lecture('transcription.append-batch', { segments: [{ t_start_ms: 500, t_end_ms: 2000, content: 'b' }] })
+    expect((overlapping.data as any).errors).toEqual([{ path: 'segments.0.t_start_ms', message: 'overlaps seq_no 1 by 500 ms' }])
+    expect(harness.dataService.state.transcriptions.get(lectureId)).toHaveLength(1)
+  })
+
+  it('同一讲座的并发批次与导入依次编号，不会分到相同的 seq_no', async () => {
+    seedTranscript([[0, 1000, 'a', 1]])
+    const results = await Promise.all([
+      lecture('transcription.append-batch', { segments: [{ t_start_ms: 1000, t_end_ms: 2000, content: 'b' }], allow_overlaps: true }),
+      lecture('transcription.append-batch', { segments: [{ t_start_ms: 2000, t_end_ms: 3000, content: 'c' }], allow_overlaps: true }),
+      lecture('import', { file: subtitleFile('a.txt', '[00:03] d\n[00:04] e\n') })
+    ])
+    expect(results.map((res) => res.status_code)).toEqual([200, 200, 200])
+    expect((harness.dataService.state.transcriptions.get(lectureId) as any[]).map((segment) => segment.seq_no)).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('allow_overlaps 时只报告重叠，缺号在响应中返回', async () => {
+    seedTranscript([[0, 1000, 'a', 1]])
+    const res = await lecture('transcription.append-batch', {
+      segments: [{ t_start_ms: 800, t_end_ms: 2000, content: 'b', seq_no: 3 }],
+      allow_overlaps: true
+    })
+    expect(res.data).toMatchObject({ appended: 1, missing_seq: [{ from: 2, to: 2 }], overlaps: [{ seq_no: 3, overlap_ms: 200 }] })
+  })
+})
+
+describe('批量写入中途失败', () => {
+  const batch = {
+    segments: [
+      { t_start_ms: 1000, t_end_ms: 2000, content: 'b' },
+      { t_start_ms: 2000, t_end_ms: 3000, content: 'c' },
+      { t_start_ms: 3000, t_end_ms: 4000, content: 'd' }
+    ]
+  }
+
+  // 第 failAt 次写入失败；rollbackFails 为 true 时随后的删除也失败
+  function failWrite(failAt: number, rollbackFails = false){
+    const list = harness.dataService.state.transcriptions.get(lectureId)!
+    let writes = 0
+    // 不可枚举，读取转录时的 structuredClone 会跳过它
+    Object.defineProperty(list, 'push', {
+      enumerable: false,
+      value(this: unknown[], ...items: unknown[]){
+        writes += 1
+        if(writes === failAt){
+          if(rollbackFails) harness.dataService.failNext(503, 'delete failed')
+          throw new FakeDataServiceError(503, 'upstream timeout')
+        }
+        return Array.prototype.push.apply(this, items)
+      }
+    })
+  }
+
+  function storedSeqNos(){
+    return (harness.dataService.state.transcriptions.get(lectureId) as any[]).map((segment) => segment.seq_no)
+  }
+
+  it('删除本次已写入的片段后返回原错误', async () => {
+    seedTranscript([[0, 1000, 'a', 1]])
+    failWrite(3)
+    const res = await lecture('transcription.append-batch', batch)
+    expect(res.status_code).toBe(500)
+    expect(res.partial).toBeUndefined()
+    expect(storedSeqNos()).toEqual([1])
+    expect(harness.dataService.calls.map((call) => `${call.method} ${call.path}`).slice(-2)).toEqual([
+      `DELETE /lectures/${lectureId}/transcription/3`,
+      `DELETE /lectures/${lectureId}/transcription/2`
+    ])
+  })
+
+  it('回滚失败时返回 partial 与仍留下的 seq_no', async () => {
+    seedTranscript([[0, 1000, 'a', 1]])
+    failWrite(2, true)
+    const res = await lecture('transcription.append-batch', batch)
+    expect(res).toMatchObject({
+      status_code: 502,
+      message: 'transcription batch partially written',
+      partial: true,
+      data: { lecture_id: lectureId, appended: 1, written: [2], failed_seq_no: 3, error: 'upstream timeout' }
+    })
+    expect(storedSeqNos()).toEqual([1, 2])
+  })
+
+  it('导入同样回滚已写入的片段', async () => {
+    seedTranscript([])
+    failWrite(2)
+    const res = await lecture('import', { file: subtitleFile('a.txt', '[00:00] a\n[00:05] b\n[00:10] c\n') })
+    expect(res.status_code).toBe(500)
+    expect(storedSeqNos()).toEqual([])
+  })
+})
+
+describe('lecture.transcription.check', () => {
+  it('报告缺号、重号、乱序、重叠与时间空档', async () => {
+    seedTranscript([[0, 1000, 'a', 1], [900, 2000, 'b', 3], [2000, 3000, 'c', 3], [3000, 4000, 'd', 2], [20_000, 21_000, 'e'], [21_000, 22_000, 'f', 6]])
+    const res = await lecture('transcription.check')
+    expect(res.data).toMatchObject({
+      ok: false,
+      segment_count: 6,
+      seq_from: 1,
+      seq_to: 6,
+      missing_seq: [{ from: 4, to: 5 }],
+      duplicate_seq: [3],
+      unnumbered: 1,
+      out_of_order: [{ seq_no: 2, previous_seq_no: 3 }],
+      overlaps: [{ seq_no: 3, previous_seq_no: 1, t_start_ms: 900, overlap_ms: 100 }],
+      time_gaps: [{ after_seq_no: 2, t_start_ms: 4000, t_end_ms: 20_000, duration_ms: 16_000 }]
+    })
+  })
+
+  it('overlap_tolerance_ms 以内的重叠视为正常', async () => {
+    seedTranscript([[0, 1000, 'a', 1], [900, 2000, 'b', 2]])
+    expect(((await lecture('transcription.check', { overlap_tolerance_ms: 100 })).data as any).ok).toBe(true)
+  })
+})
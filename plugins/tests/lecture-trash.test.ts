@@ -0,0 +1,124 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+
+let dir: string | undefined
+let harness: PluginHarness | undefined
+
+afterEach(async () => {
+  await harness?.close()
+  harness = undefined
+  if(dir) await rm(dir, { recursive: true, force: true })
+  dir = undefined
+})
+
+async function withLecture(trash: Record<string, unknown> = {}){
+  dir = await mkdtemp(path.join(tmpdir(), 'lecture-trash-'))
+  harness = await createPluginHarness({
+    config: { plugins: { trash: { storePath: path.join(dir, 'trash.json'), ...trash }, sharing: { storePath: path.join(dir, 'shares.json') } } }
+  })
+  return harness.dataService.seedLecture({ owner_id: 'test-user', sessionName: '微积分', courseCode: 'MATH' }).lecture_id
+}
+
+function lecture(operation: string, inputs: Record<string, unknown> = {}, userId?: string){
+  return harness!.invokePlugin(`lecture.${operation}`, { operation, inputs, userId })
+}
+
+describe('lecture trash', () => {
+  it('删除只移入回收站，讲座操作返回 404，列表默认不列出', async () => {
+    const id = await withLecture()
+    const deleted = await lecture('delete', { lecture_id: id })
+    expect(deleted.data).toMatchObject({ lecture_id: id, trashed: true })
+    expect(harness!.dataService.state.lectures.has(id)).toBe(true)
+
+    expect(await lecture('get', { lecture_id: id })).toMatchObject({ status_code: 404, message: 'lecture is in trash' })
+    expect((await lecture('list')).data).toMatchObject({ items: [], total: 0 })
+    const withTrashed = (await lecture('list', { include_trashed: true })).data as any
+    expect(withTrashed.items[0]).toMatchObject({ lecture_id: id, deleted_at: expect.any(String) })
+  })
+
+  it('trash.list 只列出调用方的讲座及其概要', async () => {
+    const id = await withLecture()
+    await lecture('delete', { lecture_id: id })
+    expect((await lecture('trash.list')).data).toMatchObject({
+      items: [{ lecture_id: id, sessionName: '微积分', courseCode: 'MATH', purge_after: expect.any(String) }],
+      total: 1
+    })
+    expect((await lecture('trash.list', {}, 'other-user')).data).toMatchObject({ items: [], total: 0 })
+  })
+
+  it('恢复后讲座重新可用', async () => {
+    const id = await withLecture()
+    await lecture('delete', { lecture_id: id })
+    expect((await lecture('restore', { lecture_id: id })).data).toEqual({ lecture_id: id, restored: true })
+    expect((await lecture('get', { lecture_id: id })).status_code).toBe(200)
+    expect(await lecture('restore', { lecture_id: id })).toMatchObject({ status_code: 404, message: 'lecture is not in trash' })
+  })
+
+  it('彻底删除向 Data Service 发出 DELETE，并清理共享记录与检索索引', async () => {
+    const id = await withLecture()
+    harness!.dataService.state.transcriptions.set(id, [{ t_start_ms: 0, t_end_ms: 1000, content: '导数', seq_no: 1 }])
+    await lecture('search', { query: '导数' })
+    await lecture('share', { lecture_id: id, user_id: 'viewer-user' })
+    await lecture('delete', { lecture_id: id })
+
+    expect(await lecture('purge', { lecture_id: id }, 'viewer-user')).toMatchObject({ status_code: 403 })
+    expect((await lecture('purge', { lecture_id: id })).data).toEqual({ lecture_id: id, purged: true })
+    expect(harness!.dataService.state.lectures.has(id)).toBe(false)
+
+    // 以同一 id 重建的讲座不继承旧的共享记录与索引
+    harness!.dataService.seedLecture({ lecture_id: id, owner_id: 'test-user' })
+    harness!.dataService.state.transcriptions.delete(id)
+    expect((await lecture('search', { query: '导数' })).data).toMatchObject({ total: 0 })
+    expect((await lecture('members', { lecture_id: id })).data).toMatchObject({ members: [] })
+  })
+
+  it('保留期满的讲座在查看回收站时彻底删除，不能再恢复', async () => {
+    const id = await withLecture({ retentionMs: 1 })
+    await lecture('delete', { lecture_id: id })
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect((await lecture('trash.list')).data).toMatchObject({ items: [], total: 0 })
+    expect(harness!.dataService.state.lectures.has(id)).toBe(false)
+    expect((await lecture('restore', { lecture_id: id })).status_code).toBe(404)
+  })
+
+  it('未配置 trash.storePath 时回收站只保存在内存中，并记录一次警告', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    harness = await createPluginHarness()
+    const id = harness.dataService.seedLecture({ owner_id: 'test-user' }).lecture_id
+    expect((await lecture('delete', { lecture_id: id })).data).toMatchObject({ lecture_id: id, trashed: true })
+    expect(await lecture('get', { lecture_id: id })).toMatchObject({ status_code: 404, message: 'lecture is in trash' })
+    expect((await lecture('restore', { lecture_id: id })).data).toEqual({ lecture_id: id, restored: true })
+    await lecture('delete', { lecture_id: id })
+    expect(warn.mock.calls.filter(([message]) => String(message).startsWith('[lecture-trash]'))).toHaveLength(1)
+    warn.mockRestore()
+  })
+
+  it('保留期满的讲座由定时任务彻底删除，无需所有者再次操作', async () => {
+    const id = await withLecture({ retentionMs: 1, purgeIntervalMs: 10 })
+    await lecture('delete', { lecture_id: id })
+    await vi.waitFor(() => expect(harness!.dataService.state.lectures.has(id)).toBe(false))
+    expect(harness!.dataService.calls.at(-1)).toMatchObject({ method: 'DELETE', userId: 'test-user' })
+  })
+
+  it('Data Service 已分页时跳过回收站中的讲座补足每页，total 不含回收站中的讲座', async () => {
+    await withLecture()
+    harness!.dataService.paginateLectures()
+    const ids = [...harness!.dataService.state.lectures.keys()]
+    for(let i = 0; i < 4; i++) ids.push(harness!.dataService.seedLecture({ owner_id: 'test-user', courseCode: 'MATH' }).lecture_id)
+    await lecture('delete', { lecture_id: ids[0] })
+    await lecture('delete', { lecture_id: ids[1] })
+
+    const first = (await lecture('list', { limit: 2 })).data as any
+    expect(first.items.map((item: any) => item.lecture_id)).toEqual([ids[2], ids[3]])
+    expect(first.total).toBe(3)
+    const second = (await lecture('list', { limit: 2, cursor: first.next_cursor })).data as any
+    expect(second.items.map((item: any) => item.lecture_id)).toEqual([ids[4]])
+    expect(second.next_cursor).toBeNull()
+
+    const withTrashed = (await lecture('list', { limit: 2, include_trashed: true })).data as any
+    expect(withTrashed).toMatchObject({ items: [{ lecture_id: ids[0] }, { lecture_id: ids[1] }], total: 5 })
+  })
+})
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, drainStream, type PluginHarness } from '../testing/harness.js'
+
+const STAGE_TEXT = '今天我们讲导数的定义，它描述函数在某一点的瞬时变化率'
+const STAGE_SUMMARY = { summary: '导数的定义', highlights: ['极限', '切线斜率', '可导与连续'], knowledge_keywords: ['导数', '极限', '切线'] }
+const REPORT = {
+  sections: [{ title: '导数', summary: '导数的定义', items: [{ heading: '定义', summary: '极限', details: [{ point: 'p', explanation: 'e', example: 'x' }] }] }],
+  next_actions: ['复习极限']
+}
+
+let harness: PluginHarness
+
+beforeEach(async () => {
+  harness = await createPluginHarness()
+})
+
+afterEach(async () => {
+  await harness.close()
+})
+
+function audioFile(bytes = 16){
+  return { name: 'chunk.webm', mime_type: 'audio/webm', data: Buffer.alloc(bytes, 1).toString('base64') }
+}
+
+function materialFile(text = '# 微积分\n第一讲 导数'){
+  return { name: 'syllabus.md', mime_type: 'text/markdown', data: Buffer.from(text).toString('base64') }
+}
+
+describe('audio.transcribe', () => {
+  it('返回转录文本并按讲座记账', async () => {
+    harness.openai.onTranscription(() => ({ text: '大家好', usage: { type: 'duration', seconds: 12 } }))
+    const res = await harness.invokePlugin('audio.transcribe', {
+      operation: 'transcribe',
+      inputs: { file: audioFile(), language: 'zh', lecture_id: 'lec-1' }
+    })
+    expect(res).toMatchObject({ status_code: 200, data: { text: '大家好' } })
+
+    const usage = await harness.invokePlugin('usage.report', { operation: 'query', inputs: { group_by: 'lecture' } })
+    expect((usage.data as any).groups).toEqual([expect.objectContaining({ key: 'lec-1', calls: 1, audio_seconds: 12 })])
+  })
+
+  it('不支持的扩展名返回 400', async () => {
+    const res = await harness.invokePlugin('audio.transcribe', {
+      operation: 'transcribe',
+      inputs: { file: { ...audioFile(), name: 'notes.txt' } }
+    })
+    expect(res.status_code).toBe(400)
+    expect(harness.openai.requests).toHaveLength(0)
+  })
+})
+
+describe('material.analyze', () => {
+  beforeEach(() => {
+    harness.openai.onResponses(() => ({
+      json: { courseCode: 'MATH101', sessionName: '微积分', subtitle: '第一讲', description: '导数', outline: ['导数'] }
+    }))
+  })
+
+  it('上传资料并返回课程画像与 fileID', async () => {
+    const res = await harness.invokePlugin('material.analyze', { operation: 'analyze', inputs: { file: materialFile() } })
+    expect(res.status_code).toBe(200)
+    expect(res.data).toMatchObject({ courseCode: 'MATH101', sessionName: '微积分' })
+    expect((res.data as any).fileID).toMatch(/^file_/)
+    expect(res.meta?.cache).toMatchObject({ status: 'miss' })
+  })
+
+  it('同一用户上传相同内容时命中缓存，其他用户不复用 fileID', async () => {
+    const first = await harness.invokePlugin('material.analyze', { operation: 'analyze', inputs: { file: materialFile() } })
+    const again = await harness.invokePlugin('material.analyze', { operation: 'analyze', inputs: { file: materialFile() } })
+    expect(again.meta?.cache).toMatchObject({ status: 'hit' })
+    expect((again.data as any).fileID).toBe((first.data as any).fileID)
+
+    const other = await harness.invokePlugin('material.analyze', { operation: 'analyze', inputs: { file: materialFile() }, userId: 'other-user' })
+    expect(other.meta?.cache).toMatchObject({ status: 'miss' })
+    expect((other.data as any).fileID).not.toBe((first.data as any).fileID)
+  })
+
+  it('cache_bypass 跳过缓存', async () => {
+    await harness.invokePlugin('material.analyze', { operation: 'analyze', inputs: { file: materialFile() } })
+    const res = await harness.invokePlugin('material.analyze', { operation: 'analyze', inputs: { file: materialFile(), cache_bypass: true } })
+    expect(res.meta?.cache).toMatchObject({ status: 'bypass' })
+  })
+})
+
+describe('audio.stage-summary', () => {
+  it('生成结构化阶段总结，相同输入命中缓存', async () => {
+    harness.openai.onResponses(() => ({ json: STAGE_SUMMARY }))
+    const inputs = { current: STAGE_TEXT, language: 'zh' }
+    const first = await harness.invokePlugin('audio.stage-summary', { operation: 'stage', inputs })
+    expect(first).toMatchObject({ status_code: 200, data: STAGE_SUMMARY, meta: { cache: { status: 'miss' } } })
+
+    const second = await harness.invokePlugin('audio.stage-summary', { operation: 'stage', inputs })
+    expect(second.meta?.cache).toMatchObject({ status: 'hit' })
+    expect(harness.openai.requests.filter((request) => request.path === '/responses')).toHaveLength(1)
+
+    const invalidated = await harness.invokePlugin('audio.stage-summary', { operation: 'stage', inputs: { ...inputs, cache_invalidate: true } })
+    expect(invalidated.meta?.cache).toMatchObject({ status: 'miss' })
+  })
+
+  it('未提供 current 时按 lecture_id 读取转录', async () => {
+    harness.openai.onResponses(() => ({ json: STAGE_SUMMARY }))
+    const lecture = harness.dataService.seedLecture({ owner_id: 'test-user' })
+    harness.dataService.state.transcriptions.set(lecture.lecture_id, [
+      { t_start_ms: 0, t_end_ms: 1000, content: STAGE_TEXT, seq_no: 1 }
+    ])
+    const res = await harness.invokePlugin('audio.stage-summary', {
+      operation: 'stage',
+      inputs: { lecture_id: lecture.lecture_id, language: 'zh', from_ms: 0, to_ms: 5000 }
+    })
+    expect(res.status_code).toBe(200)
+    const prompt = JSON.stringify(harness.openai.requests.at(-1)?.body)
+    expect(prompt).toContain('瞬时变化率')
+  })
+
+  it('模型返回错误时返回 500', async () => {
+    harness.openai.onResponses(() => ({ status: 400, error: 'bad request' }))
+    const res = await harness.invokePlugin('audio.stage-summary', { operation: 'stage', inputs: { current: STAGE_TEXT, language: 'zh' } })
+    expect(res).toMatchObject({ status_code: 500, message: 'stage summary failed' })
+  })
+})
+
+describe('audio.dialogue', () => {
+  it('新对话返回回答并创建 conversation，继续对话时轮次递增', async () => {
+    harness.openai.onResponses(() => ({ text: '导数是变化率' }))
+    const first = await harness.invokePlugin('audio.dialogue', {
+      operation: 'chat',
+      inputs: { language: 'zh', summaries: '导数的定义', question: '什么是导数？' }
+    })
+    expect(first).toMatchObject({ status_code: 200, data: { answer: '导数是变化率', turn: 1 } })
+    const conversationId = (first.data as any).conversation_id
+    expect(harness.openai.conversations.get(conversationId)?.metadata).toMatchObject({ turn: '1' })
+
+    const second = await harness.invokePlugin('audio.dialogue', {
+      operation: 'chat',
+      inputs: { language: 'zh', question: '举个例子', conversation_id: conversationId }
+    })
+    expect(second).toMatchObject({ status_code: 200, data: { conversation_id: conversationId, turn: 2 } })
+  })
+
+  it('新对话缺少 summaries 返回 400', async () => {
+    const res = await harness.invokePlugin('audio.dialogue', { operation: 'chat', inputs: { language: 'zh', question: '?' } })
+    expect(res).toMatchObject({ status_code: 400, message: 'summaries is required for a new conversation' })
+  })
+
+  it('stream: true 时逐段返回增量，最后一个事件携带完整结果', async () => {
+    harness.openai.onResponses(() => ({ text: 'hello world streamed answer' }))
+    const res = await harness.invokePlugin('audio.dialogue', {
+      operation: 'chat',
+      inputs: { language: 'zh', summaries: '摘要', question: 'q', stream: true }
+    })
+    expect(res.status_code).toBe(200)
+    const { events, text } = await drainStream(res)
+    expect(text).toBe('hello world streamed answer')
+    expect(events.filter((event) => event.type === 'delta').length).toBeGreaterThan(1)
+    expect(events.at(-1)).toMatchObject({ type: 'done', data: { answer: 'hello world streamed answer', turn: 1 } })
+  })
+
+  it('流中途失败时以 error 事件结束并删除新建的 conversation', async () => {
+    harness.openai.onResponses(() => ({ status: 500, error: 'boom' }))
+    const res = await harness.invokePlugin('audio.dialogue', {
+      operation: 'chat',
+      inputs: { language: 'zh', summaries: '摘要', question: 'q', stream: true }
+    })
+    const { events } = await drainStream(res)
+    expect(events.at(-1)).toMatchObject({ type: 'error', message: 'dialogue failed' })
+    expect(harness.openai.conversations.size).toBe(0)
+  })
+})
+
+describe('audio.summary', () => {
+  it('直接传入阶段总结时返回结构化报告', async () => {
+    harness.openai.onResponses(() => ({ json: REPORT }))
+    const res = await harness.invokePlugin('audio.summary', {
+      operation: 'summarize',
+      inputs: { language: 'zh', stage_summaries: '导数的定义与性质' }
+    })
+    expect(res).toMatchObject({ status_code: 200, data: REPORT })
+  })
+
+  it('lectureId 模式读取阶段总结并保存报告', async () => {
+    harness.openai.onResponses(() => ({ json: REPORT }))
+    const lecture = harness.dataService.seedLecture({ owner_id: 'test-user', language: 'zh', status: 3 })
+    harness.dataService.state.summaries.set(lecture.lecture_id, [{ t_start_ms: 0, t_end_ms: 1000, content: '导数', seq_no: 1 }])
+    const res = await harness.invokePlugin('audio.summary', { operation: 'summarize', inputs: { lectureId: lecture.lecture_id } })
+    expect(res.status_code).toBe(200)
+    expect(JSON.parse(harness.dataService.state.reports.get(lecture.lecture_id)!.get(1)!)).toEqual(REPORT)
+  })
+})
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+import type { PluginLimits } from '../settings.js'
+
+let harness: PluginHarness | undefined
+
+afterEach(async () => {
+  await harness?.close()
+  harness = undefined
+})
+
+async function withLimits(plugin: string, limits: PluginLimits){
+  harness = await createPluginHarness({ config: { plugins: { rateLimits: { plugins: { [plugin]: limits } } } } })
+  return harness
+}
+
+function transcribe(bytes: number, extra: Record<string, unknown> = {}){
+  return harness!.invokePlugin('audio.transcribe', {
+    operation: 'transcribe',
+    inputs: { file: { name: 'a.webm', mime_type: 'audio/webm', data: Buffer.alloc(bytes, 1).toString('base64'), ...extra } }
+  })
+}
+
+describe('rateLimit', () => {
+  it('窗口内超出请求数返回 429 与 retry_after，按用户分别计数', async () => {
+    await withLimits('lecture.list', { requests: { limit: 2, windowMs: 60_000 } })
+    for(let i = 0; i < 2; i++){
+      expect((await harness!.invokePlugin('lecture.list', { operation: 'list' })).status_code).toBe(200)
+    }
+    const rejected = await harness!.invokePlugin('lecture.list', { operation: 'list' })
+    expect(rejected).toMatchObject({ status_code: 429, message: 'rate limit exceeded' })
+    expect(rejected.retry_after).toBeGreaterThan(0)
+
+    expect((await harness!.invokePlugin('lecture.list', { operation: 'list', userId: 'other-user' })).status_code).toBe(200)
+  })
+
+  it('每日调用次数配额', async () => {
+    await withLimits('lecture.list', { daily: { calls: 1 } })
+    expect((await harness!.invokePlugin('lecture.list', { operation: 'list' })).status_code).toBe(200)
+    expect(await harness!.invokePlugin('lecture.list', { operation: 'list' })).toMatchObject({
+      status_code: 429,
+      message: 'daily call quota exceeded'
+    })
+  })
+
+  it('音频配额按解码后的字节数计量，不采信声明的 size', async () => {
+    await withLimits('audio.transcribe', { daily: { audioBytes: 8 } })
+    harness!.openai.onTranscription(() => ({ text: 'hi' }))
+    expect(await transcribe(10, { size: 1 })).toMatchObject({ status_code: 429, message: 'daily audio quota exceeded' })
+    expect((await transcribe(6)).status_code).toBe(200)
+    expect((await transcribe(3)).status_code).toBe(429)
+  })
+
+  it('被每日配额拒绝的请求不占用窗口', async () => {
+    await withLimits('audio.transcribe', { requests: { limit: 1, windowMs: 60_000 }, daily: { audioBytes: 8 } })
+    harness!.openai.onTranscription(() => ({ text: 'hi' }))
+    expect((await transcribe(10)).status_code).toBe(429)
+    expect((await transcribe(4)).status_code).toBe(200)
+    expect(await transcribe(1)).toMatchObject({ status_code: 429, message: 'rate limit exceeded' })
+  })
+
+  it('每日 token 配额取自用量记账', async () => {
+    await withLimits('audio.stage-summary', { daily: { tokens: 10 } })
+    harness!.openai.onResponses(() => ({
+      json: { summary: 's', highlights: ['a', 'b', 'c'], knowledge_keywords: ['k'] },
+      usage: { input_tokens: 8, output_tokens: 4, total_tokens: 12 }
+    }))
+    const inputs = { current: '今天我们讲导数的定义，它描述函数在某一点的瞬时变化率', language: 'zh', cache_bypass: true }
+    expect((await harness!.invokePlugin('audio.stage-summary', { operation: 'stage', inputs })).status_code).toBe(200)
+    expect(await harness!.invokePlugin('audio.stage-summary', { operation: 'stage', inputs })).toMatchObject({
+      status_code: 429,
+      message: 'daily token quota exceeded'
+    })
+  })
+
+  it('未登录的调用不计数', async () => {
+    await withLimits('plugins.catalog', { requests: { limit: 1, windowMs: 60_000 } })
+    for(let i = 0; i < 3; i++){
+      expect((await harness!.invokePlugin('plugins.catalog', { operation: 'list', userId: '' })).status_code).toBe(200)
+    }
+  })
+})
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+
+// index.ts 注册的全部插件；新增插件时同步更新
+const PLUGINS = [
+  'auth_password',
+  'auth_register',
+  'auth_refresh',
+  'auth_logout',
+  'auth_me',
+  'auth_change_password',
+  'data.proxy',
+  'lecture.get',
+  'lecture.list',
+  'material.analyze',
+  'audio.transcribe',
+  'audio.stage-summary',
+  'audio.dialogue',
+  'audio.summary',
+  'plugins.catalog',
+  'workflow.run',
+  'usage.report'
+]
+
+let harness: PluginHarness
+
+beforeEach(async () => {
+  harness = await createPluginHarness()
+})
+
+afterEach(async () => {
+  await harness.close()
+})
+
+describe('plugins.catalog', () => {
+  it('列出 index.ts 注册的全部插件及其 manifest', async () => {
+    const res = await harness.invokePlugin('plugins.catalog', { operation: 'list', userId: '' })
+    expect(res.status_code).toBe(200)
+    const names = (res.data as any).plugins.map((plugin: any) => plugin.name)
+    expect(names).toEqual(expect.arrayContaining(PLUGINS))
+    expect(names).toEqual([...names].sort())
+  })
+
+  it('describe 返回操作的 JSON Schema 与 mutating 标记', async () => {
+    const res = await harness.invokePlugin('plugins.catalog', { operation: 'describe', inputs: { name: 'lecture.create' }, userId: '' })
+    expect(res.status_code).toBe(200)
+    const operation = (res.data as any).operations.create
+    expect(operation.mutating).toBe(true)
+    expect(operation.inputs.type).toBe('object')
+    expect(operation.inputs.properties).toHaveProperty('sessionName')
+  })
+
+  it('未知插件返回 404', async () => {
+    const res = await harness.invokePlugin('plugins.catalog', { operation: 'describe', inputs: { name: 'nope' }, userId: '' })
+    expect(res.status_code).toBe(404)
+  })
+})
+
+describe('中间件', () => {
+  it('未登录调用需要登录的插件返回 400', async () => {
+    const res = await harness.invokePlugin('lecture.get', { operation: 'get', inputs: { lecture_id: 'x' }, userId: '' })
+    expect(res).toMatchObject({ status_code: 400, message: 'missing user id' })
+  })
+
+  it('Data Service 的 4xx 原样透传，5xx 归一为 500', async () => {
+    const missing = await harness.invokePlugin('lecture.get', { operation: 'get', inputs: { lecture_id: 'missing' } })
+    expect(missing.status_code).toBe(404)
+
+    const lecture = harness.dataService.seedLecture({ owner_id: 'test-user' })
+    harness.dataService.failNext(503)
+    const failed = await harness.invokePlugin('lecture.get', { operation: 'get', inputs: { lecture_id: lecture.lecture_id } })
+    expect(failed).toMatchObject({ status_code: 500, message: 'lecture.get failed' })
+  })
+
+  it('截止时间已过返回 504，调用方取消返回 499', async () => {
+    const expired = await harness.invokePlugin('lecture.list', { operation: 'list', deadline: Date.now() - 1 })
+    expect(expired).toMatchObject({ status_code: 504, message: 'deadline exceeded' })
+
+    const controller = new AbortController()
+    controller.abort()
+    const cancelled = await harness.invokePlugin('lecture.list', { operation: 'list', signal: controller.signal })
+    expect(cancelled).toMatchObject({ status_code: 499, message: 'request cancelled' })
+    expect(harness.dataService.calls).toHaveLength(0)
+  })
+
+  it('插件执行中途取消时返回 499 而不是 500', async () => {
+    const controller = new AbortController()
+    harness.openai.onResponses(() => {
+      controller.abort()
+      return { json: { summary: '导数', highlights: ['a', 'b', 'c'], knowledge_keywords: [] } }
+    })
+    const res = await harness.invokePlugin('audio.stage-summary', {
+      operation: 'stage',
+      inputs: { current: '今天我们讲导数的定义，它描述函数在某一点的瞬时变化率', language: 'zh' },
+      signal: controller.signal
+    })
+    expect(res.status_code).toBe(499)
+  })
+})
@@ -0,0 +1,47 @@
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createFileStore } from '../result-cache.js'
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'result-cache-'))
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+function entry(value: unknown, ttlMs = 60_000){
+  const now = Date.now()
+  return { value, storedAt: now, expiresAt: now + ttlMs }
+}
+
+describe('createFileStore', () => {
+  it('写入后不留下临时文件，无法解析的条目视为未命中并删除', async () => {
+    const store = createFileStore(dir)
+    await store.set('a', entry('va'))
+    expect(await readdir(dir)).toEqual(['a.json'])
+    expect((await store.get('a'))?.value).toBe('va')
+
+    await writeFile(path.join(dir, 'b.json'), '{"value":', 'utf8')
+    expect(await store.get('b')).toBeUndefined()
+    expect(await readdir(dir)).toEqual(['a.json'])
+  })
+
+  it('整理时删除过期条目，超出 maxEntries 时淘汰最久未使用的条目', async () => {
+    const store = createFileStore(dir, 2, 0)
+    await store.set('expired', entry('x', -1))
+    await store.set('old', entry('o'))
+    await store.set('used', entry('u'))
+    // 读取会刷新最近使用时间
+    const past = new Date(Date.now() - 10_000)
+    await utimes(path.join(dir, 'old.json'), past, past)
+    await utimes(path.join(dir, 'used.json'), past, past)
+    await store.get('used')
+    await store.set('new', entry('n'))
+    expect((await readdir(dir)).sort()).toEqual(['new.json', 'used.json'])
+  })
+})
@@ -0,0 +1,128 @@
+import { createHmac, generateKeyPairSync, sign } from 'node:crypto'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+
+const SECRET = 'test-secret'
+
+let harness: PluginHarness | undefined
+let dir: string | undefined
+
+afterEach(async () => {
+  await harness?.close()
+  harness = undefined
+  if(dir) await rm(dir, { recursive: true, force: true })
+  dir = undefined
+})
+
+function encode(value: unknown){
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function hs256(claims: Record<string, unknown>, secret = SECRET){
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`
+}
+
+function claims(overrides: Record<string, unknown> = {}){
+  return { sub: 'jwt-user', exp: Math.floor(Date.now() / 1000) + 60, ...overrides }
+}
+
+async function withAuth(auth: Record<string, unknown> = {}, plugins: Record<string, unknown> = {}){
+  harness = await createPluginHarness({
+    config: { plugins: { auth: { enabled: true, keys: [{ alg: 'HS256', secret: SECRET }], ...auth }, ...plugins } }
+  })
+  return harness
+}
+
+// lecture.delete 要求配置回收站的 storePath
+async function trashSettings(){
+  dir = await mkdtemp(path.join(tmpdir(), 'token-auth-'))
+  return { trash: { storePath: path.join(dir, 'trash.json') } }
+}
+
+function listAs(token: string){
+  return harness!.invokePlugin('lecture.list', { operation: 'list', userId: 'spoofed', headers: { authorization: `Bearer ${token}` } })
+}
+
+describe('authenticate', () => {
+  it('以令牌中的 sub 覆盖调用方传入的 userId', async () => {
+    await withAuth()
+    harness!.dataService.seedLecture({ owner_id: 'jwt-user', sessionName: 'mine' })
+    harness!.dataService.seedLecture({ owner_id: 'spoofed', sessionName: 'other' })
+    const res = await listAs(hs256(claims()))
+    expect(res.status_code).toBe(200)
+    expect((res.data as any).items.map((item: any) => item.sessionName)).toEqual(['mine'])
+  })
+
+  it('签名错误、过期、缺少 sub 与 iss / aud 不匹配返回 401', async () => {
+    await withAuth({ issuer: 'https://issuer', audience: 'lectures' })
+    const valid = { iss: 'https://issuer', aud: ['lectures'] }
+    expect((await listAs(hs256(claims(valid)))).status_code).toBe(200)
+
+    const cases = [
+      [hs256(claims(valid), 'other-secret'), 'invalid signature'],
+      [hs256(claims({ ...valid, exp: Math.floor(Date.now() / 1000) - 1 })), 'token expired'],
+      [hs256(claims({ ...valid, sub: undefined })), 'token has no subject'],
+      [hs256(claims({ ...valid, iss: 'https://evil' })), 'unexpected issuer'],
+      [hs256(claims({ ...valid, aud: 'other' })), 'unexpected audience'],
+      ['not-a-jwt', 'malformed token']
+    ]
+    for(const [token, message] of cases){
+      expect(await listAs(token)).toMatchObject({ status_code: 401, message })
+    }
+  })
+
+  it('未携带令牌时按未登录处理', async () => {
+    await withAuth()
+    expect((await harness!.invokePlugin('lecture.list', { operation: 'list' })).status_code).toBe(400)
+  })
+
+  it('公开插件在令牌无效时按未登录处理', async () => {
+    await withAuth()
+    const res = await harness!.invokePlugin('plugins.catalog', { operation: 'list', headers: { authorization: 'Bearer not-a-jwt' } })
+    expect(res.status_code).toBe(200)
+  })
+
+  it('从 JWKS 文件读取 RS256 公钥', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'token-auth-'))
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+    const jwksPath = path.join(dir, 'jwks.json')
+    await writeFile(jwksPath, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1', alg: 'RS256' }] }))
+    await withAuth({ keys: [], jwksPath })
+
+    const unsigned = `${encode({ alg: 'RS256', kid: 'k1' })}.${encode(claims())}`
+    const token = `${unsigned}.${sign('sha256', Buffer.from(unsigned), privateKey).toString('base64url')}`
+    expect((await listAs(token)).status_code).toBe(200)
+    expect(await listAs(hs256(claims()))).toMatchObject({ status_code: 401, message: 'no matching verification key' })
+  })
+})
+
+describe('authorizeRoles', () => {
+  it('按 manifest 声明的角色限制操作', async () => {
+    await withAuth({}, await trashSettings())
+    const lecture = harness!.dataService.seedLecture({ owner_id: 'jwt-user' })
+    const remove = (roles: string[]) => harness!.invokePlugin('lecture.delete', {
+      operation: 'delete',
+      inputs: { lecture_id: lecture.lecture_id },
+      headers: { authorization: `Bearer ${hs256(claims({ roles }))}` }
+    })
+    expect(await remove(['student'])).toMatchObject({ status_code: 403, data: { required_roles: ['owner', 'instructor'] } })
+    expect((await remove(['instructor'])).status_code).toBe(200)
+  })
+
+  it('配置中的角色优先于 manifest，可以从自定义 claim 读取', async () => {
+    await withAuth({ rolesClaim: 'groups', roles: { 'lecture.list': ['admin'] } })
+    expect((await listAs(hs256(claims({ groups: ['user'] })))).status_code).toBe(403)
+    expect((await listAs(hs256(claims({ groups: ['admin'] })))).status_code).toBe(200)
+  })
+
+  it('未启用令牌校验时不限制角色', async () => {
+    harness = await createPluginHarness({ config: { plugins: await trashSettings() } })
+    const lecture = harness.dataService.seedLecture({ owner_id: 'test-user' })
+    const res = await harness.invokePlugin('lecture.delete', { operation: 'delete', inputs: { lecture_id: lecture.lecture_id } })
+    expect(res.status_code).toBe(200)
+  })
+})
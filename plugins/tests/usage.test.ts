@@ -0,0 +1,95 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+
+const STAGE_TEXT = '今天我们讲导数的定义，它描述函数在某一点的瞬时变化率'
+
+let dir: string
+let harness: PluginHarness | undefined
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'usage-ledger-'))
+})
+
+afterEach(async () => {
+  await harness?.close()
+  harness = undefined
+  await rm(dir, { recursive: true, force: true })
+})
+
+function record(overrides: Record<string, unknown>){
+  return JSON.stringify({
+    plugin: 'audio.summary',
+    model: 'test-course-summary',
+    userId: 'test-user',
+    input_tokens: 10,
+    output_tokens: 5,
+    audio_seconds: 0,
+    recorded_at: new Date().toISOString(),
+    ...overrides
+  })
+}
+
+function query(inputs: Record<string, unknown>, userId?: string){
+  return harness!.invokePlugin('usage.report', { operation: 'query', inputs, userId })
+}
+
+describe('usage.report', () => {
+  it('记录模型调用的 token 并按插件汇总', async () => {
+    harness = await createPluginHarness()
+    harness.openai.onResponses(() => ({
+      json: { summary: 's', highlights: ['a', 'b', 'c'], knowledge_keywords: ['k', 'l', 'm'] },
+      usage: { input_tokens: 120, output_tokens: 30, total_tokens: 150 }
+    }))
+    await harness.invokePlugin('audio.stage-summary', { operation: 'stage', inputs: { current: STAGE_TEXT, language: 'zh' } })
+
+    const res = await query({ group_by: 'plugin' })
+    expect((res.data as any).groups).toEqual([
+      { key: 'audio.stage-summary', calls: 1, input_tokens: 120, output_tokens: 30, audio_seconds: 0, models: ['test-stage-summary'] }
+    ])
+  })
+
+  it('非管理员查询他人用量返回 403，管理员可以查询', async () => {
+    harness = await createPluginHarness({ config: { plugins: { usage: { admins: ['admin'] } } } })
+    expect((await query({ group_by: 'user', user_id: 'someone' })).status_code).toBe(403)
+    expect((await query({ group_by: 'user', user_id: 'someone' }, 'admin')).status_code).toBe(200)
+  })
+
+  it('重启后异步载入明细文件，窗口之外的范围从文件读取', async () => {
+    const file = path.join(dir, 'ledger.jsonl')
+    await writeFile(file, [
+      record({ input_tokens: 1, recorded_at: '2020-01-01T00:00:00.000Z' }),
+      record({ input_tokens: 100 }),
+      'not json',
+      ''
+    ].join('\n'))
+    harness = await createPluginHarness({ config: { plugins: { usage: { ledgerPath: file, memoryDays: 1 } } } })
+
+    const all = await query({ group_by: 'plugin' })
+    expect((all.data as any).groups[0]).toMatchObject({ calls: 2, input_tokens: 101 })
+
+    const recent = await query({ group_by: 'plugin', from: new Date(Date.now() - 60_000).toISOString() })
+    expect((recent.data as any).groups[0]).toMatchObject({ calls: 1, input_tokens: 100 })
+  })
+
+  it('新的明细追加写入文件，载入时不会重复计数', async () => {
+    const file = path.join(dir, 'ledger.jsonl')
+    await writeFile(file, `${record({})}\n`)
+    harness = await createPluginHarness({ config: { plugins: { usage: { ledgerPath: file } } } })
+    harness.openai.onTranscription(() => ({ text: 'hi', usage: { type: 'duration', seconds: 3 } }))
+    await harness.invokePlugin('audio.transcribe', {
+      operation: 'transcribe',
+      inputs: { file: { name: 'a.webm', mime_type: 'audio/webm', data: Buffer.from('abc').toString('base64') } }
+    })
+
+    const res = await query({ group_by: 'plugin' })
+    expect((res.data as any).groups.map((group: any) => [group.key, group.calls]).sort()).toEqual([
+      ['audio.summary', 1],
+      ['audio.transcribe', 1]
+    ])
+    const lines = (await readFile(file, 'utf8')).trim().split('\n')
+    expect(lines).toHaveLength(2)
+  })
+})
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPluginHarness, type PluginHarness } from '../testing/harness.js'
+import { FakeDataServiceError } from '../testing/fake-data-service.js'
+
+const LONG_TEXT = '今天我们讲导数的定义，它描述函数在某一点的瞬时变化率'
+const STAGE_SUMMARY = { summary: '导数', highlights: ['a', 'b', 'c'], knowledge_keywords: ['k', 'l', 'm'] }
+
+let harness: PluginHarness
+let lectureId: string
+
+beforeEach(async () => {
+  harness = await createPluginHarness()
+  lectureId = harness.dataService.seedLecture({ owner_id: 'test-user' }).lecture_id
+})
+
+afterEach(async () => {
+  await harness.close()
+})
+
+function ingest(overrides: Record<string, unknown> = {}){
+  return harness.invokePlugin('workflow.run', {
+    operation: 'run',
+    inputs: {
+      workflow: 'ingest-audio-chunk',
+      inputs: {
+        lecture_id: lectureId,
+        file: { name: 'chunk.webm', mime_type: 'audio/webm', data: Buffer.from('audio').toString('base64') },
+        t_start_ms: 0,
+        t_end_ms: 60_000,
+        seq_no: 7,
+        language: 'zh',
+        ...overrides
+      }
+    }
+  })
+}
+
+function stepsOf(res: any){
+  return Object.fromEntries(res.data.steps.map((step: any) => [step.id, step]))
+}
+
+describe('workflow.run', () => {
+  it('list 列出内置工作流及其步骤', async () => {
+    const res = await harness.invokePlugin('workflow.run', { operation: 'list' })
+    expect((res.data as any).workflows).toEqual([
+      expect.objectContaining({ name: 'ingest-audio-chunk', steps: expect.arrayContaining([{ id: 'transcribe', plugin: 'audio.transcribe' }]) })
+    ])
+  })
+
+  it('ingest-audio-chunk 依次转录、写入转录、生成并写入阶段总结', async () => {
+    harness.openai.onTranscription(() => ({ text: LONG_TEXT }))
+    harness.openai.onResponses(() => ({ json: STAGE_SUMMARY }))
+    const res = await ingest()
+    expect(res.status_code).toBe(200)
+    expect((res.data as any).result).toEqual({ text: LONG_TEXT, stage_summary: STAGE_SUMMARY })
+    expect(harness.dataService.state.transcriptions.get(lectureId)).toEqual([
+      { t_start_ms: 0, t_end_ms: 60_000, content: LONG_TEXT, seq_no: 7 }
+    ])
+    expect(harness.dataService.state.summaries.get(lectureId)).toHaveLength(1)
+  })
+
+  it('转录过短时跳过阶段总结', async () => {
+    harness.openai.onTranscription(() => ({ text: '嗯' }))
+    const res = await ingest()
+    expect(stepsOf(res)['stage-summary'].status).toBe('skipped')
+    expect(stepsOf(res)['append-summary'].status).toBe('skipped')
+  })
+
+  it('seq_no 必填', async () => {
+    const res = await ingest({ seq_no: undefined })
+    expect(res).toMatchObject({ status_code: 400, message: 'seq_no is required' })
+  })
+
+  it('写入超时但实际已生效时，重试前先删除已写入的片段', async () => {
+    harness.openai.onTranscription(() => ({ text: '嗯' }))
+    let failed = false
+    harness.dataService.state.transcriptions.set(lectureId, [])
+    // 第一次写入落库后以 504 失败，模拟响应超时
+    const list = harness.dataService.state.transcriptions.get(lectureId)!
+    // 不可枚举，读取转录时仍可复制列表
+    Object.defineProperty(list, 'push', {
+      enumerable: false,
+      value(this: unknown[], ...items: unknown[]){
+        const length = Array.prototype.push.apply(this, items)
+        if(!failed){
+          failed = true
+          throw new FakeDataServiceError(504, 'upstream timeout')
+        }
+        return length
+      }
+    })
+    const res = await ingest()
+    expect(res.status_code).toBe(200)
+    expect(stepsOf(res)['append-transcription'].attempts).toBe(2)
+    expect(harness.dataService.state.transcriptions.get(lectureId)).toHaveLength(1)
+    // 每次写入前先确认 seq_no 尚未写入；写入成功后读取讲座状态，没有状态的讲座不修改
+    expect(harness.dataService.calls.map((call) => call.method)).toEqual(['GET', 'POST', 'DELETE', 'GET', 'POST', 'GET'])
+  })
+
+  it('后续步骤失败时按逆序补偿已写入的转录', async () => {
+    harness.openai.onTranscription(() => ({ text: LONG_TEXT }))
+    harness.openai.onResponses(() => ({ status: 400, error: 'bad request' }))
+    const res = await ingest()
+    expect(res.status_code).toBe(500)
+    expect(res.partial).toBe(true)
+    expect((res.data as any).failed_step).toBe('stage-summary')
+    expect(stepsOf(res)['append-transcription'].status).toBe('compensated')
+    expect(harness.dataService.state.transcriptions.get(lectureId)).toEqual([])
+  })
+
+  it('seq_no 已有片段时返回 409，不写入也不删除已有片段', async () => {
+    harness.openai.onTranscription(() => ({ text: LONG_TEXT }))
+    harness.openai.onResponses(() => ({ json: STAGE_SUMMARY }))
+    const existing = { t_start_ms: 0, t_end_ms: 1000, content: '之前的片段', seq_no: 7 }
+    harness.dataService.state.transcriptions.set(lectureId, [existing])
+    const res = await ingest()
+    expect(res).toMatchObject({ status_code: 409, data: { failed_step: 'append-transcription' } })
+    expect(harness.dataService.state.transcriptions.get(lectureId)).toEqual([existing])
+    expect(harness.dataService.calls.map((call) => call.method)).not.toContain('DELETE')
+  })
+
+  it('补偿的删除返回 404 时记为 compensation_failed', async () => {
+    harness.openai.onTranscription(() => ({ text: LONG_TEXT }))
+    // 模拟 Data Service 未提供按 seq_no 删除的接口
+    harness.openai.onResponses(() => {
+      harness.dataService.failNext(404, 'not found')
+      return { status: 400, error: 'bad request' }
+    })
+    const res = await ingest()
+    expect(res.status_code).toBe(500)
+    expect(stepsOf(res)['append-transcription'].status).toBe('compensation_failed')
+    expect(harness.dataService.state.transcriptions.get(lectureId)).toHaveLength(1)
+  })
+
+  it('4xx 视为确定性失败，不重试', async () => {
+    harness.openai.onTranscription(() => ({ text: '嗯' }))
+    harness.dataService.failNext(404, 'lecture not found')
+    const res = await ingest()
+    expect(res.status_code).toBe(404)
+    expect(stepsOf(res)['append-transcription'].attempts).toBe(1)
+  })
+})
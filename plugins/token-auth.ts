@@ -0,0 +1,188 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify, type KeyObject, type JsonWebKey } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { getManifest, type PluginInvocation, type PluginMiddleware } from './registry.js'
+import { getPluginSettings, type AuthKey, type AuthSettings } from './settings.js'
+import { PSC } from './status-codes.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+
+type Algorithm = AuthKey['alg']
+
+interface VerificationKey {
+  kid?: string
+  alg: Algorithm
+  key: KeyObject | Buffer
+}
+
+export interface VerifiedToken {
+  userId: string
+  roles: string[]
+  expiresAt?: number
+  claims: Record<string, unknown>
+}
+
+export class TokenError extends Error {
+  constructor(message: string){
+    super(message)
+    this.name = 'TokenError'
+  }
+}
+
+const SUPPORTED_ALGORITHMS = new Set<Algorithm>(['HS256', 'RS256', 'ES256'])
+const jwksCache = new Map<string, VerificationKey[]>()
+
+// 校验 JWT 签名与 exp / nbf / iss / aud，返回 sub 与角色
+export function verifyToken(token: string, settings: AuthSettings): VerifiedToken {
+  const parts = token.split('.')
+  if(parts.length !== 3) throw new TokenError('malformed token')
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+  const header = decodeSegment(encodedHeader)
+  const claims = decodeSegment(encodedPayload)
+  const alg = header.alg as Algorithm
+  if(!SUPPORTED_ALGORITHMS.has(alg)) throw new TokenError(`unsupported algorithm: ${String(header.alg)}`)
+
+  const candidates = resolveKeys(settings).filter((key) => key.alg === alg && (!header.kid || !key.kid || key.kid === header.kid))
+  if(!candidates.length) throw new TokenError('no matching verification key')
+  const data = Buffer.from(`${encodedHeader}.${encodedPayload}`)
+  const signature = Buffer.from(encodedSignature, 'base64url')
+  if(!candidates.some((key) => verifySignature(key, data, signature))){
+    throw new TokenError('invalid signature')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const tolerance = settings.clockToleranceSec ?? 0
+  if(typeof claims.exp === 'number' && claims.exp + tolerance <= now) throw new TokenError('token expired')
+  if(typeof claims.nbf === 'number' && claims.nbf - tolerance > now) throw new TokenError('token not yet valid')
+  if(settings.issuer && claims.iss !== settings.issuer) throw new TokenError('unexpected issuer')
+  if(settings.audience){
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if(!audiences.includes(settings.audience)) throw new TokenError('unexpected audience')
+  }
+  if(typeof claims.sub !== 'string' || !claims.sub) throw new TokenError('token has no subject')
+
+  const rawRoles = claims[settings.rolesClaim ?? 'roles']
+  return {
+    userId: claims.sub,
+    roles: Array.isArray(rawRoles) ? rawRoles.filter((role): role is string => typeof role === 'string') : [],
+    expiresAt: typeof claims.exp === 'number' ? claims.exp * 1000 : undefined,
+    claims
+  }
+}
+
+// 启用后以令牌中的 sub 覆盖 ctx.userId，不再信任调用方传入的值；
+// anonymous 中的插件（登录、刷新等）在令牌无效时按未登录处理，其余插件返回 401
+export function authenticate(options: { anonymous?: string[] } = {}): PluginMiddleware {
+  return {
+    name: 'authenticate',
+    before: (ctx, invocation) => {
+      const settings = getPluginSettings().auth
+      if(!settings?.enabled) return
+      ctx.userId = undefined
+      ctx.roles = []
+      ctx.tokenExpiresAt = undefined
+      const token = bearerTokenOf(ctx)
+      if(!token) return
+      try {
+        const verified = verifyToken(token, settings)
+        ctx.userId = verified.userId
+        ctx.roles = verified.roles
+        ctx.tokenExpiresAt = verified.expiresAt
+      } catch (error) {
+        if(!(error instanceof TokenError)) throw error
+        if(options.anonymous?.includes(invocation.plugin)) return
+        console.warn('[auth] token rejected', { plugin: invocation.plugin, requestId: ctx.requestId, reason: error.message })
+        return { status_code: PSC.UNAUTHORIZED, message: error.message, data: {} }
+      }
+    }
+  }
+}
+
+// 按配置或 manifest 中声明的 roles 限制调用方；未启用令牌校验（ctx.roles 为空值）时不做限制
+export function authorizeRoles(): PluginMiddleware {
+  return {
+    name: 'authorize-roles',
+    before: (ctx, invocation) => {
+      if(!ctx.roles) return
+      const required = requiredRoles(invocation)
+      if(!required?.length || required.some((role) => ctx.roles!.includes(role))) return
+      return forbidden(ctx, invocation, required)
+    }
+  }
+}
+
+function requiredRoles({ plugin, operation }: PluginInvocation): string[] | undefined {
+  const configured = getPluginSettings().auth?.roles
+  return (operation ? configured?.[`${plugin}:${operation}`] : undefined)
+    ?? configured?.[plugin]
+    ?? (operation ? getManifest(plugin)?.operations[operation]?.roles : undefined)
+}
+
+function forbidden(ctx: PluginContext, invocation: PluginInvocation, required: string[]): PluginResponse {
+  console.warn('[auth] role check failed', { plugin: invocation.plugin, operation: invocation.operation, userId: ctx.userId, required })
+  return { status_code: PSC.FORBIDDEN, message: 'insufficient role', data: { required_roles: required } }
+}
+
+function bearerTokenOf({ headers }: PluginContext): string | undefined {
+  const header = headers?.authorization ?? headers?.Authorization
+  const match = typeof header === 'string' ? /^Bearer\s+(.+)$/i.exec(header.trim()) : null
+  return match?.[1]
+}
+
+function decodeSegment(segment: string): Record<string, any> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+    if(value && typeof value === 'object') return value
+  } catch {
+    // 落到下方统一报错
+  }
+  throw new TokenError('malformed token')
+}
+
+function verifySignature(key: VerificationKey, data: Buffer, signature: Buffer){
+  if(key.alg === 'HS256'){
+    const expected = createHmac('sha256', key.key as Buffer).update(data).digest()
+    return expected.length === signature.length && timingSafeEqual(expected, signature)
+  }
+  try {
+    if(key.alg === 'ES256'){
+      return verify('sha256', data, { key: key.key as KeyObject, dsaEncoding: 'ieee-p1363' }, signature)
+    }
+    return verify('sha256', data, key.key as KeyObject, signature)
+  } catch {
+    return false
+  }
+}
+
+function resolveKeys(settings: AuthSettings): VerificationKey[] {
+  const keys: VerificationKey[] = (settings.keys ?? []).flatMap((key): VerificationKey[] => {
+    if(key.alg === 'HS256'){
+      return key.secret ? [{ kid: key.kid, alg: key.alg, key: Buffer.from(key.secret) }] : []
+    }
+    return key.publicKey ? [{ kid: key.kid, alg: key.alg, key: createPublicKey(key.publicKey) }] : []
+  })
+  if(settings.jwksPath) keys.push(...loadJwks(path.resolve(settings.jwksPath)))
+  return keys
+}
+
+function loadJwks(file: string): VerificationKey[] {
+  let keys = jwksCache.get(file)
+  if(!keys){
+    const jwks = JSON.parse(readFileSync(file, 'utf8')) as { keys?: Array<JsonWebKey & { kid?: string; alg?: string }> }
+    keys = (jwks.keys ?? []).flatMap((jwk): VerificationKey[] => {
+      const alg = (jwk.alg ?? (jwk.kty === 'RSA' ? 'RS256' : jwk.kty === 'EC' ? 'ES256' : jwk.kty === 'oct' ? 'HS256' : undefined)) as Algorithm | undefined
+      if(!alg || !SUPPORTED_ALGORITHMS.has(alg)) return []
+      if(alg === 'HS256'){
+        return typeof jwk.k === 'string' ? [{ kid: jwk.kid, alg, key: Buffer.from(jwk.k, 'base64url') }] : []
+      }
+      return [{ kid: jwk.kid, alg, key: createPublicKey({ key: jwk, format: 'jwk' }) }]
+    })
+    jwksCache.set(file, keys)
+    console.info('[auth] loaded jwks', { file, keys: keys.length })
+  }
+  return keys
+}
+
+// 丢弃缓存的 JWKS 公钥，供测试切换签名密钥
+export function resetTokenKeys(){
+  jwksCache.clear()
+}
@@ -0,0 +1,223 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import { createReadStream, existsSync } from 'node:fs'
+import { createInterface } from 'node:readline'
+import path from 'node:path'
+import { getPluginSettings } from './settings.js'
+
+export interface UsageMeta {
+  plugin: string
+  model: string
+  userId?: string
+  requestId?: string
+  lectureId?: string
+}
+
+export interface UsageRecord extends UsageMeta {
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  recorded_at: string
+}
+
+export type UsageGroupBy = 'user' | 'lecture' | 'plugin'
+
+export interface UsageQuery {
+  groupBy: UsageGroupBy
+  userId?: string
+  lectureId?: string
+  plugin?: string
+  from?: string
+  to?: string
+}
+
+export interface UsageAggregate {
+  key: string
+  calls: number
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  models: string[]
+}
+
+const DEFAULT_MEMORY_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 内存中只保留最近 usage.memoryDays 个 UTC 自然日的明细；更早的范围从 JSONL 文件流式读取
+const records: UsageRecord[] = []
+// `${day}:${userId}:${plugin}` → 当日 token 数，供限流的每日 token 配额直接查询
+const dailyTokens = new Map<string, number>()
+let windowStart = 0
+let loadedFrom: string | undefined
+let loading: Promise<void> = Promise.resolve()
+let writing: Promise<void> = Promise.resolve()
+
+// 从 OpenAI 响应的 usage 块中提取用量并记账；Responses API 使用 input/output_tokens，
+// 转录接口按时长计费时返回 { type: 'duration', seconds }
+export function recordModelUsage(meta: UsageMeta, usage: any, audioSeconds?: number){
+  const record: UsageRecord = {
+    ...meta,
+    input_tokens: toCount(usage?.input_tokens ?? usage?.prompt_tokens),
+    output_tokens: toCount(usage?.output_tokens ?? usage?.completion_tokens),
+    audio_seconds: toCount(usage?.type === 'duration' ? usage.seconds : audioSeconds),
+    recorded_at: new Date().toISOString()
+  }
+  ensureLoaded()
+  remember(record)
+  persist(record)
+  return record
+}
+
+export async function queryUsage(query: UsageQuery): Promise<UsageAggregate[]> {
+  await ensureLoaded()
+  const from = query.from ? Date.parse(query.from) : undefined
+  const to = query.to ? Date.parse(query.to) : undefined
+  const file = ledgerPath()
+  // 查询范围超出内存窗口时读取完整的明细文件；未配置文件时只能查询内存窗口内的用量
+  const source = file && (from === undefined || from < currentWindowStart()) ? readLedger(file, writing) : records
+  const groups = new Map<string, UsageAggregate & { modelSet: Set<string> }>()
+  for await (const record of source){
+    if(query.userId && record.userId !== query.userId) continue
+    if(query.lectureId && record.lectureId !== query.lectureId) continue
+    if(query.plugin && record.plugin !== query.plugin) continue
+    const at = Date.parse(record.recorded_at)
+    if(from !== undefined && at < from) continue
+    if(to !== undefined && at >= to) continue
+    const key = groupKey(record, query.groupBy)
+    let group = groups.get(key)
+    if(!group){
+      group = { key, calls: 0, input_tokens: 0, output_tokens: 0, audio_seconds: 0, models: [], modelSet: new Set() }
+      groups.set(key, group)
+    }
+    group.calls += 1
+    group.input_tokens += record.input_tokens
+    group.output_tokens += record.output_tokens
+    group.audio_seconds += record.audio_seconds
+    group.modelSet.add(record.model)
+  }
+  return Array.from(groups.values())
+    .map(({ modelSet, ...group }) => ({ ...group, audio_seconds: round(group.audio_seconds), models: Array.from(modelSet).sort() }))
+    .sort((a, b) => (b.input_tokens + b.output_tokens) - (a.input_tokens + a.output_tokens))
+}
+
+// 某用户调用某插件在 UTC 自然日 day（YYYY-MM-DD，须在内存窗口内）消耗的 token 数
+export async function tokensUsedOn(userId: string, plugin: string, day: string){
+  await ensureLoaded()
+  return dailyTokens.get(dailyKey(day, userId, plugin)) ?? 0
+}
+
+function groupKey(record: UsageRecord, groupBy: UsageGroupBy){
+  if(groupBy === 'user') return record.userId ?? '<anonymous>'
+  if(groupBy === 'lecture') return record.lectureId ?? '<unassigned>'
+  return record.plugin
+}
+
+function toCount(value: unknown): number {
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+function round(value: number){
+  return Math.round(value * 1000) / 1000
+}
+
+function ledgerPath(){
+  const configured = getPluginSettings().usage?.ledgerPath
+  return configured ? path.resolve(configured) : undefined
+}
+
+function dailyKey(day: string, userId: string | undefined, plugin: string){
+  return `${day}:${userId ?? ''}:${plugin}`
+}
+
+// 内存窗口的起点：memoryDays 个 UTC 自然日之前的零点
+function currentWindowStart(now = Date.now()){
+  const days = Math.max(1, getPluginSettings().usage?.memoryDays ?? DEFAULT_MEMORY_DAYS)
+  return Math.floor(now / DAY_MS) * DAY_MS - (days - 1) * DAY_MS
+}
+
+function remember(record: UsageRecord){
+  evictExpired()
+  if(Date.parse(record.recorded_at) < windowStart) return
+  records.push(record)
+  const key = dailyKey(record.recorded_at.slice(0, 10), record.userId, record.plugin)
+  dailyTokens.set(key, (dailyTokens.get(key) ?? 0) + record.input_tokens + record.output_tokens)
+}
+
+// 跨过 UTC 零点后才移除滑出窗口的明细，每天最多整理一次
+function evictExpired(){
+  const start = currentWindowStart()
+  if(start === windowStart) return
+  windowStart = start
+  const kept = records.filter((record) => Date.parse(record.recorded_at) >= start)
+  records.length = 0
+  records.push(...kept)
+  const firstDay = new Date(start).toISOString().slice(0, 10)
+  for(const key of dailyTokens.keys()){
+    if(key.slice(0, 10) < firstDay) dailyTokens.delete(key)
+  }
+}
+
+// 首次访问时异步载入内存窗口内的明细，保证进程重启后限流与查询结果完整
+function ensureLoaded(){
+  const file = ledgerPath()
+  if(file && loadedFrom !== file){
+    loadedFrom = file
+    loading = loadRecent(file)
+  }
+  return loading
+}
+
+async function loadRecent(file: string){
+  try {
+    for await (const record of readLedger(file)){
+      if(Date.parse(record.recorded_at) >= currentWindowStart()) remember(record)
+    }
+  } catch (error) {
+    console.error('[usage-ledger] failed to load usage ledger', {
+      file,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+// 逐行读取 JSONL 明细；after 为尚未完成的写入，读取前先等待，避免漏掉刚记账的明细
+async function* readLedger(file: string, after?: Promise<void>): AsyncGenerator<UsageRecord> {
+  await after
+  if(!existsSync(file)) return
+  const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity })
+  for await (const line of lines){
+    if(!line.trim()) continue
+    try {
+      yield JSON.parse(line)
+    } catch {
+      console.warn('[usage-ledger] skipping malformed ledger line', { file })
+    }
+  }
+}
+
+// 追加写入串行执行，并排在首次载入之后，载入过程中不会读到新写入的行
+function persist(record: UsageRecord){
+  const file = ledgerPath()
+  if(!file) return
+  writing = writing
+    .then(() => loading)
+    .then(() => mkdir(path.dirname(file), { recursive: true }))
+    .then(() => appendFile(file, `${JSON.stringify(record)}\n`, 'utf8'))
+    .catch((error) => {
+      console.error('[usage-ledger] failed to persist usage record', {
+        requestId: record.requestId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+}
+
+// 清空内存中的明细与日汇总（先等待进行中的载入与写入完成），下次访问时重新从 ledgerPath 载入；供测试隔离用例
+export async function resetUsageLedger(){
+  await Promise.all([loading, writing])
+  records.length = 0
+  dailyTokens.clear()
+  windowStart = 0
+  loadedFrom = undefined
+  loading = Promise.resolve()
+  writing = Promise.resolve()
+}
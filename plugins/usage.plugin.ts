@@ -0,0 +1,52 @@
+import { registerPlugin, type PluginManifest } from './registry.js'
+import { queryUsage } from './usage-ledger.js'
+import { getPluginSettings } from './settings.js'
+import { SC } from '../constants/status-codes.js'
+import { PSC } from './status-codes.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+import { z } from 'zod'
+
+const querySchema = z.object({
+  group_by: z.enum(['user', 'lecture', 'plugin']),
+  user_id: z.string().min(1).optional(),
+  lecture_id: z.string().min(1).optional(),
+  plugin: z.string().min(1).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional()
+})
+
+const MANIFEST: PluginManifest = {
+  version: '1.0.0',
+  description: '模型用量统计：按用户、讲座或插件汇总 token 与音频时长',
+  operations: {
+    query: { description: '查询汇总用量；非管理员只能查询自己的用量', inputs: querySchema }
+  }
+}
+
+registerPlugin('usage.report', async ({ intent, userId }: PluginContext): Promise<PluginResponse> => {
+  if(intent?.operation !== 'query'){
+    return { status_code: SC.BAD_REQUEST, message: 'unsupported operation', data: {} }
+  }
+  const parsed = querySchema.safeParse(intent.inputs ?? {})
+  if(!parsed.success){
+    return { status_code: SC.BAD_REQUEST, message: formatZodError(parsed.error), data: {} }
+  }
+  const { group_by, user_id, lecture_id, plugin, from, to } = parsed.data
+  const isAdmin = !!userId && (getPluginSettings().usage?.admins ?? []).includes(userId)
+  if(!isAdmin && user_id && user_id !== userId){
+    return { status_code: PSC.FORBIDDEN, message: 'cannot query usage of other users', data: {} }
+  }
+  const groups = await queryUsage({
+    groupBy: group_by,
+    userId: isAdmin ? user_id : userId,
+    lectureId: lecture_id,
+    plugin,
+    from,
+    to
+  })
+  return { status_code: SC.OK, message: 'ok', data: { group_by, groups } }
+}, MANIFEST)
+
+function formatZodError(error: z.ZodError){
+  return error.issues.map((issue) => issue.message ?? issue.code).join('; ') || 'invalid inputs'
+}
@@ -0,0 +1,212 @@
+import { randomUUID } from 'node:crypto'
+import { z } from 'zod'
+import { getManifest, getPlugin } from './registry.js'
+import { SC } from '../constants/status-codes.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+
+export interface WorkflowState {
+  inputs: Record<string, any>
+  outputs: Record<string, any>
+}
+
+export interface WorkflowInvocation {
+  plugin: string
+  operation: string
+  inputs: (state: WorkflowState) => Record<string, unknown>
+}
+
+export interface WorkflowStep extends WorkflowInvocation {
+  id: string
+  // 返回 false 时跳过该步骤
+  when?: (state: WorkflowState) => boolean
+  // 仅对 5xx 失败重试，4xx 视为确定性失败
+  retries?: number
+  retryDelayMs?: number
+  // 后续步骤失败时按逆序执行，用于撤销本步骤的副作用；
+  // 本步骤 5xx 后重试前也会先执行一次，撤销超时但实际已生效的写入，须能重复执行
+  compensate?: WorkflowInvocation
+}
+
+export interface WorkflowDefinition<TInputs extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string
+  description: string
+  inputs: TInputs
+  steps: WorkflowStep[]
+  output: (state: WorkflowState) => unknown
+}
+
+type StepStatus = 'succeeded' | 'failed' | 'skipped' | 'compensated' | 'compensation_failed'
+
+interface StepReport {
+  id: string
+  plugin: string
+  status: StepStatus
+  attempts: number
+  status_code?: number
+  message?: string
+}
+
+const DEFAULT_RETRY_DELAY_MS = 500
+
+const workflows = new Map<string, WorkflowDefinition>()
+
+export function registerWorkflow(definition: WorkflowDefinition) {
+  workflows.set(definition.name, definition)
+}
+
+export function getWorkflow(name: string): WorkflowDefinition | undefined {
+  return workflows.get(name)
+}
+
+export function listWorkflows(): WorkflowDefinition[] {
+  return Array.from(workflows.values())
+}
+
+export async function runWorkflow(definition: WorkflowDefinition, rawInputs: unknown, ctx: PluginContext): Promise<PluginResponse> {
+  const parsed = definition.inputs.safeParse(rawInputs ?? {})
+  if(!parsed.success){
+    return { status_code: SC.BAD_REQUEST, message: formatZodError(parsed.error), data: {} }
+  }
+  const state: WorkflowState = { inputs: parsed.data, outputs: {} }
+  const reports: StepReport[] = []
+  const completed: WorkflowStep[] = []
+  // mutating 步骤的 idempotency_key 前缀，同一步骤的各次重试共用一个 key
+  const runKey = `workflow:${definition.name}:${randomUUID()}`
+
+  for(const step of definition.steps){
+    if(step.when && !step.when(state)){
+      reports.push({ id: step.id, plugin: step.plugin, status: 'skipped', attempts: 0 })
+      continue
+    }
+    const { response, attempts } = await invokeWithRetry(step, state, ctx, `${runKey}:${step.id}`)
+    const report: StepReport = {
+      id: step.id,
+      plugin: step.plugin,
+      status: 'succeeded',
+      attempts,
+      status_code: response.status_code
+    }
+    reports.push(report)
+    if(!isSuccess(response)){
+      report.status = 'failed'
+      report.message = response.message
+      await compensate(completed, state, ctx, reports)
+      return {
+        status_code: response.status_code,
+        message: `workflow step ${step.id} failed: ${response.message}`,
+        data: {
+          workflow: definition.name,
+          failed_step: step.id,
+          error: response.data ?? {},
+          steps: reports,
+          outputs: state.outputs
+        },
+        partial: completed.length > 0
+      }
+    }
+    state.outputs[step.id] = response.data
+    completed.push(step)
+  }
+
+  return {
+    status_code: SC.OK,
+    message: 'ok',
+    data: {
+      workflow: definition.name,
+      result: definition.output(state),
+      steps: reports
+    }
+  }
+}
+
+async function invokeWithRetry(step: WorkflowStep, state: WorkflowState, ctx: PluginContext, idempotencyKey: string){
+  const maxAttempts = 1 + Math.max(0, step.retries ?? 0)
+  const delayMs = step.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+  let attempts = 1
+  let response = await invoke(step, state, ctx, idempotencyKey)
+  while(response.status_code >= 500 && attempts < maxAttempts && !ctx.signal?.aborted){
+    await sleep(delayMs * 2 ** (attempts - 1))
+    // 5xx（例如超时）不代表写入未生效，先撤销再重试，避免重复写入；撤销失败时不再重试
+    if(step.compensate && !await undoAttempt(step, state, ctx)) break
+    attempts += 1
+    response = await invoke(step, state, ctx, idempotencyKey)
+  }
+  return { response, attempts }
+}
+
+async function undoAttempt(step: WorkflowStep, state: WorkflowState, ctx: PluginContext){
+  const response = await invoke(step.compensate!, state, ctx)
+  if(isSuccess(response)) return true
+  console.error('[workflow] compensation before retry failed', {
+    step: step.id,
+    requestId: ctx.requestId,
+    status: response.status_code,
+    message: response.message
+  })
+  return false
+}
+
+async function compensate(completed: WorkflowStep[], state: WorkflowState, ctx: PluginContext, reports: StepReport[]){
+  // 调用方取消或超时后仍需完成补偿
+  const compensationCtx: PluginContext = { ...ctx, signal: undefined, deadline: undefined }
+  for(const step of [...completed].reverse()){
+    if(!step.compensate) continue
+    const report = reports.find((item) => item.id === step.id)
+    const response = await invoke(step.compensate, state, compensationCtx)
+    if(report) report.status = isSuccess(response) ? 'compensated' : 'compensation_failed'
+    if(!isSuccess(response)){
+      console.error('[workflow] compensation failed', {
+        step: step.id,
+        requestId: ctx.requestId,
+        status: response.status_code,
+        message: response.message
+      })
+    }
+  }
+}
+
+// idempotencyKey 只传给 manifest 标记为 mutating 的操作，见 idempotency.ts
+async function invoke(invocation: WorkflowInvocation, state: WorkflowState, ctx: PluginContext, idempotencyKey?: string): Promise<PluginResponse> {
+  const handler = getPlugin(invocation.plugin)
+  if(!handler){
+    return { status_code: SC.INTERNAL, message: `unknown plugin: ${invocation.plugin}`, data: {} }
+  }
+  const mutating = !!getManifest(invocation.plugin)?.operations[invocation.operation]?.mutating
+  let inputs: Record<string, unknown>
+  try {
+    inputs = invocation.inputs(state)
+    if(idempotencyKey && mutating) inputs = { ...inputs, idempotency_key: idempotencyKey }
+  } catch (error) {
+    return {
+      status_code: SC.INTERNAL,
+      message: 'failed to map step inputs',
+      data: { error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+  const intent = { operation: invocation.operation, inputs }
+  try {
+    return await handler({
+      ...ctx,
+      intent,
+      envelope: { ...ctx.envelope, pluginName: invocation.plugin, intent }
+    })
+  } catch (error) {
+    return {
+      status_code: SC.INTERNAL,
+      message: `${invocation.plugin} failed`,
+      data: { error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+}
+
+function isSuccess(response: PluginResponse){
+  return response.status_code >= 200 && response.status_code < 300
+}
+
+function sleep(ms: number){
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function formatZodError(error: z.ZodError){
+  return error.issues.map((issue) => issue.message ?? issue.code).join('; ') || 'invalid inputs'
+}
@@ -0,0 +1,150 @@
+import { registerPlugin, type PluginManifest } from './registry.js'
+import { registerWorkflow, getWorkflow, listWorkflows, runWorkflow } from './workflow-runner.js'
+import { SC } from '../constants/status-codes.js'
+import type { PluginContext, PluginResponse } from '../types/index.js'
+import { z } from 'zod'
+
+// 阶段总结要求当前片段至少 20 个字符，过短的片段只做转录入库
+const MIN_STAGE_TEXT_LENGTH = 20
+
+const ingestAudioChunkSchema = z.object({
+  lecture_id: z.string().min(1, 'lecture_id is required'),
+  file: z.object({
+    name: z.string().min(1, 'file.name is required'),
+    mime_type: z.string().min(1, 'file.mime_type is required'),
+    data: z.string().min(1, 'file.data (base64) is required'),
+    size: z.number().int().positive().optional()
+  }),
+  t_start_ms: z.number().nonnegative(),
+  t_end_ms: z.number().nonnegative(),
+  // 写入转录与阶段总结时使用，该 seq_no 已有片段时写入步骤返回 409；重试或补偿时按 seq_no 删除本次写入的片段
+  seq_no: z.number({ required_error: 'seq_no is required' }).positive(),
+  language: z.string().min(2, 'language is required'),
+  keywords: z.array(z.string().min(1)).max(50).optional(),
+  previous: z.string().optional(),
+  previous2: z.string().optional()
+})
+
+registerWorkflow({
+  name: 'ingest-audio-chunk',
+  description: '转录音频片段 → 写入转录 → 生成阶段总结 → 写入阶段总结',
+  inputs: ingestAudioChunkSchema,
+  steps: [
+    {
+      id: 'transcribe',
+      plugin: 'audio.transcribe',
+      operation: 'transcribe',
+      retries: 2,
+      inputs: ({ inputs }) => ({
+        file: inputs.file,
+        keywords: inputs.keywords,
+        language: inputs.language,
+        lecture_id: inputs.lecture_id
+      })
+    },
+    {
+      id: 'append-transcription',
+      plugin: 'lecture.transcription.append',
+      operation: 'transcription.append',
+      retries: 2,
+      when: ({ outputs }) => transcriptText(outputs).length > 0,
+      inputs: ({ inputs, outputs }) => segmentOf(inputs, transcriptText(outputs)),
+      compensate: {
+        plugin: 'lecture.transcription.delete',
+        operation: 'transcription.delete',
+        inputs: ({ inputs }) => ({ lecture_id: inputs.lecture_id, seq_no: inputs.seq_no })
+      }
+    },
+    {
+      id: 'stage-summary',
+      plugin: 'audio.stage-summary',
+      operation: 'stage',
+      retries: 1,
+      when: ({ outputs }) => transcriptText(outputs).length >= MIN_STAGE_TEXT_LENGTH,
+      inputs: ({ inputs, outputs }) => ({
+        previous2: inputs.previous2,
+        previous: inputs.previous,
+        current: transcriptText(outputs),
+        language: inputs.language,
+        keywords: inputs.keywords,
+        lecture_id: inputs.lecture_id
+      })
+    },
+    {
+      id: 'append-summary',
+      plugin: 'lecture.summary.append',
+      operation: 'summary.append',
+      retries: 2,
+      when: ({ outputs }) => !!outputs['stage-summary'],
+      inputs: ({ inputs, outputs }) => segmentOf(inputs, JSON.stringify(outputs['stage-summary'])),
+      compensate: {
+        plugin: 'lecture.summary.delete',
+        operation: 'summary.delete',
+        inputs: ({ inputs }) => ({ lecture_id: inputs.lecture_id, seq_no: inputs.seq_no })
+      }
+    }
+  ],
+  output: ({ outputs }) => ({
+    text: transcriptText(outputs),
+    stage_summary: outputs['stage-summary'] ?? null
+  })
+})
+
+function transcriptText(outputs: Record<string, any>): string {
+  const text = outputs.transcribe?.text
+  return typeof text === 'string' ? text.trim() : ''
+}
+
+// if_absent：不覆盖已有的同号片段，补偿时删除的只会是本次写入的片段
+function segmentOf(inputs: Record<string, any>, content: string){
+  return {
+    lecture_id: inputs.lecture_id,
+    t_start_ms: inputs.t_start_ms,
+    t_end_ms: inputs.t_end_ms,
+    content,
+    seq_no: inputs.seq_no,
+    if_absent: true
+  }
+}
+
+const runSchema = z.object({
+  workflow: z.string().min(1, 'workflow is required'),
+  inputs: z.record(z.unknown()).optional()
+})
+
+const MANIFEST: PluginManifest = {
+  version: '1.0.0',
+  description: '服务端工作流：按声明顺序串联多个插件调用，支持步骤重试与补偿',
+  operations: {
+    list: { description: '列出内置工作流', inputs: z.object({}) },
+    run: { description: '执行指定工作流，返回聚合结果与各步骤状态', inputs: runSchema, mutating: true }
+  }
+}
+
+registerPlugin('workflow.run', async (ctx: PluginContext): Promise<PluginResponse> => {
+  const { intent } = ctx
+  if(intent?.operation === 'list'){
+    const workflows = listWorkflows().map(({ name, description, steps }) => ({
+      name,
+      description,
+      steps: steps.map(({ id, plugin }) => ({ id, plugin }))
+    }))
+    return { status_code: SC.OK, message: 'ok', data: { workflows } }
+  }
+  if(intent?.operation !== 'run'){
+    return { status_code: SC.BAD_REQUEST, message: 'unsupported operation', data: {} }
+  }
+  const parsed = runSchema.safeParse(intent.inputs ?? {})
+  if(!parsed.success){
+    return { status_code: SC.BAD_REQUEST, message: formatZodError(parsed.error), data: {} }
+  }
+  const definition = getWorkflow(parsed.data.workflow)
+  if(!definition){
+    return { status_code: SC.BAD_REQUEST, message: `unknown workflow: ${parsed.data.workflow}`, data: {} }
+  }
+  return runWorkflow(definition, parsed.data.inputs, ctx)
+}, MANIFEST)
+
+function formatZodError(error: z.ZodError){
+  return error.issues.map((issue) => issue.message ?? issue.code).join('; ') || 'invalid inputs'
+}